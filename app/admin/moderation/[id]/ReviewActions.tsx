@@ -0,0 +1,98 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+type Decision = 'approve' | 'reject-regenerate' | 'reject-refund';
+
+interface ReviewActionsProps {
+  reviewId: string;
+  contentLabel: string;
+}
+
+export function ReviewActions({ reviewId, contentLabel }: ReviewActionsProps) {
+  const [notes, setNotes] = useState('');
+  const [pending, setPending] = useState<Decision | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const submit = async (decision: Decision) => {
+    if (decision === 'reject-refund' && !confirm('Cancel this book and refund the customer?')) {
+      return;
+    }
+
+    setPending(decision);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/admin/moderation/${reviewId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ decision, notes: notes || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to record decision');
+      }
+
+      router.push('/admin/moderation');
+      router.refresh();
+    } catch (err) {
+      console.error('Review decision error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to record decision');
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="font-semibold text-lg mb-4">Decision</h3>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <label htmlFor="reviewer-notes" className="block text-sm font-medium text-gray-700 mb-2">
+        Notes (optional)
+      </label>
+      <textarea
+        id="reviewer-notes"
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        rows={3}
+        className="w-full border rounded-lg px-3 py-2 mb-4 text-sm"
+        placeholder="Why this decision was made"
+      />
+
+      <div className="space-y-3">
+        <button
+          onClick={() => submit('approve')}
+          disabled={pending !== null}
+          className="w-full bg-green-600 text-white px-4 py-2 rounded-lg hover:bg-green-700 transition font-medium disabled:opacity-50"
+        >
+          {pending === 'approve' ? 'Approving...' : `Approve ${contentLabel}`}
+        </button>
+        <button
+          onClick={() => submit('reject-regenerate')}
+          disabled={pending !== null}
+          className="w-full bg-primary text-white px-4 py-2 rounded-lg hover:opacity-90 transition font-medium disabled:opacity-50"
+        >
+          {pending === 'reject-regenerate' ? 'Regenerating...' : `Reject and regenerate ${contentLabel}`}
+        </button>
+        <button
+          onClick={() => submit('reject-refund')}
+          disabled={pending !== null}
+          className="w-full bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition font-medium disabled:opacity-50"
+        >
+          {pending === 'reject-refund' ? 'Cancelling...' : 'Reject and refund'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { requireAdmin } from '@/lib/admin';
+import { AuthenticationError, NotFoundError } from '@/lib/errors';
+import { ModerationReviewService } from '@/services/moderationReview.service';
+import { ReviewActions } from './ReviewActions';
+
+export const dynamic = 'force-dynamic';
+
+function ScoreList({ scores }: { scores?: Record<string, number> }) {
+  if (!scores) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {Object.entries(scores).map(([category, score]) => (
+        <span
+          key={category}
+          className={`px-2 py-1 text-xs rounded-full ${
+            score >= 0.7 ? 'bg-red-100 text-red-800' : score >= 0.4 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-600'
+          }`}
+        >
+          {category}: {score.toFixed(2)}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default async function ModerationReviewPage({ params }: { params: { id: string } }) {
+  try {
+    await requireAdmin();
+  } catch (error) {
+    redirect(error instanceof AuthenticationError ? '/login' : '/dashboard');
+  }
+
+  let detail;
+  try {
+    detail = await new ModerationReviewService().getReviewDetail(params.id);
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      redirect('/admin/moderation');
+    }
+    throw error;
+  }
+
+  const { review, story, image } = detail;
+  const result = review.automated_result || {};
+  const isStory = review.review_type === 'story-text';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Link href="/" className="text-2xl font-bold text-primary">
+            Storybooks
+          </Link>
+          <Link href="/admin/moderation" className="text-gray-600 hover:text-gray-900">
+            ← Back to Queue
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">
+            {isStory ? 'Story Text Review' : 'Illustration Review'}
+          </h1>
+          <p className="text-gray-600">
+            {review.book_order?.child_first_name}&apos;s Story · age {review.book_order?.child_age} · {review.book_order?.illustration_style} · book status {review.book_order?.status}
+          </p>
+        </div>
+
+        <div className="grid lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white rounded-lg shadow-sm border p-6">
+              <h3 className="font-semibold text-lg mb-4">Automated Result</h3>
+              <div className="space-y-2 text-sm">
+                <p>
+                  <span className="text-gray-600">Flags: </span>
+                  {Object.keys(result.flags || {}).join(', ') || 'none (borderline or low confidence)'}
+                </p>
+                <p>
+                  <span className="text-gray-600">Confidence: </span>
+                  {result.confidence !== undefined ? `${Math.round(result.confidence * 100)}%` : '-'}
+                </p>
+                <p>
+                  <span className="text-gray-600">Classifier: </span>
+                  {result.model || '-'}
+                </p>
+                {!isStory && <ScoreList scores={result.scores} />}
+              </div>
+            </div>
+
+            {isStory && story && (
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h3 className="font-semibold text-lg mb-4">{story.title}</h3>
+                <div className="space-y-6">
+                  {story.story_pages.map((page: any) => {
+                    const pageScores = result.pages?.find((p: any) => p.pageNumber === page.page_number);
+
+                    return (
+                      <div key={page.id} className="border-t pt-4 first:border-t-0 first:pt-0">
+                        <div className="flex items-center justify-between mb-2">
+                          <h4 className="font-medium">Page {page.page_number}</h4>
+                          <ScoreList scores={pageScores?.scores} />
+                        </div>
+                        <p className="text-gray-800 mb-2">{page.page_text}</p>
+                        <p className="text-sm text-gray-500">
+                          <span className="font-medium">Image prompt:</span> {page.image_prompt}
+                        </p>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+
+            {!isStory && image && (
+              <div className="bg-white rounded-lg shadow-sm border p-6">
+                <h3 className="font-semibold text-lg mb-4">
+                  {image.story_page ? `Page ${image.page_number}` : image.page_number === 0 ? 'Front Cover' : 'Back Cover'}
+                  <span className="text-sm font-normal text-gray-500"> · regenerated {image.retry_count || 0} time(s)</span>
+                </h3>
+                <img src={image.image_url} alt="Flagged illustration" className="w-full max-w-lg rounded-lg border mb-4" />
+                {image.story_page && (
+                  <p className="text-gray-800 mb-4">{image.story_page.page_text}</p>
+                )}
+                <h4 className="font-medium mb-2">Generation prompt</h4>
+                <pre className="text-xs bg-gray-50 border rounded-lg p-4 whitespace-pre-wrap">{image.generation_prompt}</pre>
+              </div>
+            )}
+
+            {!story && !image && (
+              <div className="bg-white rounded-lg shadow-sm border p-6 text-gray-600">
+                The flagged content no longer exists.
+              </div>
+            )}
+          </div>
+
+          <div>
+            {review.review_status === 'pending' ? (
+              <ReviewActions reviewId={review.id} contentLabel={isStory ? 'story' : 'illustration'} />
+            ) : (
+              <div className="bg-white rounded-lg shadow-sm border p-6 text-sm">
+                <p className="font-semibold mb-1">Already {review.review_status}</p>
+                {review.reviewer_notes && <p className="text-gray-600">{review.reviewer_notes}</p>}
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+    </div>
+  );
+}
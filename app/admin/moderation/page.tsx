@@ -0,0 +1,99 @@
+import { redirect } from 'next/navigation';
+import Link from 'next/link';
+import { requireAdmin } from '@/lib/admin';
+import { AuthenticationError } from '@/lib/errors';
+import { ModerationReviewService } from '@/services/moderationReview.service';
+
+export const dynamic = 'force-dynamic';
+
+function formatFlags(result: any): string {
+  const flags = Object.keys(result?.flags || {});
+  return flags.length > 0 ? flags.join(', ') : 'borderline';
+}
+
+export default async function ModerationQueuePage() {
+  try {
+    await requireAdmin();
+  } catch (error) {
+    redirect(error instanceof AuthenticationError ? '/login' : '/dashboard');
+  }
+
+  const reviews = await new ModerationReviewService().listPendingReviews();
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Link href="/" className="text-2xl font-bold text-primary">
+            Storybooks
+          </Link>
+          <nav className="flex gap-4 items-center">
+            <Link href="/admin/moderation" className="text-gray-900 font-medium">
+              Moderation
+            </Link>
+            <Link href="/dashboard" className="text-gray-600 hover:text-gray-900">
+              Dashboard
+            </Link>
+          </nav>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold mb-2">Moderation Queue</h1>
+          <p className="text-gray-600">Stories and illustrations held by the automated safety check</p>
+        </div>
+
+        {reviews.length > 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border overflow-hidden">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Content</th>
+                  <th className="px-4 py-3 font-medium">Book</th>
+                  <th className="px-4 py-3 font-medium">Flags</th>
+                  <th className="px-4 py-3 font-medium">Confidence</th>
+                  <th className="px-4 py-3 font-medium">Waiting since</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {reviews.map((review: any) => (
+                  <tr key={review.id}>
+                    <td className="px-4 py-3">
+                      <span className="px-2 py-1 text-xs rounded-full bg-yellow-100 text-yellow-800">
+                        {review.review_type === 'story-text' ? 'Story text' : 'Illustration'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      {review.book_order?.child_first_name}&apos;s Story
+                      <span className="text-gray-500"> (age {review.book_order?.child_age})</span>
+                    </td>
+                    <td className="px-4 py-3">{formatFlags(review.automated_result)}</td>
+                    <td className="px-4 py-3">
+                      {review.automated_result?.confidence !== undefined
+                        ? `${Math.round(review.automated_result.confidence * 100)}%`
+                        : '-'}
+                    </td>
+                    <td className="px-4 py-3 text-gray-500">{new Date(review.created_at).toLocaleString()}</td>
+                    <td className="px-4 py-3 text-right">
+                      <Link href={`/admin/moderation/${review.id}`} className="text-primary font-medium hover:underline">
+                        Review
+                      </Link>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border p-12 text-center">
+            <h3 className="text-xl font-semibold mb-2">Nothing to review</h3>
+            <p className="text-gray-600">Flagged stories and illustrations will appear here.</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
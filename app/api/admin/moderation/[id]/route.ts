@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin';
+import { createErrorResponse, ValidationError } from '@/lib/errors';
+import { ModerationReviewService, REVIEW_DECISIONS } from '@/services/moderationReview.service';
+import { bookPipeline } from '@/services/bookPipeline.service';
+
+export const maxDuration = 300; // Regenerating an image can take a while
+export const dynamic = 'force-dynamic';
+
+const decisionSchema = z.object({
+  decision: z.enum(REVIEW_DECISIONS),
+  notes: z.string().max(2000).optional(),
+});
+
+/**
+ * GET /api/admin/moderation/[id]
+ * Returns a review with the flagged story or image and its prompt
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdmin();
+
+    const detail = await new ModerationReviewService().getReviewDetail(params.id);
+
+    return NextResponse.json(detail);
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
+
+/**
+ * POST /api/admin/moderation/[id]
+ * Records approve / reject-regenerate / reject-refund and advances the book
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireAdmin();
+
+    const parsed = decisionSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid review decision', parsed.error.errors);
+    }
+
+    const result = await new ModerationReviewService().decide({
+      reviewId: params.id,
+      reviewerUserId: admin.id,
+      decision: parsed.data.decision,
+      notes: parsed.data.notes,
+    });
+
+    if (result.resumeProcessing) {
+      // Fire-and-forget; the cron job picks the book up if this fails
+      bookPipeline.run(result.bookOrderId).catch((error) => {
+        console.error('[admin-moderation] Background processing failed (will be picked up by cron):', error);
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
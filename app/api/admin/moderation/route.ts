@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin';
+import { createErrorResponse } from '@/lib/errors';
+import { ModerationReviewService } from '@/services/moderationReview.service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/admin/moderation
+ * Lists reviews waiting for a staff decision, oldest first
+ */
+export async function GET(req: NextRequest) {
+  try {
+    await requireAdmin();
+
+    const reviews = await new ModerationReviewService().listPendingReviews();
+
+    return NextResponse.json({ reviews });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin';
+import { createErrorResponse, ValidationError } from '@/lib/errors';
+import { refundService } from '@/services/refund.service';
+
+export const dynamic = 'force-dynamic';
+
+const refundSchema = z.object({
+  // Cents; leave out to refund everything not yet refunded
+  amountCents: z.number().int().positive().optional(),
+  reason: z.string().trim().min(1).max(500),
+});
+
+/**
+ * GET /api/admin/payments/[id]/refunds
+ * Lists a payment's refunds, oldest first
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    await requireAdmin();
+
+    const refunds = await refundService.listRefunds(params.id);
+
+    return NextResponse.json({ refunds });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
+
+/**
+ * POST /api/admin/payments/[id]/refunds
+ * Refunds all or part of a payment
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const admin = await requireAdmin();
+
+    const parsed = refundSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid refund request', parsed.error.errors);
+    }
+
+    const result = await refundService.refundPayment({
+      paymentId: params.id,
+      amountCents: parsed.data.amountCents,
+      reason: parsed.data.reason,
+      initiatedBy: 'admin',
+      adminUserId: admin.id,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
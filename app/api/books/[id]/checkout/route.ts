@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, ValidationError } from '@/lib/errors';
+import { paymentService } from '@/services/payment.service';
+import { bookPipeline } from '@/services/bookPipeline.service';
+
+export const dynamic = 'force-dynamic';
+
+const checkoutSchema = z.object({
+  productTier: z.string(),
+  currency: z.string().length(3),
+  promoCode: z.string().trim().max(50).optional(),
+});
+
+/**
+ * POST /api/books/[id]/checkout
+ * Starts a Stripe Checkout session for a draft book; the client redirects to the returned URL.
+ * The amount comes from the pricing catalogue for the chosen tier, currency and promo code
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = checkoutSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid checkout request', parsed.error.errors);
+    }
+
+    const result = await paymentService.createCheckoutSession({
+      bookOrderId: params.id,
+      userId: user.id,
+      customerEmail: user.email,
+      appUrl: process.env.NEXT_PUBLIC_APP_URL || req.nextUrl.origin,
+      ...parsed.data,
+    });
+
+    // A promo code covered the whole price, so there is no webhook to start the book
+    if (result.resumeProcessing) {
+      bookPipeline.run(params.id).catch(error => {
+        console.error('[checkout] Background processing failed (will be picked up by cron):', error);
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, NotFoundError, ValidationError } from '@/lib/errors';
+import { giftDetailsSchema } from '@/lib/gifts';
+import { giftDeliveryService } from '@/services/giftDelivery.service';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/books/[id]/gift
+ * The book's gift recipient, dedication and delivery status, or null
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const { data: book } = await supabase
+      .from('book_orders')
+      .select('id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!book) {
+      throw new NotFoundError('Book');
+    }
+
+    const gift = await giftDeliveryService.getGift(book.id);
+
+    return NextResponse.json({ gift });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
+
+/**
+ * PUT /api/books/[id]/gift
+ * Makes the book a gift, or changes the recipient, dedication or delivery
+ * date of one that hasn't been delivered
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = giftDetailsSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid gift request', parsed.error.errors);
+    }
+
+    const gift = await giftDeliveryService.saveGift(params.id, user.id, parsed.data);
+
+    return NextResponse.json({ gift });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
+
+/**
+ * DELETE /api/books/[id]/gift
+ * Turns gift mode off before the gift is delivered
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    await giftDeliveryService.removeGift(params.id, user.id);
+
+    return NextResponse.json({ gift: null });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
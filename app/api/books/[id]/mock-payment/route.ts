@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
-import { processBookOrder } from '@/app/api/cron/process-books/route';
+import { bookPipeline } from '@/services/bookPipeline.service';
+import { isMockPaymentEnabled } from '@/lib/stripe';
+import { ValidationError } from '@/lib/errors';
+import { DEFAULT_CURRENCY } from '@/lib/pricing';
+import { paymentService } from '@/services/payment.service';
+
+// Development only: marks a book paid without Stripe when ENABLE_MOCK_PAYMENTS=true
 
 export async function POST(
   req: NextRequest,
   { params }: { params: { id: string } }
 ) {
+  if (!isMockPaymentEnabled()) {
+    return NextResponse.json({ error: 'Not found' }, { status: 404 });
+  }
+
   try {
     console.log('[mock-payment] Starting payment processing for book:', params.id);
     const supabase = createClient();
@@ -45,56 +55,27 @@ export async function POST(
       });
     }
 
-    // Create mock payment record
+    // Payments are written with the service role; owners can't insert them
     console.log('[mock-payment] Creating payment record for book:', book.id);
-    const paymentData = {
-      book_order_id: book.id,
-      user_id: user.id,
-      amount_nzd: '19.99', // Decimal type requires string
-      currency: 'NZD',
-      stripe_payment_intent_id: `mock_pi_${Date.now()}`,
-      product_tier: 'pdf-only',
-      status: 'completed',
-      paid_at: new Date().toISOString(),
-    };
-    console.log('[mock-payment] Payment data:', paymentData);
-
-    const { data: payment, error: paymentError } = await supabase
-      .from('payments')
-      .insert(paymentData)
-      .select()
-      .single();
-
-    if (paymentError) {
-      console.error('[mock-payment] Payment insert error:', {
-        message: paymentError.message,
-        details: paymentError.details,
-        hint: paymentError.hint,
-        code: paymentError.code
-      });
-      throw paymentError;
-    }
-    console.log('[mock-payment] Payment created successfully:', payment.id);
-
-    // Mark book as ready for processing
-    const { error: statusError } = await supabase
-      .from('book_orders')
-      .update({
-        status: 'processing',
-        processing_started_at: new Date().toISOString()
-      })
-      .eq('id', book.id);
+    const body = await req.json().catch(() => ({}));
+    const { paymentId, resumeProcessing } = await paymentService.completeMockPayment({
+      bookOrderId: book.id,
+      userId: user.id,
+      productTier: body.productTier || 'digital-pdf',
+      currency: body.currency || DEFAULT_CURRENCY,
+      promoCode: body.promoCode,
+    });
+    console.log('[mock-payment] Payment created successfully:', paymentId);
 
-    if (statusError) {
-      console.error('[mock-payment] Failed to update book status:', statusError);
-    } else {
-      console.log('[mock-payment] Book marked for processing - triggering immediate processing');
+    if (!resumeProcessing) {
+      console.log('[mock-payment] Book had already left draft, not starting processing:', book.id);
+      return NextResponse.json({ success: true, redirectUrl: `/books/${book.id}/status`, paymentId, bookId: book.id });
     }
 
     // Trigger immediate processing in background (fire-and-forget)
     // This avoids HTTP roundtrip delay and starts processing immediately
     console.log('[mock-payment] Starting background processing for book:', book.id);
-    processBookOrder(book.id).catch(error => {
+    bookPipeline.run(book.id).catch(error => {
       console.error('[mock-payment] Background processing failed (will be picked up by cron):', error);
     });
 
@@ -102,10 +83,14 @@ export async function POST(
     return NextResponse.json({
       success: true,
       redirectUrl: `/books/${book.id}/status`,
-      paymentId: payment.id,
+      paymentId,
       bookId: book.id
     });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
     console.error('[mock-payment] ERROR:', error);
     console.error('[mock-payment] Error details:', {
       message: error instanceof Error ? error.message : 'Unknown error',
@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, NotFoundError, ValidationError } from '@/lib/errors';
+import { printFulfilmentService } from '@/services/printFulfilment.service';
+
+export const dynamic = 'force-dynamic';
+
+const printOrderSchema = z.object({
+  shippingAddress: z.object({
+    recipientName: z.string().trim().min(1).max(255),
+    recipientEmail: z.string().email().optional(),
+    recipientPhone: z.string().trim().max(50).optional(),
+    line1: z.string().trim().min(1).max(255),
+    line2: z.string().trim().max(255).optional(),
+    city: z.string().trim().min(1).max(100),
+    state: z.string().trim().max(100).optional(),
+    postcode: z.string().trim().min(1).max(20),
+    countryCode: z.string().regex(/^[A-Z]{2}$/, 'Use a two-letter country code'),
+  }),
+  shippingLevel: z.enum(['MAIL', 'PRIORITY_MAIL', 'GROUND', 'EXPEDITED', 'EXPRESS']).optional(),
+});
+
+/**
+ * GET /api/books/[id]/print-order
+ * The book's print order with its status and tracking, or null
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const { data: book } = await supabase
+      .from('book_orders')
+      .select('id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!book) {
+      throw new NotFoundError('Book');
+    }
+
+    const printOrder = await printFulfilmentService.getPrintOrder(book.id);
+
+    return NextResponse.json({ printOrder });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
+
+/**
+ * POST /api/books/[id]/print-order
+ * Orders the printed copy of a book paid for on a printed tier; it is sent to
+ * the printer once the book and its print files are ready
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = printOrderSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid print order request', parsed.error.errors);
+    }
+
+    const printOrder = await printFulfilmentService.createPrintOrder({
+      bookOrderId: params.id,
+      userId: user.id,
+      shippingAddress: parsed.data.shippingAddress,
+      shippingLevel: parsed.data.shippingLevel,
+    });
+
+    // Fire-and-forget; the cron job submits the order if this fails or the book isn't ready
+    printFulfilmentService.submit(printOrder.id).catch((error) => {
+      console.error('[print-order] Submission failed (will be retried by cron):', error);
+    });
+
+    return NextResponse.json({ printOrder }, { status: 201 });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
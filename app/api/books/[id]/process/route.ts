@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { isConfirmedPayment } from '@/services/refund.service';
 
 // Import the processing function to call it directly
 async function processBookOrder(bookOrderId: string) {
@@ -43,7 +44,7 @@ export async function POST(
     }
 
     // Check if payment is completed
-    const hasCompletedPayment = book.payments?.some((p: any) => p.status === 'completed');
+    const hasCompletedPayment = book.payments?.some((p: any) => isConfirmedPayment(p));
     if (!hasCompletedPayment) {
       console.log('[process] No completed payment found');
       return NextResponse.json({ error: 'Payment required' }, { status: 402 });
@@ -60,7 +61,10 @@ export async function POST(
       .from('book_orders')
       .update({
         status: 'processing',
-        processing_started_at: new Date().toISOString()
+        processing_started_at: new Date().toISOString(),
+        // A retried book gets a fresh set of stuck-book recoveries
+        recovery_attempts: 0,
+        next_recovery_at: null
       })
       .eq('id', book.id);
 
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, NotFoundError, ValidationError } from '@/lib/errors';
+import { PageRegenerationService } from '@/services/pageRegeneration.service';
+import { signStorageUrls } from '@/lib/storage';
+
+export const maxDuration = 300; // Image generation plus a PDF rebuild
+export const dynamic = 'force-dynamic';
+
+const regeneratePageSchema = z.object({
+  storyPageId: z.string().uuid(),
+  promptAdjustment: z.string().trim().max(500).optional(),
+});
+
+/**
+ * POST /api/books/[id]/regenerate-page
+ * Regenerates one page illustration of a completed book and rebuilds its PDF
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = regeneratePageSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid regeneration request', parsed.error.errors);
+    }
+
+    // Verify book belongs to user
+    const { data: book } = await supabase
+      .from('book_orders')
+      .select('id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!book) {
+      throw new NotFoundError('Book');
+    }
+
+    const result = await new PageRegenerationService().regeneratePage({
+      bookOrderId: book.id,
+      storyPageId: parsed.data.storyPageId,
+      promptAdjustment: parsed.data.promptAdjustment || undefined,
+    });
+
+    const signedUrls = await signStorageUrls(supabase, [result.image.image_url]);
+
+    return NextResponse.json({
+      imageUrl: signedUrls.get(result.image.image_url) || null,
+      pdfRebuilt: result.pdfRebuilt,
+      bookStatus: result.bookStatus,
+      regenerationsRemaining: result.regenerationsRemaining,
+    });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
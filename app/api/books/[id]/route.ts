@@ -1,5 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, NotFoundError, ValidationError } from '@/lib/errors';
+import { bookCancellationService } from '@/services/bookCancellation.service';
+
+const updateBookSchema = z.object({
+  // Cancelling is the only change owners can make to a book's status
+  status: z.literal('cancelled'),
+});
+
+/**
+ * PATCH /api/books/[id]
+ * Cancels a book that hasn't finished; a paid book's payment is marked for refund
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = updateBookSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid book update', parsed.error.errors);
+    }
+
+    // Verify book belongs to user
+    const { data: book } = await supabase
+      .from('book_orders')
+      .select('id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!book) {
+      throw new NotFoundError('Book');
+    }
+
+    const result = await bookCancellationService.cancel(book.id);
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
 
 /**
  * DELETE /api/books/[id]
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, ValidationError } from '@/lib/errors';
+import { bookSharingService, getShareUrl } from '@/services/bookSharing.service';
+
+export const dynamic = 'force-dynamic';
+
+const updateShareSchema = z.object({
+  // null removes the expiry or the view limit
+  expiresAt: z.string().datetime().nullable().optional(),
+  maxViews: z.number().int().positive().max(10000).nullable().optional(),
+}).refine((data) => data.expiresAt !== undefined || data.maxViews !== undefined, {
+  message: 'Nothing to update',
+});
+
+/**
+ * PATCH /api/books/[id]/shares/[shareId]
+ * Changes a share link's expiry or view limit
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string; shareId: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = updateShareSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid share link update', parsed.error.errors);
+    }
+
+    const share = await bookSharingService.updateShare({
+      shareId: params.shareId,
+      bookOrderId: params.id,
+      userId: user.id,
+      ...parsed.data,
+    });
+
+    return NextResponse.json({ share: { ...share, url: getShareUrl(share.token, req.nextUrl.origin) } });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
+
+/**
+ * DELETE /api/books/[id]/shares/[shareId]
+ * Revokes a share link; it stays in the list with its view count
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string; shareId: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const share = await bookSharingService.revokeShare(params.shareId, params.id, user.id);
+
+    return NextResponse.json({ share: { ...share, url: getShareUrl(share.token, req.nextUrl.origin) } });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, ValidationError } from '@/lib/errors';
+import { bookSharingService, getShareUrl } from '@/services/bookSharing.service';
+
+export const dynamic = 'force-dynamic';
+
+const createShareSchema = z.object({
+  // Who the link is for, e.g. "Grandma"
+  label: z.string().trim().max(100).optional(),
+  // Leave out for the default expiry; null never expires
+  expiresAt: z.string().datetime().nullable().optional(),
+  maxViews: z.number().int().positive().max(10000).nullable().optional(),
+});
+
+/**
+ * GET /api/books/[id]/shares
+ * The book's share links with their view counts, newest first
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const shares = await bookSharingService.listShares(params.id, user.id);
+
+    return NextResponse.json({
+      shares: shares.map((share) => ({ ...share, url: getShareUrl(share.token, req.nextUrl.origin) })),
+    });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
+
+/**
+ * POST /api/books/[id]/shares
+ * Creates a read-only link to a finished book
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = createShareSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid share link request', parsed.error.errors);
+    }
+
+    const share = await bookSharingService.createShare({
+      bookOrderId: params.id,
+      userId: user.id,
+      ...parsed.data,
+    });
+
+    return NextResponse.json(
+      { share: { ...share, url: getShareUrl(share.token, req.nextUrl.origin) } },
+      { status: 201 }
+    );
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
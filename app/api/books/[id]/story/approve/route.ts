@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, NotFoundError } from '@/lib/errors';
+import { StoryEditingService } from '@/services/storyEditing.service';
+import { bookPipeline } from '@/services/bookPipeline.service';
+
+export const maxDuration = 300; // Edited stories are moderated again before resuming
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/books/[id]/story/approve
+ * "Continue to illustrations": releases a book in story-review back into the pipeline
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    // Verify book belongs to user
+    const { data: book } = await supabase
+      .from('book_orders')
+      .select('id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!book) {
+      throw new NotFoundError('Book');
+    }
+
+    const result = await new StoryEditingService().approveStory(book.id);
+
+    if (result.resumeProcessing) {
+      // Fire-and-forget; the cron job picks the book up if this fails
+      bookPipeline.run(result.bookOrderId).catch((error) => {
+        console.error('[story-approve] Background processing failed (will be picked up by cron):', error);
+      });
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, NotFoundError, ValidationError } from '@/lib/errors';
+import { StoryEditingService } from '@/services/storyEditing.service';
+
+export const dynamic = 'force-dynamic';
+
+const updateStorySchema = z.object({
+  title: z.string().trim().min(1).max(255).optional(),
+  pages: z.array(z.object({
+    id: z.string().uuid(),
+    pageText: z.string().trim().min(1).max(2000),
+    imagePrompt: z.string().trim().min(1).max(2000),
+  })).min(1),
+});
+
+/**
+ * PUT /api/books/[id]/story
+ * Saves a parent's edits to the story while the book is in story-review
+ */
+export async function PUT(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = updateStorySchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid story edits', parsed.error.errors);
+    }
+
+    // Verify book belongs to user
+    const { data: book } = await supabase
+      .from('book_orders')
+      .select('id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single();
+
+    if (!book) {
+      throw new NotFoundError('Book');
+    }
+
+    const result = await new StoryEditingService().updateStory({
+      bookOrderId: book.id,
+      title: parsed.data.title,
+      pages: parsed.data.pages,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
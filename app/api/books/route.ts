@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { z } from 'zod';
+import { giftDetailsSchema } from '@/lib/gifts';
+import { giftDeliveryService } from '@/services/giftDelivery.service';
 
 const createBookSchema = z.object({
   templateId: z.string().optional(),
@@ -13,6 +15,7 @@ const createBookSchema = z.object({
   interests: z.array(z.string()).optional(),
   personalityTraits: z.array(z.string()).optional(),
   customStoryPrompt: z.string().optional(),
+  reviewStoryBeforeIllustration: z.boolean().optional(),
   illustrationStyle: z.enum([
     'watercolour',
     'digital-art',
@@ -25,6 +28,7 @@ const createBookSchema = z.object({
     'fantasy-realistic',
     'graphic-novel'
   ]),
+  gift: giftDetailsSchema.optional(),
 });
 
 export async function GET(req: NextRequest) {
@@ -94,6 +98,7 @@ export async function POST(req: NextRequest) {
       personality_traits: validatedData.personalityTraits,
       custom_story_prompt: validatedData.customStoryPrompt,
       illustration_style: validatedData.illustrationStyle,
+      review_story_before_illustration: validatedData.reviewStoryBeforeIllustration ?? false,
       status: 'draft',
     };
 
@@ -116,6 +121,11 @@ export async function POST(req: NextRequest) {
     }
 
     console.log('Book created successfully:', book.id);
+
+    if (validatedData.gift) {
+      await giftDeliveryService.saveGift(book.id, user.id, validatedData.gift);
+      console.log('Gift details saved for book:', book.id);
+    }
     return NextResponse.json({ book }, { status: 201 });
   } catch (error) {
     if (error instanceof z.ZodError) {
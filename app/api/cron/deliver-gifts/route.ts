@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { giftDeliveryService } from '@/services/giftDelivery.service';
+
+// Emails gift recipients their share link once the book is finished and the
+// buyer's chosen delivery time has passed
+// Runs automatically every 15 minutes via Vercel Cron (see vercel.json)
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await giftDeliveryService.deliverDueGifts();
+
+    return NextResponse.json({
+      message: 'Gift delivery completed',
+      ...result
+    });
+  } catch (error) {
+    console.error('[deliver-gifts] Cron job error:', error);
+    return NextResponse.json({
+      error: 'Gift delivery failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
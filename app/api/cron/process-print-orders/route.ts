@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { printFulfilmentService } from '@/services/printFulfilment.service';
+
+// Sends print orders to the printer once their book and print files are ready,
+// and polls the printer for production, shipping and delivery updates
+// Runs automatically every 15 minutes via Vercel Cron (see vercel.json)
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await printFulfilmentService.processPrintOrders();
+
+    return NextResponse.json({
+      message: 'Print order processing completed',
+      ...result
+    });
+  } catch (error) {
+    console.error('[process-print-orders] Cron job error:', error);
+    return NextResponse.json({
+      error: 'Print order processing failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
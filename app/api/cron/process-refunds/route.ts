@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { refundService } from '@/services/refund.service';
+
+// Refunds paid books that ended in failed or cancelled when the immediate
+// refund didn't go through, and settles refunds Stripe left pending
+// Runs automatically every 15 minutes via Vercel Cron (see vercel.json)
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await refundService.processPendingRefunds();
+
+    return NextResponse.json({
+      message: 'Refund processing completed',
+      ...result
+    });
+  } catch (error) {
+    console.error('[process-refunds] Cron job error:', error);
+    return NextResponse.json({
+      error: 'Refund processing failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { stuckBookSweeper } from '@/services/stuckBookSweeper.service';
+
+// Re-queues books that stopped progressing (e.g. a timed-out function) and
+// fails them once their recovery attempts run out
+// Runs automatically every 10 minutes via Vercel Cron (see vercel.json)
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(req: NextRequest) {
+  try {
+    const authHeader = req.headers.get('authorization');
+    if (process.env.CRON_SECRET && authHeader !== `Bearer ${process.env.CRON_SECRET}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const result = await stuckBookSweeper.sweep();
+
+    return NextResponse.json({
+      message: 'Stuck book sweep completed',
+      ...result
+    });
+  } catch (error) {
+    console.error('[sweep-stuck-books] Cron job error:', error);
+    return NextResponse.json({
+      error: 'Sweep failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
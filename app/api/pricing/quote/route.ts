@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, createErrorResponse, ValidationError } from '@/lib/errors';
+import { pricingService } from '@/services/pricing.service';
+
+export const dynamic = 'force-dynamic';
+
+const quoteSchema = z.object({
+  productTier: z.string(),
+  currency: z.string().length(3),
+  promoCode: z.string().trim().max(50).optional(),
+});
+
+/**
+ * POST /api/pricing/quote
+ * Prices a tier in a currency, applying a promo code if given, for the checkout page.
+ * Checkout re-quotes on the server, so this is only ever a preview
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const supabase = createClient();
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      throw new AuthenticationError();
+    }
+
+    const parsed = quoteSchema.safeParse(await req.json());
+    if (!parsed.success) {
+      throw new ValidationError('Invalid quote request', parsed.error.errors);
+    }
+
+    const quote = await pricingService.quote({ ...parsed.data, userId: user.id });
+
+    return NextResponse.json({ quote });
+  } catch (error) {
+    return createErrorResponse(error as Error, req.nextUrl.pathname);
+  }
+}
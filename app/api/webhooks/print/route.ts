@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPrintProvider } from '@/services/providers/print.provider';
+import { printFulfilmentService } from '@/services/printFulfilment.service';
+
+// Status updates from the print provider (Lulu's PRINT_JOB_STATUS_CHANGED)
+// The provider needs the raw body to verify the signature
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  const provider = getPrintProvider();
+
+  let update;
+  try {
+    update = provider.parseWebhook(await req.text(), req.headers);
+  } catch (error) {
+    console.error('[print-webhook] Unreadable payload:', error);
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  if (!update) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  try {
+    const applied = await printFulfilmentService.applyUpdate(provider.name, update);
+    console.log(`[print-webhook] ${provider.name} job ${update.externalOrderId}: ${update.status}`);
+
+    return NextResponse.json({ received: true, applied });
+  } catch (error) {
+    // A 500 makes the provider retry the delivery
+    console.error(`[print-webhook] Failed to apply update for ${update.externalOrderId}:`, error);
+    return NextResponse.json({
+      error: 'Webhook handling failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type Stripe from 'stripe';
+import { getStripe } from '@/lib/stripe';
+import { paymentService } from '@/services/payment.service';
+import { bookPipeline } from '@/services/bookPipeline.service';
+
+// Stripe needs the raw body to verify the signature
+// Replay the fixture locally with: npx tsx scripts/test-stripe-webhook.ts
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(req: NextRequest) {
+  const signature = req.headers.get('stripe-signature');
+
+  if (!signature || !process.env.STRIPE_WEBHOOK_SECRET) {
+    return NextResponse.json({ error: 'Missing Stripe signature' }, { status: 400 });
+  }
+
+  let event: Stripe.Event;
+  try {
+    event = getStripe().webhooks.constructEvent(await req.text(), signature, process.env.STRIPE_WEBHOOK_SECRET);
+  } catch (error) {
+    console.error('[stripe-webhook] Signature verification failed:', error);
+    return NextResponse.json({ error: 'Invalid Stripe signature' }, { status: 400 });
+  }
+
+  try {
+    const result = await paymentService.handleWebhookEvent(event);
+    console.log(`[stripe-webhook] Handled ${event.type} (${event.id})`);
+
+    if (result.resumeProcessing && result.bookOrderId) {
+      // Fire-and-forget; the cron job picks the book up if this fails
+      bookPipeline.run(result.bookOrderId).catch((error) => {
+        console.error('[stripe-webhook] Background processing failed (will be picked up by cron):', error);
+      });
+    }
+
+    return NextResponse.json({ received: true, ...result });
+  } catch (error) {
+    // A 500 makes Stripe retry the delivery
+    console.error(`[stripe-webhook] Failed to handle ${event.type} (${event.id}):`, error);
+    return NextResponse.json({
+      error: 'Webhook handling failed',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
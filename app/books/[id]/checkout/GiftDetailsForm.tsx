@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { GIFT_DEDICATION_MAX_LENGTH, getGiftDeliverAt } from '@/lib/gifts';
+import type { BookGift } from '@/types';
+
+interface GiftDetailsFormProps {
+  bookId: string;
+  initialGift: BookGift | null;
+}
+
+// YYYY-MM-DD in the buyer's time zone, for the date input
+function toDateInput(iso: string): string {
+  const date = new Date(iso);
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().split('T')[0];
+}
+
+/**
+ * Turns gift mode on or off before paying, and edits the recipient,
+ * dedication and delivery date
+ */
+export default function GiftDetailsForm({ bookId, initialGift }: GiftDetailsFormProps) {
+  const [gift, setGift] = useState<BookGift | null>(initialGift);
+  const [isGift, setIsGift] = useState(!!initialGift);
+  const [recipientName, setRecipientName] = useState(initialGift?.recipient_name || '');
+  const [recipientEmail, setRecipientEmail] = useState(initialGift?.recipient_email || '');
+  const [dedication, setDedication] = useState(initialGift?.dedication || '');
+  // An already-due delivery time shows as "as soon as it's ready"
+  const [deliverDate, setDeliverDate] = useState(
+    initialGift && new Date(initialGift.deliver_at).getTime() > Date.now() ? toDateInput(initialGift.deliver_at) : ''
+  );
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const request = async (method: string, body?: object): Promise<BookGift | null> => {
+    const response = await fetch(`/api/books/${bookId}/gift`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to save gift details');
+    }
+
+    return data.gift;
+  };
+
+  const handleToggle = async (checked: boolean) => {
+    setIsGift(checked);
+    setSaved(false);
+    setError(null);
+
+    // Nothing to remove until the details have been saved
+    if (checked || !gift) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      setGift(await request('DELETE'));
+    } catch (err) {
+      setIsGift(true);
+      setError(err instanceof Error ? err.message : 'Failed to remove gift details');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setSaved(false);
+    setError(null);
+
+    try {
+      setGift(await request('PUT', {
+        recipientName,
+        recipientEmail,
+        dedication: dedication || undefined,
+        deliverAt: getGiftDeliverAt(deliverDate),
+      }));
+      setSaved(true);
+    } catch (err) {
+      console.error('Gift details error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save gift details');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full border rounded-lg px-3 py-2 text-sm';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={isGift}
+          onChange={(e) => handleToggle(e.target.checked)}
+          disabled={saving}
+          className="mt-1 h-4 w-4"
+        />
+        <div>
+          <p className="font-semibold">This book is a gift</p>
+          <p className="text-sm text-gray-600 mt-1">
+            We&apos;ll email the recipient a link to read the finished book on the day you choose.
+          </p>
+        </div>
+      </label>
+
+      {error && (
+        <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      {isGift && (
+        <form onSubmit={handleSave} className="mt-4 space-y-3">
+          <input
+            className={inputClass}
+            placeholder="Recipient's name"
+            value={recipientName}
+            onChange={(e) => setRecipientName(e.target.value)}
+            maxLength={100}
+            required
+            disabled={saving}
+          />
+          <input
+            className={inputClass}
+            type="email"
+            placeholder="Recipient's email"
+            value={recipientEmail}
+            onChange={(e) => setRecipientEmail(e.target.value)}
+            maxLength={255}
+            required
+            disabled={saving}
+          />
+          <textarea
+            className={inputClass}
+            rows={3}
+            placeholder="Dedication (optional)"
+            value={dedication}
+            onChange={(e) => setDedication(e.target.value)}
+            maxLength={GIFT_DEDICATION_MAX_LENGTH}
+            disabled={saving}
+          />
+          <div>
+            <label className="block text-sm text-gray-600 mb-1" htmlFor="gift-deliver-date">
+              Delivery date (leave empty to send as soon as it&apos;s ready)
+            </label>
+            <input
+              id="gift-deliver-date"
+              className={inputClass}
+              type="date"
+              min={today}
+              value={deliverDate}
+              onChange={(e) => setDeliverDate(e.target.value)}
+              disabled={saving}
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="w-full border border-primary text-primary px-6 py-2 rounded-lg hover:bg-gray-50 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : saved ? 'Gift Details Saved' : 'Save Gift Details'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
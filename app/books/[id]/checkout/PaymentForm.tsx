@@ -1,24 +1,155 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
+import {
+  PRODUCT_TIER_DETAILS,
+  SALES_TAX,
+  SUPPORTED_CURRENCIES,
+  formatPrice,
+  getIncludedTaxCents,
+} from '@/lib/pricing';
+import type { TierPrice } from '@/services/pricing.service';
+import type { Currency, PriceQuote, ProductTier } from '@/types';
 
-export default function PaymentForm({ bookId }: { bookId: string }) {
+interface PaymentFormProps {
+  bookId: string;
+  prices: TierPrice[];
+  defaultCurrency: Currency;
+  // ENABLE_MOCK_PAYMENTS: offer a way to skip Stripe in development
+  mockPaymentsEnabled?: boolean;
+}
+
+export default function PaymentForm({ bookId, prices, defaultCurrency, mockPaymentsEnabled = false }: PaymentFormProps) {
+  const [currency, setCurrency] = useState<Currency>(defaultCurrency);
+  const [productTier, setProductTier] = useState<ProductTier>('digital-pdf');
+  const [promoInput, setPromoInput] = useState('');
+  const [promoCode, setPromoCode] = useState<string | null>(null);
+  // Server quote for the applied promo code; without one the price list is enough
+  const [promoQuote, setPromoQuote] = useState<PriceQuote | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
 
+  const currencyPrices = prices.filter((price) => price.currency === currency);
+  const tierPrice = currencyPrices.find((price) => price.productTier === productTier);
+
+  const fetchQuote = async (code: string) => {
+    const response = await fetch('/api/pricing/quote', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ productTier, currency, promoCode: code }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Could not apply promo code');
+    }
+
+    return data.quote as PriceQuote;
+  };
+
+  // A code valid for one tier or currency may not be for another, so re-check it
+  useEffect(() => {
+    if (!promoCode) {
+      return;
+    }
+
+    let cancelled = false;
+    setIsApplying(true);
+
+    fetchQuote(promoCode)
+      .then((quote) => {
+        if (!cancelled) {
+          setPromoQuote(quote);
+          setPromoError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setPromoCode(null);
+          setPromoQuote(null);
+          setPromoError(err instanceof Error ? err.message : 'Could not apply promo code');
+        }
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setIsApplying(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [promoCode, productTier, currency]);
+
+  const handleApplyPromo = () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code) {
+      return;
+    }
+    setPromoError(null);
+    setPromoCode(code);
+  };
+
+  const handleRemovePromo = () => {
+    setPromoCode(null);
+    setPromoQuote(null);
+    setPromoInput('');
+  };
+
+  const subtotalCents = tierPrice?.amountCents || 0;
+  const discountCents = promoQuote?.discountCents || 0;
+  const totalCents = promoQuote ? promoQuote.totalCents : subtotalCents;
+  const taxCents = promoQuote ? promoQuote.taxCents : getIncludedTaxCents(totalCents, currency);
+  const tax = SALES_TAX[currency];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsProcessing(true);
     setError(null);
 
+    try {
+      const response = await fetch(`/api/books/${bookId}/checkout`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ productTier, currency, promoCode: promoCode || undefined }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Could not start checkout');
+      }
+
+      // Stripe Checkout sends the customer back to the status page once paid
+      window.location.href = data.url;
+    } catch (err) {
+      console.error('Checkout error:', err);
+      setError(err instanceof Error ? err.message : 'Could not start checkout');
+      setIsProcessing(false);
+    }
+  };
+
+  const handleMockPayment = async () => {
+    setIsProcessing(true);
+    setError(null);
+
     try {
       const response = await fetch(`/api/books/${bookId}/mock-payment`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
+        body: JSON.stringify({ productTier, currency, promoCode: promoCode || undefined }),
       });
 
       const data = await response.json();
@@ -27,12 +158,7 @@ export default function PaymentForm({ bookId }: { bookId: string }) {
         throw new Error(data.error || 'Payment processing failed');
       }
 
-      // Redirect to the status page
-      if (data.redirectUrl) {
-        router.push(data.redirectUrl);
-      } else {
-        router.push(`/books/${bookId}/status`);
-      }
+      router.push(data.redirectUrl || `/books/${bookId}/status`);
     } catch (err) {
       console.error('Payment error:', err);
       setError(err instanceof Error ? err.message : 'Payment processing failed');
@@ -48,13 +174,125 @@ export default function PaymentForm({ bookId }: { bookId: string }) {
         </div>
       )}
 
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold">Format</h3>
+        <select
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value as Currency)}
+          disabled={isProcessing}
+          className="text-sm border rounded-lg px-2 py-1"
+          aria-label="Currency"
+        >
+          {SUPPORTED_CURRENCIES.map((code) => (
+            <option key={code} value={code}>{code}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2 mb-6">
+        {currencyPrices.map((price) => (
+          <label
+            key={price.productTier}
+            className={`flex items-start justify-between gap-3 border rounded-lg p-3 cursor-pointer transition ${
+              price.productTier === productTier ? 'border-primary bg-primary/5' : 'hover:bg-gray-50'
+            }`}
+          >
+            <div className="flex items-start gap-2">
+              <input
+                type="radio"
+                name="productTier"
+                value={price.productTier}
+                checked={price.productTier === productTier}
+                onChange={() => setProductTier(price.productTier)}
+                disabled={isProcessing}
+                className="mt-1"
+              />
+              <div>
+                <p className="font-medium">{PRODUCT_TIER_DETAILS[price.productTier].name}</p>
+                <p className="text-xs text-gray-600">{PRODUCT_TIER_DETAILS[price.productTier].description}</p>
+              </div>
+            </div>
+            <span className="font-semibold whitespace-nowrap">{formatPrice(price.amountCents, currency)}</span>
+          </label>
+        ))}
+      </div>
+
+      <div className="mb-6">
+        <h3 className="font-semibold mb-2">Promo Code</h3>
+        {promoCode ? (
+          <div className="flex justify-between items-center text-sm bg-green-50 border border-green-200 rounded-lg px-3 py-2">
+            <span className="text-green-800">
+              {isApplying ? `Checking ${promoCode}...` : `${promoCode} applied`}
+              {promoQuote?.promoCode?.description && !isApplying && ` (${promoQuote.promoCode.description})`}
+            </span>
+            <button type="button" onClick={handleRemovePromo} disabled={isProcessing} className="text-green-900 hover:underline">
+              Remove
+            </button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={promoInput}
+              onChange={(e) => setPromoInput(e.target.value)}
+              placeholder="Enter code"
+              disabled={isProcessing}
+              className="flex-1 border rounded-lg px-3 py-2 text-sm uppercase"
+            />
+            <button
+              type="button"
+              onClick={handleApplyPromo}
+              disabled={isProcessing || !promoInput.trim()}
+              className="px-4 py-2 rounded-lg border text-gray-700 hover:bg-gray-50 transition font-medium text-sm disabled:opacity-50"
+            >
+              Apply
+            </button>
+          </div>
+        )}
+        {promoError && <p className="text-sm text-red-700 mt-2">{promoError}</p>}
+      </div>
+
+      <div className="border-t pt-4 mb-6 space-y-1 text-sm">
+        {discountCents > 0 && (
+          <>
+            <div className="flex justify-between text-gray-600">
+              <span>Subtotal</span>
+              <span>{formatPrice(subtotalCents, currency)}</span>
+            </div>
+            <div className="flex justify-between text-green-700">
+              <span>Discount ({promoCode})</span>
+              <span>-{formatPrice(discountCents, currency)}</span>
+            </div>
+          </>
+        )}
+        <div className="flex justify-between items-center pt-1">
+          <span className="font-semibold text-base">Total</span>
+          <span className="text-2xl font-bold text-primary">{formatPrice(totalCents, currency)}</span>
+        </div>
+        {tax && (
+          <p className="text-xs text-gray-500">Includes {formatPrice(taxCents, currency)} {tax.label}</p>
+        )}
+        <p className="text-xs text-gray-500">One-time payment, no subscription</p>
+      </div>
+
       <button
         type="submit"
-        disabled={isProcessing}
+        disabled={isProcessing || isApplying || !tierPrice}
         className="w-full bg-primary text-white px-6 py-3 rounded-lg hover:opacity-90 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
       >
-        {isProcessing ? 'Processing...' : 'Continue to Processing (Test Mode)'}
+        {isProcessing ? 'Processing...' : totalCents === 0 ? 'Place Free Order' : 'Pay Securely with Stripe'}
       </button>
+
+      {mockPaymentsEnabled && (
+        <button
+          type="button"
+          onClick={handleMockPayment}
+          disabled={isProcessing || isApplying}
+          className="w-full mt-3 border border-gray-300 text-gray-700 px-6 py-3 rounded-lg hover:bg-gray-50 transition font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Skip Payment (Test Mode)
+        </button>
+      )}
     </form>
   );
 }
@@ -1,9 +1,21 @@
 import { redirect } from 'next/navigation';
+import { headers } from 'next/headers';
 import { createClient } from '@/lib/supabase/server';
 import Link from 'next/link';
 import PaymentForm from './PaymentForm';
-
-export default async function CheckoutPage({ params }: { params: { id: string } }) {
+import GiftDetailsForm from './GiftDetailsForm';
+import { resolveStoryPageCount } from '@/lib/bookPages';
+import { isMockPaymentEnabled } from '@/lib/stripe';
+import { getCurrencyForCountry } from '@/lib/pricing';
+import { pricingService } from '@/services/pricing.service';
+
+export default async function CheckoutPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { checkout?: string };
+}) {
   const supabase = createClient();
 
   const { data: { user } } = await supabase.auth.getUser();
@@ -17,7 +29,8 @@ export default async function CheckoutPage({ params }: { params: { id: string }
     .from('book_orders')
     .select(`
       *,
-      template:story_templates(*)
+      template:story_templates(*),
+      gift:book_gifts(*)
     `)
     .eq('id', params.id)
     .eq('user_id', user.id)
@@ -39,7 +52,15 @@ export default async function CheckoutPage({ params }: { params: { id: string }
     redirect(`/books/${book.id}/status`);
   }
 
-  const PRICE = 19.99; // Fixed price for now
+  const gift = Array.isArray(book.gift) ? book.gift[0] || null : book.gift || null;
+
+  const storyPageCount = resolveStoryPageCount({ templatePageCount: book.template?.page_count });
+
+  const mockPaymentsEnabled = isMockPaymentEnabled();
+
+  const prices = await pricingService.listPrices();
+  // Vercel sets the visitor's country; elsewhere we fall back to NZD
+  const defaultCurrency = getCurrencyForCountry(headers().get('x-vercel-ip-country'));
 
   return (
     <main className="min-h-screen bg-gray-50">
@@ -74,7 +95,7 @@ export default async function CheckoutPage({ params }: { params: { id: string }
               <div className="bg-white rounded-lg shadow-sm border p-6">
                 <h2 className="text-2xl font-bold mb-6">Order Summary</h2>
 
-                <div className="space-y-4 mb-6">
+                <div className="space-y-4">
                   <div>
                     <h3 className="font-semibold mb-2">Story</h3>
                     {book.template ? (
@@ -103,7 +124,7 @@ export default async function CheckoutPage({ params }: { params: { id: string }
                     <ul className="space-y-2 text-sm text-gray-600">
                       <li className="flex items-start">
                         <span className="mr-2">✓</span>
-                        <span>8-page personalized illustrated story</span>
+                        <span>{storyPageCount}-page personalized illustrated story</span>
                       </li>
                       <li className="flex items-start">
                         <span className="mr-2">✓</span>
@@ -120,30 +141,45 @@ export default async function CheckoutPage({ params }: { params: { id: string }
                     </ul>
                   </div>
                 </div>
+              </div>
 
-                <div className="border-t pt-4 mb-6">
-                  <div className="flex justify-between items-center mb-2">
-                    <span className="font-semibold">Total</span>
-                    <span className="text-2xl font-bold text-primary">${PRICE.toFixed(2)}</span>
-                  </div>
-                  <p className="text-xs text-gray-500">One-time payment, no subscription</p>
-                </div>
+              <div className="mt-6">
+                <GiftDetailsForm bookId={book.id} initialGift={gift} />
               </div>
             </div>
 
-            {/* Payment Section - Placeholder */}
+            {/* Payment Section */}
             <div>
               <div className="bg-white rounded-lg shadow-sm border p-6">
                 <h2 className="text-2xl font-bold mb-6">Payment Details</h2>
 
-                <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
-                  <h4 className="font-semibold text-blue-900 mb-2">Development Mode</h4>
-                  <p className="text-sm text-blue-800">
-                    Payment integration will be added soon. For testing, you can skip to processing.
-                  </p>
-                </div>
-
-                <PaymentForm bookId={book.id} />
+                {searchParams.checkout === 'cancelled' && (
+                  <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+                    <p className="text-sm text-yellow-800">
+                      Checkout was cancelled and you haven&apos;t been charged. You can try again whenever you&apos;re ready.
+                    </p>
+                  </div>
+                )}
+
+                <p className="text-sm text-gray-600 mb-6">
+                  You&apos;ll be taken to Stripe to pay by card. We start creating your book as soon as the payment is confirmed.
+                </p>
+
+                {mockPaymentsEnabled && (
+                  <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
+                    <h4 className="font-semibold text-blue-900 mb-2">Development Mode</h4>
+                    <p className="text-sm text-blue-800">
+                      Mock payments are enabled (ENABLE_MOCK_PAYMENTS), so you can skip Stripe for testing.
+                    </p>
+                  </div>
+                )}
+
+                <PaymentForm
+                  bookId={book.id}
+                  prices={prices}
+                  defaultCurrency={defaultCurrency}
+                  mockPaymentsEnabled={mockPaymentsEnabled}
+                />
 
                 <div className="mt-6 space-y-3 text-sm text-gray-600">
                   <div className="flex items-center gap-2">
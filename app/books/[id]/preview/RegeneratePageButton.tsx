@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface RegeneratePageButtonProps {
+  bookId: string;
+  storyPageId: string;
+  pageNumber: number;
+  disabled?: boolean;
+}
+
+export function RegeneratePageButton({ bookId, storyPageId, pageNumber, disabled }: RegeneratePageButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [promptAdjustment, setPromptAdjustment] = useState('');
+  const [regenerating, setRegenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const handleRegenerate = async () => {
+    setRegenerating(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/books/${bookId}/regenerate-page`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          storyPageId,
+          promptAdjustment: promptAdjustment.trim() || undefined,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to regenerate page');
+      }
+
+      // A flagged illustration sends the book back through review
+      if (data.bookStatus === 'content-review') {
+        router.push(`/books/${bookId}/status`);
+        return;
+      }
+
+      setOpen(false);
+      setPromptAdjustment('');
+      router.refresh();
+    } catch (err) {
+      console.error('Page regeneration error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to regenerate page');
+    } finally {
+      setRegenerating(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        disabled={disabled}
+        className="w-full text-sm border border-primary text-primary px-3 py-2 rounded-lg hover:bg-primary hover:text-white transition font-medium disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-primary"
+      >
+        Regenerate page {pageNumber}
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 px-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <h3 className="font-semibold text-lg mb-2">Regenerate page {pageNumber}</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              We'll draw a new illustration for this page and update your PDF. This uses one of your page regenerations.
+            </p>
+
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            <label htmlFor={`prompt-adjustment-${storyPageId}`} className="block text-sm font-medium text-gray-700 mb-2">
+              What should change? (optional)
+            </label>
+            <textarea
+              id={`prompt-adjustment-${storyPageId}`}
+              value={promptAdjustment}
+              onChange={(e) => setPromptAdjustment(e.target.value)}
+              rows={3}
+              maxLength={500}
+              disabled={regenerating}
+              className="w-full border rounded-lg px-3 py-2 mb-4 text-sm"
+              placeholder="e.g. Make it a sunny day and show the dog next to her"
+            />
+
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setOpen(false)}
+                disabled={regenerating}
+                className="px-4 py-2 rounded-lg border text-gray-700 hover:bg-gray-50 transition font-medium disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleRegenerate}
+                disabled={regenerating}
+                className="bg-primary text-white px-4 py-2 rounded-lg hover:opacity-90 transition font-medium disabled:opacity-50"
+              >
+                {regenerating ? 'Regenerating...' : 'Regenerate'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -1,6 +1,13 @@
 import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import Link from 'next/link';
+import { DEFAULT_STORY_PAGE_COUNT } from '@/lib/bookPages';
+import { pageRegenerationService } from '@/services/pageRegeneration.service';
+import { RegeneratePageButton } from './RegeneratePageButton';
+import { PrintOrderPanel } from '@/app/components/PrintOrderPanel';
+import { ShareLinksPanel } from '@/app/components/ShareLinksPanel';
+import { PRINTED_PRODUCT_TIERS } from '@/services/printFulfilment.service';
+import { signStorageUrls } from '@/lib/storage';
 
 export default async function BookPreviewPage({ params }: { params: { id: string } }) {
   const supabase = createClient();
@@ -17,8 +24,11 @@ export default async function BookPreviewPage({ params }: { params: { id: string
     .select(`
       *,
       template:story_templates(*),
-      generated_story:generated_stories(*),
-      generated_pdf:generated_pdfs(*)
+      generated_story:generated_stories(*, story_pages(id, page_number, page_text)),
+      generated_pdf:generated_pdfs(*),
+      payments(product_tier, status),
+      print_order:print_orders(*),
+      gift:book_gifts(*)
     `)
     .eq('id', params.id)
     .eq('user_id', user.id)
@@ -34,6 +44,30 @@ export default async function BookPreviewPage({ params }: { params: { id: string
   }
 
   const pdfUrl = book.generated_pdf.pdf_url;
+  // Books finished before EPUB export have none until their PDF is rebuilt
+  const epubUrl = book.generated_pdf.epub_url;
+  const paidTier = book.payments?.find((p: any) => p.status === 'completed')?.product_tier;
+  // One-to-one, so PostgREST embeds the print order as an object
+  const printOrder = Array.isArray(book.print_order) ? book.print_order[0] || null : book.print_order || null;
+  const gift = Array.isArray(book.gift) ? book.gift[0] || null : book.gift || null;
+
+  // Page illustrations, for regenerating a single page
+  const { data: pageImages } = await supabase
+    .from('generated_images')
+    .select('id, story_page_id, image_url')
+    .eq('book_order_id', book.id)
+    .not('story_page_id', 'is', null);
+  const signedImageUrls = await signStorageUrls(supabase, (pageImages || []).map((image) => image.image_url));
+
+  const storyPages = [...(book.generated_story?.story_pages || [])]
+    .sort((a: any, b: any) => a.page_number - b.page_number)
+    .map((page: any) => ({
+      ...page,
+      image: pageImages?.find((image) => image.story_page_id === page.id),
+    }))
+    .filter((page: any) => page.image);
+
+  const regenerationsRemaining = await pageRegenerationService.getRegenerationsRemaining(book.id);
 
   return (
     <main className="min-h-screen bg-gray-50">
@@ -87,6 +121,18 @@ export default async function BookPreviewPage({ params }: { params: { id: string
                 </svg>
                 Download PDF
               </a>
+              {epubUrl && (
+                <a
+                  href={epubUrl}
+                  download
+                  className="border-2 border-primary text-primary px-6 py-3 rounded-lg hover:bg-primary hover:text-white transition font-semibold flex items-center gap-2"
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 18h.01M8 21h8a2 2 0 002-2V5a2 2 0 00-2-2H8a2 2 0 00-2 2v14a2 2 0 002 2z" />
+                  </svg>
+                  Download EPUB
+                </a>
+              )}
             </div>
           </div>
 
@@ -105,6 +151,34 @@ export default async function BookPreviewPage({ params }: { params: { id: string
             </div>
           </div>
 
+          {/* Printed copy: shipping address, then status and tracking */}
+          {PRINTED_PRODUCT_TIERS.includes(paidTier) && (
+            <div className="mb-8">
+              <PrintOrderPanel bookId={book.id} printOrder={printOrder} />
+            </div>
+          )}
+
+          {/* Gift delivery */}
+          {gift && (
+            <div className="mb-8 bg-white rounded-lg shadow-sm border p-6">
+              <h3 className="font-semibold text-lg mb-1">Gift for {gift.recipient_name}</h3>
+              <p className="text-sm text-gray-600">
+                {gift.status === 'sent' && gift.sent_at
+                  ? `Emailed to ${gift.recipient_email} on ${new Date(gift.sent_at).toLocaleDateString()}.`
+                  : gift.status === 'scheduled'
+                    ? new Date(gift.deliver_at).getTime() > Date.now()
+                      ? `Will be emailed to ${gift.recipient_email} on ${new Date(gift.deliver_at).toLocaleDateString()}.`
+                      : `Being emailed to ${gift.recipient_email} now.`
+                    : `We couldn't email ${gift.recipient_email}. Please contact support.`}
+              </p>
+            </div>
+          )}
+
+          {/* Read-only links for family */}
+          <div className="mb-8">
+            <ShareLinksPanel bookId={book.id} />
+          </div>
+
           {/* PDF Preview */}
           <div className="bg-white rounded-lg shadow-lg border overflow-hidden">
             <div className="bg-gray-100 border-b px-6 py-4">
@@ -127,6 +201,38 @@ export default async function BookPreviewPage({ params }: { params: { id: string
             </div>
           </div>
 
+          {/* Page Illustrations */}
+          {storyPages.length > 0 && (
+            <div className="mt-8 bg-white rounded-lg shadow-sm border p-6">
+              <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-4">
+                <h3 className="font-semibold text-lg">Page Illustrations</h3>
+                <p className="text-sm text-gray-600">
+                  {regenerationsRemaining > 0
+                    ? `Not happy with a page? You can regenerate ${regenerationsRemaining} more ${regenerationsRemaining === 1 ? 'page' : 'pages'}.`
+                    : 'You have used all your page regenerations for this book.'}
+                </p>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {storyPages.map((page: any) => (
+                  <div key={page.id} className="space-y-2">
+                    <img
+                      src={signedImageUrls.get(page.image.image_url)}
+                      alt={`Page ${page.page_number}`}
+                      className="w-full aspect-square object-cover rounded-lg border"
+                    />
+                    <p className="text-xs text-gray-600 line-clamp-2">{page.page_text}</p>
+                    <RegeneratePageButton
+                      bookId={book.id}
+                      storyPageId={page.id}
+                      pageNumber={page.page_number}
+                      disabled={regenerationsRemaining === 0}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Book Details */}
           <div className="mt-8 grid md:grid-cols-2 gap-6">
             <div className="bg-white rounded-lg shadow-sm border p-6">
@@ -134,7 +240,7 @@ export default async function BookPreviewPage({ params }: { params: { id: string
               <div className="space-y-3 text-sm">
                 <div className="flex justify-between">
                   <span className="text-gray-600">Story Pages:</span>
-                  <span className="font-medium">{book.generated_story?.page_count || 6}</span>
+                  <span className="font-medium">{book.generated_story?.story_pages?.length || DEFAULT_STORY_PAGE_COUNT}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Style:</span>
@@ -168,7 +274,7 @@ export default async function BookPreviewPage({ params }: { params: { id: string
                   </svg>
                   <div>
                     <p className="font-medium text-gray-900">Read Online</p>
-                    <p className="text-gray-600">Enjoy an interactive, slideshow-style reading experience perfect for tablets and computers.</p>
+                    <p className="text-gray-600">Enjoy an interactive, slideshow-style reading experience perfect for tablets and computers, or download the EPUB for your e-reader.</p>
                   </div>
                 </div>
                 <div className="flex items-start gap-3">
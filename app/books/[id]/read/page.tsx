@@ -1,6 +1,8 @@
 import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import { DigitalBookViewer } from '@/app/components/DigitalBookViewer';
+import { buildViewerPages } from '@/lib/bookPages';
+import { signViewerPages } from '@/lib/storage';
 
 export default async function DigitalReadPage({ params }: { params: { id: string } }) {
   const supabase = createClient();
@@ -17,7 +19,8 @@ export default async function DigitalReadPage({ params }: { params: { id: string
     .select(`
       *,
       template:story_templates(*),
-      generated_story:generated_stories(*)
+      generated_story:generated_stories(*),
+      gift:book_gifts(dedication)
     `)
     .eq('id', params.id)
     .eq('user_id', user.id)
@@ -51,56 +54,12 @@ export default async function DigitalReadPage({ params }: { params: { id: string
     .eq('book_order_id', book.id)
     .order('page_number', { ascending: true });
 
-  // Build pages array for viewer
   // Format: [front cover, text page 1, image page 1, text page 2, image page 2, ..., back cover]
-  const pages: any[] = [];
-
-  // Front cover (page_number = 0)
-  const frontCover = generatedImages?.find(img => img.page_number === 0);
-  if (frontCover) {
-    pages.push({
-      pageNumber: 0,
-      pageText: null,
-      imageUrl: frontCover.image_url,
-      type: 'cover',
-    });
-  }
-
-  // Story pages - alternating text and image
-  const sortedStoryPages = storyPages || [];
-  sortedStoryPages.sort((a: any, b: any) => a.page_number - b.page_number);
-
-  for (const storyPage of sortedStoryPages) {
-    // Text page
-    pages.push({
-      pageNumber: storyPage.page_number,
-      pageText: storyPage.page_text,
-      imageUrl: null,
-      type: 'text',
-    });
-
-    // Image page
-    const image = generatedImages?.find(img => img.page_number === storyPage.page_number);
-    if (image) {
-      pages.push({
-        pageNumber: storyPage.page_number,
-        pageText: null,
-        imageUrl: image.image_url,
-        type: 'image',
-      });
-    }
-  }
-
-  // Back cover (page_number = 16)
-  const backCover = generatedImages?.find(img => img.page_number === 16);
-  if (backCover) {
-    pages.push({
-      pageNumber: 16,
-      pageText: null,
-      imageUrl: backCover.image_url,
-      type: 'cover',
-    });
-  }
+  const gift = Array.isArray(book.gift) ? book.gift[0] : book.gift;
+  const pages = await signViewerPages(
+    supabase,
+    buildViewerPages(storyPages || [], generatedImages || [], book.child_age, gift?.dedication)
+  );
 
   return (
     <main className="min-h-screen">
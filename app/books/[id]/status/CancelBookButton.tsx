@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface CancelBookButtonProps {
+  bookId: string;
+  isPaid: boolean;
+}
+
+export function CancelBookButton({ bookId, isPaid }: CancelBookButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const handleCancel = async () => {
+    setCancelling(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/books/${bookId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'cancelled' }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to cancel book');
+      }
+
+      setOpen(false);
+      router.refresh();
+    } catch (err) {
+      console.error('Book cancellation error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel book');
+    } finally {
+      setCancelling(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => setOpen(true)}
+        className="text-sm border border-red-300 text-red-700 px-4 py-2 rounded-lg hover:bg-red-50 transition font-medium"
+      >
+        Cancel this book
+      </button>
+
+      {open && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 px-4">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full p-6">
+            <h3 className="font-semibold text-lg mb-2">Cancel this book?</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              We'll stop creating the book and delete any illustrations made so far. This can't be undone.
+              {isPaid && ' Your payment will be refunded.'}
+            </p>
+
+            {error && (
+              <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm text-red-800">{error}</p>
+              </div>
+            )}
+
+            <div className="flex gap-3 justify-end">
+              <button
+                onClick={() => setOpen(false)}
+                disabled={cancelling}
+                className="px-4 py-2 rounded-lg border text-gray-700 hover:bg-gray-50 transition font-medium disabled:opacity-50"
+              >
+                Keep going
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={cancelling}
+                className="bg-red-600 text-white px-4 py-2 rounded-lg hover:bg-red-700 transition font-medium disabled:opacity-50"
+              >
+                {cancelling ? 'Cancelling...' : 'Cancel book'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
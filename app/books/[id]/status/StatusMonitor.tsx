@@ -4,10 +4,15 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
 import Image from 'next/image';
+import Link from 'next/link';
+import { useBookProgress } from './useBookProgress';
+import { FRONT_COVER_PAGE_NUMBER } from '@/lib/bookPages';
+import { signStorageUrls } from '@/lib/storage';
 
 interface StatusMonitorProps {
   bookId: string;
   initialStatus: string;
+  totalImages: number;
 }
 
 interface GeneratedImage {
@@ -24,11 +29,31 @@ const STATUS_STEPS = [
   { key: 'completed', label: 'Complete', order: 5 },
 ];
 
-export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
+// Progress bar position from the status alone, until the first progress event arrives
+const STATUS_PERCENT: Record<string, number> = {
+  'processing': 2,
+  'generating-story': 5,
+  'generating-images': 40,
+  'creating-pdf': 75,
+  'completed': 100,
+};
+
+function formatTimeRemaining(seconds: number): string {
+  if (seconds < 60) {
+    return 'Less than a minute remaining';
+  }
+  const minutes = Math.ceil(seconds / 60);
+  return `About ${minutes} minute${minutes === 1 ? '' : 's'} remaining`;
+}
+
+export function StatusMonitor({ bookId, initialStatus, totalImages }: StatusMonitorProps) {
   const router = useRouter();
   const [status, setStatus] = useState(initialStatus);
   const [error, setError] = useState<string | null>(null);
   const [generatedImages, setGeneratedImages] = useState<GeneratedImage[]>([]);
+  // Signed URLs keyed by the stored image_url, since the illustration bucket is private
+  const [signedImageUrls, setSignedImageUrls] = useState<Record<string, string>>({});
+  const progress = useBookProgress(bookId);
 
   useEffect(() => {
     const supabase = createClient();
@@ -69,7 +94,7 @@ export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
               router.push(`/books/${bookId}/preview`);
             }, 2000);
           } else if (newStatus === 'failed') {
-            setError('Book generation failed. Please contact support.');
+            setError('Book generation failed. If you paid for it, we are refunding your payment automatically. Please contact support if you have any questions.');
           }
         }
       )
@@ -117,7 +142,9 @@ export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
           }, 2000);
           clearInterval(pollInterval);
         } else if (book.status === 'failed') {
-          setError('Book generation failed. Please contact support.');
+          setError('Book generation failed. If you paid for it, we are refunding your payment automatically. Please contact support if you have any questions.');
+          clearInterval(pollInterval);
+        } else if (book.status === 'cancelled') {
           clearInterval(pollInterval);
         }
       }
@@ -141,8 +168,33 @@ export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
     };
   }, [bookId, router]);
 
-  const currentStep = STATUS_STEPS.find((step) => step.key === status);
+  // Signs each illustration once, as it turns up
+  useEffect(() => {
+    const unsigned = generatedImages
+      .map((image) => image.image_url)
+      .filter((url) => !signedImageUrls[url]);
+    if (unsigned.length === 0) {
+      return;
+    }
+
+    signStorageUrls(createClient(), unsigned).then((signed) => {
+      if (signed.size > 0) {
+        setSignedImageUrls((prev) => ({ ...prev, ...Object.fromEntries(signed) }));
+      }
+    });
+  }, [generatedImages, signedImageUrls]);
+
+  // A book held for review has its story but no illustrations yet
+  const isOnHold = status === 'content-review' || status === 'story-review';
+  const currentStep = STATUS_STEPS.find((step) => step.key === (isOnHold ? 'generating-images' : status));
   const currentOrder = currentStep?.order || 1;
+  const percent = status === 'completed' ? 100 : Math.max(progress.percent, STATUS_PERCENT[status] || 0);
+
+  // The pipeline draws the front cover, then the pages in order, then the back cover
+  const drawnPages = new Set(generatedImages.map((image) => image.page_number));
+  const missingPages = Array.from({ length: totalImages }, (_, pageNumber) => pageNumber)
+    .filter((pageNumber) => !drawnPages.has(pageNumber));
+  const drawingPage = status === 'generating-images' ? missingPages[0] : undefined;
 
   if (error) {
     return (
@@ -160,8 +212,46 @@ export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
     );
   }
 
+  if (status === 'cancelled') {
+    return (
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-6">
+        <div className="flex items-start gap-3">
+          <svg className="w-6 h-6 text-gray-500 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+          </svg>
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-1">Book cancelled</h3>
+            <p className="text-sm text-gray-700">We&apos;ve stopped creating this book. If you paid for it, your refund is on its way.</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="bg-white rounded-lg shadow-sm border p-8">
+      <div className="mb-8">
+        <div className="flex items-center justify-between text-sm mb-2">
+          <span className="font-medium text-gray-900">{progress.message || 'Getting started...'}</span>
+          <span className="text-gray-600">{percent}%</span>
+        </div>
+        <div className="w-full h-3 bg-gray-200 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-primary rounded-full transition-all duration-500"
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+        {progress.etaSeconds !== null && status !== 'completed' && (
+          <p className="text-sm text-gray-600 mt-2">{formatTimeRemaining(progress.etaSeconds)}</p>
+        )}
+      </div>
+
+      {progress.notice && (
+        <div className="mb-6 bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-sm text-yellow-800">
+          {progress.notice}
+        </div>
+      )}
+
       <div className="space-y-6">
         {STATUS_STEPS.map((step) => {
           const isCompleted = step.order < currentOrder;
@@ -209,6 +299,40 @@ export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
         })}
       </div>
 
+      {status === 'content-review' && (
+        <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-center gap-3">
+            <svg className="w-6 h-6 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+            <div>
+              <p className="font-semibold text-yellow-900">Your story is being reviewed</p>
+              <p className="text-sm text-yellow-800">Our team checks some stories by hand before illustrating them. We&apos;ll carry on as soon as it&apos;s approved.</p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {status === 'story-review' && (
+        <div className="mt-6 bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+          <div className="flex items-center gap-3">
+            <svg className="w-6 h-6 text-yellow-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+            <div className="flex-1">
+              <p className="font-semibold text-yellow-900">Your story is ready to review</p>
+              <p className="text-sm text-yellow-800">Check the text and make any changes before we start the illustrations.</p>
+            </div>
+            <Link
+              href={`/books/${bookId}/story`}
+              className="bg-yellow-500 text-white px-4 py-2 rounded-lg hover:bg-yellow-600 transition text-sm font-medium"
+            >
+              Review Story
+            </Link>
+          </div>
+        </div>
+      )}
+
       {status === 'completed' && (
         <div className="mt-6 bg-green-50 border border-green-200 rounded-lg p-4">
           <div className="flex items-center gap-3">
@@ -228,9 +352,9 @@ export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
         <div className="mt-6">
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-lg font-semibold text-gray-900">
-              Illustrations ({generatedImages.length} of 8)
+              Illustrations ({generatedImages.length} of {totalImages})
             </h3>
-            {generatedImages.length < 8 && (
+            {generatedImages.length < totalImages && (
               <div className="flex items-center gap-2 text-sm text-gray-600">
                 <div className="w-2 h-2 bg-primary rounded-full animate-pulse" />
                 <span>Generating...</span>
@@ -238,14 +362,14 @@ export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
             )}
           </div>
           <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-5 gap-3">
-            {generatedImages.map((image, index) => (
+            {generatedImages.filter((image) => signedImageUrls[image.image_url]).map((image, index) => (
               <div
                 key={image.id}
                 className="relative aspect-square rounded-lg overflow-hidden border-2 border-gray-200 bg-gray-100 animate-fadeIn"
                 style={{ animationDelay: `${index * 100}ms` }}
               >
                 <Image
-                  src={image.image_url}
+                  src={signedImageUrls[image.image_url]}
                   alt={`Page ${image.page_number}`}
                   fill
                   className="object-cover"
@@ -259,19 +383,41 @@ export function StatusMonitor({ bookId, initialStatus }: StatusMonitorProps) {
               </div>
             ))}
             {/* Placeholder for remaining images */}
-            {Array.from({ length: 8 - generatedImages.length }).map((_, i) => (
-              <div
-                key={`placeholder-${i}`}
-                className="relative aspect-square rounded-lg border-2 border-dashed border-gray-300 bg-gray-50 flex items-center justify-center"
-              >
-                <div className="text-center">
-                  <svg className="w-8 h-8 mx-auto text-gray-400 mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
-                  </svg>
-                  <span className="text-xs text-gray-400">{generatedImages.length + i + 1}</span>
+            {missingPages.map((pageNumber) => {
+              const isRetrying = progress.retryingPages.includes(pageNumber);
+              const isDrawing = pageNumber === drawingPage;
+              const label = pageNumber === FRONT_COVER_PAGE_NUMBER
+                ? 'Cover'
+                : pageNumber === totalImages - 1 ? 'Back' : `${pageNumber}`;
+
+              return (
+                <div
+                  key={`placeholder-${pageNumber}`}
+                  className={`relative aspect-square rounded-lg border-2 border-dashed flex items-center justify-center ${
+                    isRetrying
+                      ? 'border-yellow-400 bg-yellow-50'
+                      : isDrawing
+                      ? 'border-primary bg-primary/5'
+                      : 'border-gray-300 bg-gray-50'
+                  }`}
+                >
+                  <div className="text-center">
+                    {isDrawing || isRetrying ? (
+                      <div className={`w-6 h-6 mx-auto mb-1 border-2 border-t-transparent rounded-full animate-spin ${
+                        isRetrying ? 'border-yellow-500' : 'border-primary'
+                      }`} />
+                    ) : (
+                      <svg className="w-8 h-8 mx-auto text-gray-400 mb-1" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+                      </svg>
+                    )}
+                    <span className={`text-xs ${isRetrying ? 'text-yellow-700' : isDrawing ? 'text-primary' : 'text-gray-400'}`}>
+                      {isRetrying ? `${label} · Redrawing` : isDrawing ? `${label} · Drawing` : label}
+                    </span>
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
@@ -2,8 +2,19 @@ import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import Link from 'next/link';
 import { StatusMonitor } from './StatusMonitor';
+import { CancelBookButton } from './CancelBookButton';
+import { PrintOrderPanel } from '@/app/components/PrintOrderPanel';
+import { CANCELLABLE_STATUSES } from '@/services/bookCancellation.service';
+import { PRINTED_PRODUCT_TIERS } from '@/services/printFulfilment.service';
+import { getTotalImageCount, resolveStoryPageCount } from '@/lib/bookPages';
 
-export default async function BookStatusPage({ params }: { params: { id: string } }) {
+export default async function BookStatusPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { checkout?: string };
+}) {
   const supabase = createClient();
 
   const { data: { user } } = await supabase.auth.getUser();
@@ -18,8 +29,10 @@ export default async function BookStatusPage({ params }: { params: { id: string
     .select(`
       *,
       template:story_templates(*),
-      generated_story:generated_stories(*),
-      generated_pdf:generated_pdfs(*)
+      generated_story:generated_stories(*, story_pages(id)),
+      generated_pdf:generated_pdfs(*),
+      payments(product_tier, status),
+      print_order:print_orders(*)
     `)
     .eq('id', params.id)
     .eq('user_id', user.id)
@@ -34,6 +47,21 @@ export default async function BookStatusPage({ params }: { params: { id: string
     redirect(`/books/${book.id}/preview`);
   }
 
+  // The parent asked to check the story before illustrations
+  if (book.status === 'story-review') {
+    redirect(`/books/${book.id}/story`);
+  }
+
+  const paidTier = book.payments?.find((p: any) => p.status === 'completed')?.product_tier;
+  // One-to-one, so PostgREST embeds the print order as an object
+  const printOrder = Array.isArray(book.print_order) ? book.print_order[0] || null : book.print_order || null;
+
+  // Once the story exists its length is fixed; before that, predict it the same way the pipeline will
+  const storyPageCount = book.generated_story?.story_pages?.length || resolveStoryPageCount({
+    templatePageCount: book.template?.page_count,
+    productTier: paidTier,
+  });
+
   return (
     <main className="min-h-screen bg-gray-50">
       {/* Header */}
@@ -64,7 +92,30 @@ export default async function BookStatusPage({ params }: { params: { id: string
             We're generating {book.child_first_name}'s personalized storybook. This usually takes 5-10 minutes.
           </p>
 
-          <StatusMonitor bookId={book.id} initialStatus={book.status} />
+          {/* Back from Stripe before the webhook has confirmed the payment */}
+          {book.status === 'draft' && searchParams.checkout === 'success' && (
+            <div className="mb-6 bg-blue-50 border border-blue-200 rounded-lg p-4 text-sm text-blue-800">
+              Thanks! We&apos;re confirming your payment with Stripe. This usually takes a few seconds.
+            </div>
+          )}
+
+          <StatusMonitor bookId={book.id} initialStatus={book.status} totalImages={getTotalImageCount(storyPageCount)} />
+
+          {CANCELLABLE_STATUSES.includes(book.status) && (
+            <div className="mt-4 flex justify-end">
+              <CancelBookButton
+                bookId={book.id}
+                isPaid={book.payments?.some((p: any) => p.status === 'completed') || false}
+              />
+            </div>
+          )}
+
+          {/* Printed tiers collect the shipping address while the book is made */}
+          {PRINTED_PRODUCT_TIERS.includes(paidTier) && (
+            <div className="mt-8">
+              <PrintOrderPanel bookId={book.id} printOrder={printOrder} />
+            </div>
+          )}
 
           <div className="mt-8 bg-white rounded-lg shadow-sm border p-6">
             <h2 className="font-semibold text-lg mb-4">What's Happening?</h2>
@@ -75,7 +126,7 @@ export default async function BookStatusPage({ params }: { params: { id: string
                 </div>
                 <div>
                   <p className="font-medium text-gray-900">Story Generation</p>
-                  <p>Our AI is creating a unique 8-page story featuring {book.child_first_name}, incorporating their interests and personality traits.</p>
+                  <p>Our AI is creating a unique {storyPageCount}-page story featuring {book.child_first_name}, incorporating their interests and personality traits.</p>
                 </div>
               </div>
               <div className="flex items-start gap-3">
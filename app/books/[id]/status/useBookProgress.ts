@@ -0,0 +1,116 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import type { BookProgressEvent } from '@/types';
+
+// Enough history to rebuild the bar and any pages being redrawn
+const EVENT_LIMIT = 50;
+
+// Events after which nothing is running, so there is nothing to count down
+const IDLE_EVENT_TYPES = ['paused', 'completed', 'failed', 'cancelled'];
+
+export interface BookProgress {
+  // 0-100 from the latest event that moved the bar
+  percent: number;
+  message: string | null;
+  // Counts down from the latest estimate; null while paused or before the first estimate
+  etaSeconds: number | null;
+  // Pages whose latest event is a moderation retry
+  retryingPages: number[];
+  // Set while the most recent event is a retry notice
+  notice: string | null;
+}
+
+/**
+ * Follows book_progress_events for a book over Supabase realtime, with polling as a fallback
+ */
+export function useBookProgress(bookId: string): BookProgress {
+  const [events, setEvents] = useState<BookProgressEvent[]>([]);
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const supabase = createClient();
+
+    const mergeEvents = (incoming: BookProgressEvent[]) => {
+      setEvents((prev) => {
+        const known = new Set(prev.map((event) => event.id));
+        const added = incoming.filter((event) => !known.has(event.id));
+        if (added.length === 0) {
+          return prev;
+        }
+        return [...prev, ...added]
+          .sort((a, b) => a.created_at.localeCompare(b.created_at))
+          .slice(-EVENT_LIMIT);
+      });
+    };
+
+    const fetchEvents = async () => {
+      const { data } = await supabase
+        .from('book_progress_events')
+        .select('*')
+        .eq('book_order_id', bookId)
+        .order('created_at', { ascending: false })
+        .limit(EVENT_LIMIT);
+
+      if (data) {
+        mergeEvents(data as BookProgressEvent[]);
+      }
+    };
+
+    fetchEvents();
+
+    const progressChannel = supabase
+      .channel(`progress-${bookId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'book_progress_events',
+          filter: `book_order_id=eq.${bookId}`,
+        },
+        (payload) => {
+          mergeEvents([payload.new as BookProgressEvent]);
+        }
+      )
+      .subscribe();
+
+    // Fallback: Poll every 5 seconds if realtime doesn't work
+    const pollInterval = setInterval(fetchEvents, 5000);
+    const clockInterval = setInterval(() => setNow(Date.now()), 1000);
+
+    return () => {
+      progressChannel.unsubscribe();
+      clearInterval(pollInterval);
+      clearInterval(clockInterval);
+    };
+  }, [bookId]);
+
+  const latest = events[events.length - 1] || null;
+  const latestWithPercent = [...events].reverse().find((event) => event.percent !== null);
+  const latestWithEta = [...events].reverse().find((event) => event.eta_seconds !== null);
+
+  let etaSeconds: number | null = null;
+  if (latest && latestWithEta && !IDLE_EVENT_TYPES.includes(latest.event_type)) {
+    const elapsedSeconds = (now - new Date(latestWithEta.created_at).getTime()) / 1000;
+    etaSeconds = Math.max(0, Math.round(latestWithEta.eta_seconds! - elapsedSeconds));
+  }
+
+  const latestByPage = new Map<number, BookProgressEvent>();
+  for (const event of events) {
+    if (event.page_number !== null) {
+      latestByPage.set(event.page_number, event);
+    }
+  }
+
+  return {
+    percent: latestWithPercent?.percent || 0,
+    message: latest?.message || null,
+    etaSeconds,
+    retryingPages: Array.from(latestByPage.values())
+      .filter((event) => event.event_type === 'retry')
+      .map((event) => event.page_number!),
+    notice: latest?.event_type === 'retry' ? latest.message : null,
+  };
+}
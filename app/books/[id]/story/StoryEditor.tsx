@@ -0,0 +1,220 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+
+interface EditablePage {
+  id: string;
+  pageNumber: number;
+  pageText: string;
+  imagePrompt: string;
+}
+
+interface StoryEditorProps {
+  bookId: string;
+  initialTitle: string;
+  initialPages: EditablePage[];
+  // True once the parent has saved changes over the AI text
+  edited: boolean;
+}
+
+export function StoryEditor({ bookId, initialTitle, initialPages, edited }: StoryEditorProps) {
+  const [title, setTitle] = useState(initialTitle);
+  const [pages, setPages] = useState(initialPages);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [continuing, setContinuing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [savedMessage, setSavedMessage] = useState<string | null>(edited ? 'Your changes are saved' : null);
+  const router = useRouter();
+
+  const page = pages[pageIndex];
+
+  const updatePage = (changes: Partial<EditablePage>) => {
+    setPages((prev) => prev.map((p, i) => (i === pageIndex ? { ...p, ...changes } : p)));
+    setDirty(true);
+    setSavedMessage(null);
+  };
+
+  const saveChanges = async () => {
+    const response = await fetch(`/api/books/${bookId}/story`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        title,
+        pages: pages.map(({ id, pageText, imagePrompt }) => ({ id, pageText, imagePrompt })),
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to save story');
+    }
+
+    setDirty(false);
+    setSavedMessage('Your changes are saved');
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+
+    try {
+      await saveChanges();
+    } catch (err) {
+      console.error('Story save error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save story');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleContinue = async () => {
+    setContinuing(true);
+    setError(null);
+
+    try {
+      if (dirty) {
+        await saveChanges();
+      }
+
+      const response = await fetch(`/api/books/${bookId}/story/approve`, {
+        method: 'POST',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to continue');
+      }
+
+      router.push(`/books/${bookId}/status`);
+    } catch (err) {
+      console.error('Story approve error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to continue');
+      setContinuing(false);
+    }
+  };
+
+  const busy = saving || continuing;
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <label htmlFor="story-title" className="block text-sm font-medium text-gray-700 mb-2">
+        Title
+      </label>
+      <input
+        id="story-title"
+        type="text"
+        value={title}
+        onChange={(e) => {
+          setTitle(e.target.value);
+          setDirty(true);
+          setSavedMessage(null);
+        }}
+        maxLength={255}
+        disabled={busy}
+        className="w-full border rounded-lg px-3 py-2 mb-6"
+      />
+
+      {/* Page navigation */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {pages.map((p, i) => (
+          <button
+            key={p.id}
+            onClick={() => setPageIndex(i)}
+            className={`w-10 h-10 rounded-lg border text-sm font-medium transition ${
+              i === pageIndex ? 'bg-primary text-white border-primary' : 'hover:bg-gray-50'
+            }`}
+          >
+            {p.pageNumber}
+          </button>
+        ))}
+      </div>
+
+      {page && (
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="page-text" className="block text-sm font-medium text-gray-700 mb-2">
+              Page {page.pageNumber} text
+            </label>
+            <textarea
+              id="page-text"
+              value={page.pageText}
+              onChange={(e) => updatePage({ pageText: e.target.value })}
+              rows={5}
+              maxLength={2000}
+              disabled={busy}
+              className="w-full border rounded-lg px-3 py-2"
+            />
+          </div>
+          <div>
+            <label htmlFor="image-prompt" className="block text-sm font-medium text-gray-700 mb-2">
+              Illustration description
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+              What we&apos;ll draw for this page. Update it if you change who or what appears in the text.
+            </p>
+            <textarea
+              id="image-prompt"
+              value={page.imagePrompt}
+              onChange={(e) => updatePage({ imagePrompt: e.target.value })}
+              rows={3}
+              maxLength={2000}
+              disabled={busy}
+              className="w-full border rounded-lg px-3 py-2 text-sm"
+            />
+          </div>
+          <div className="flex justify-between">
+            <button
+              onClick={() => setPageIndex(pageIndex - 1)}
+              disabled={pageIndex === 0}
+              className="px-4 py-2 border rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              Previous page
+            </button>
+            <button
+              onClick={() => setPageIndex(pageIndex + 1)}
+              disabled={pageIndex === pages.length - 1}
+              className="px-4 py-2 border rounded-lg hover:bg-gray-50 transition disabled:opacity-50"
+            >
+              Next page
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row justify-between items-center gap-4 mt-8 pt-6 border-t">
+        <p className="text-sm text-gray-600">
+          {dirty ? 'You have unsaved changes' : savedMessage || 'No changes yet'}
+        </p>
+        <div className="flex gap-3">
+          <button
+            onClick={handleSave}
+            disabled={busy || !dirty}
+            className="px-6 py-2 border-2 border-primary text-primary rounded-lg hover:bg-primary hover:text-white transition font-semibold disabled:opacity-50 disabled:hover:bg-transparent disabled:hover:text-primary"
+          >
+            {saving ? 'Saving...' : 'Save changes'}
+          </button>
+          <button
+            onClick={handleContinue}
+            disabled={busy}
+            className="bg-primary text-white px-6 py-2 rounded-lg hover:opacity-90 transition font-semibold disabled:opacity-50"
+          >
+            {continuing ? 'Continuing...' : 'Continue to illustrations'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+import { redirect } from 'next/navigation';
+import { createClient } from '@/lib/supabase/server';
+import Link from 'next/link';
+import { StoryEditor } from './StoryEditor';
+
+export default async function StoryReviewPage({ params }: { params: { id: string } }) {
+  const supabase = createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    redirect('/login');
+  }
+
+  // Fetch book order with its story
+  const { data: book, error } = await supabase
+    .from('book_orders')
+    .select(`
+      id,
+      status,
+      child_first_name,
+      generated_story:generated_stories(id, title, full_story_json, story_pages(*))
+    `)
+    .eq('id', params.id)
+    .eq('user_id', user.id)
+    .single();
+
+  if (error || !book) {
+    redirect('/dashboard');
+  }
+
+  // The story can only be edited while illustration is on hold
+  const story: any = Array.isArray(book.generated_story) ? book.generated_story[0] : book.generated_story;
+  if (book.status !== 'story-review' || !story) {
+    redirect(`/books/${book.id}/status`);
+  }
+
+  const pages = [...(story.story_pages || [])]
+    .sort((a: any, b: any) => a.page_number - b.page_number)
+    .map((page: any) => ({
+      id: page.id,
+      pageNumber: page.page_number,
+      pageText: page.page_text,
+      imagePrompt: page.image_prompt,
+    }));
+
+  return (
+    <main className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <Link href="/" className="text-2xl font-bold text-primary">
+            Storybooks
+          </Link>
+          <nav className="flex gap-4 items-center">
+            <Link href="/dashboard" className="text-gray-600 hover:text-gray-900">
+              Dashboard
+            </Link>
+          </nav>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-3xl mx-auto">
+          <div className="mb-8">
+            <Link href="/dashboard" className="text-primary hover:underline">
+              ← Back to Dashboard
+            </Link>
+          </div>
+
+          <h1 className="text-4xl font-bold mb-2">Review {book.child_first_name}&apos;s Story</h1>
+          <p className="text-gray-600 mb-8">
+            Fix a word, a name or a detail before we start the illustrations. When you&apos;re happy, continue and we&apos;ll draw every page.
+          </p>
+
+          <StoryEditor
+            bookId={book.id}
+            initialTitle={story.title}
+            initialPages={pages}
+            edited={Boolean(story.full_story_json?.version)}
+          />
+        </div>
+      </div>
+    </main>
+  );
+}
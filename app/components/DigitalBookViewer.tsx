@@ -1,19 +1,17 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import Image from 'next/image';
+import { findWordIndexAt, getWordTimingsDurationMs, WordTiming } from '@/lib/narration';
+import type { ViewerPage } from '@/lib/bookPages';
 
-interface BookPage {
-  pageNumber: number;
-  pageText: string | null;
-  imageUrl: string | null;
-  type: 'text' | 'image' | 'cover';
-}
+// Pages without narration turn after this long in auto-play
+const PAGE_TURN_MS = 5000;
 
 interface DigitalBookViewerProps {
   title: string;
   childName: string;
-  pages: BookPage[];
+  pages: ViewerPage[];
 }
 
 export function DigitalBookViewer({ title, childName, pages }: DigitalBookViewerProps) {
@@ -21,12 +19,26 @@ export function DigitalBookViewer({ title, childName, pages }: DigitalBookViewer
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [autoPlay, setAutoPlay] = useState(false);
+  // Read-along: highlight the word being read and let the child tap words to hear them
+  const [readAlong, setReadAlong] = useState(true);
+  // Word being read aloud on the current page
+  const [activeWord, setActiveWord] = useState(-1);
+  // Word the child tapped, while it's being spoken
+  const [tappedWord, setTappedWord] = useState(-1);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const wordAudioRef = useRef<HTMLAudioElement | null>(null);
+  const wordTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const hasNarration = pages.some((p) => p.narration);
+  const hasWordTimings = pages.some((p) => p.wordTimings?.length);
 
-  // Auto-play functionality
+  // Auto-play: narrated pages are read aloud and turn when the narration ends;
+  // pages with only estimated timings are followed at reading speed; other
+  // pages turn on a timer. Words are highlighted as they're read
   useEffect(() => {
     if (!autoPlay) return;
 
-    const timer = setInterval(() => {
+    const advance = () => {
       setCurrentPage((prev) => {
         if (prev >= pages.length - 1) {
           setAutoPlay(false);
@@ -34,10 +46,69 @@ export function DigitalBookViewer({ title, childName, pages }: DigitalBookViewer
         }
         return prev + 1;
       });
-    }, 5000); // 5 seconds per page
+    };
+
+    const narration = pages[currentPage]?.narration;
+    const wordTimings = pages[currentPage]?.wordTimings || [];
+    const audio = audioRef.current;
+
+    let cancelled = false;
+    let frame = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
 
-    return () => clearInterval(timer);
-  }, [autoPlay, pages.length]);
+    // Highlights words against a clock: the audio position, or time since the page opened
+    const track = (getTimeMs: () => number) => {
+      const tick = () => {
+        setActiveWord(findWordIndexAt(wordTimings, getTimeMs()));
+        frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+    };
+
+    const readSilently = (durationMs: number) => {
+      const openedAt = performance.now();
+      track(() => performance.now() - openedAt);
+      timer = setTimeout(advance, durationMs);
+    };
+
+    if (narration && audio) {
+      audio.src = narration.audioUrl;
+      audio.onended = advance;
+      audio.play()
+        .then(() => {
+          if (!cancelled) track(() => audio.currentTime * 1000);
+        })
+        .catch(() => {
+          // Playback blocked or the audio is missing: follow the timings without sound
+          if (!cancelled) readSilently(narration.durationMs || getWordTimingsDurationMs(wordTimings) || PAGE_TURN_MS);
+        });
+    } else if (wordTimings.length > 0) {
+      readSilently(getWordTimingsDurationMs(wordTimings));
+    } else {
+      timer = setTimeout(advance, PAGE_TURN_MS);
+    }
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frame);
+      clearTimeout(timer);
+      if (audio) {
+        audio.onended = null;
+        audio.pause();
+      }
+      setActiveWord(-1);
+    };
+  }, [autoPlay, currentPage, pages]);
+
+  // A tapped word stops being spoken when the page changes
+  useEffect(() => {
+    return () => {
+      clearTimeout(wordTimerRef.current);
+      wordAudioRef.current?.pause();
+      if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+      setTappedWord(-1);
+    };
+  }, [currentPage]);
 
   // Keyboard navigation
   useEffect(() => {
@@ -108,8 +179,46 @@ export function DigitalBookViewer({ title, childName, pages }: DigitalBookViewer
 
   const page = pages[currentPage];
 
+  // Tap-to-hear: plays the word's slice of the page narration, or has the
+  // browser say it when the page isn't narrated
+  const hearWord = (index: number) => {
+    const word = page.wordTimings?.[index];
+    if (!word) return;
+
+    setAutoPlay(false);
+    clearTimeout(wordTimerRef.current);
+    if ('speechSynthesis' in window) window.speechSynthesis.cancel();
+    setTappedWord(index);
+
+    const audio = wordAudioRef.current;
+    if (page.narration && audio) {
+      if (audio.src !== page.narration.audioUrl) {
+        audio.src = page.narration.audioUrl;
+      }
+      audio.currentTime = word.startMs / 1000;
+      audio.play()
+        .then(() => {
+          wordTimerRef.current = setTimeout(() => {
+            audio.pause();
+            setTappedWord(-1);
+          }, word.endMs - word.startMs);
+        })
+        .catch(() => setTappedWord(-1));
+    } else if ('speechSynthesis' in window) {
+      const utterance = new SpeechSynthesisUtterance(word.text.replace(/[^\w'’-]/g, ''));
+      utterance.rate = 0.8;
+      utterance.onend = () => setTappedWord(-1);
+      window.speechSynthesis.speak(utterance);
+    } else {
+      setTappedWord(-1);
+    }
+  };
+
   return (
     <div className="relative w-full h-screen bg-gray-900">
+      <audio ref={audioRef} preload="none" className="hidden" />
+      <audio ref={wordAudioRef} preload="none" className="hidden" />
+
       {/* Main Viewer */}
       <div
         className="relative w-full h-full flex items-center justify-center"
@@ -141,7 +250,16 @@ export function DigitalBookViewer({ title, childName, pages }: DigitalBookViewer
             <div className="relative w-full h-full bg-white flex items-center justify-center p-16">
               <div className="max-w-2xl text-center">
                 <p className="text-2xl md:text-3xl font-serif leading-relaxed text-gray-800">
-                  {page.pageText}
+                  {readAlong && page.pageText && page.wordTimings?.length ? (
+                    <HighlightedText
+                      text={page.pageText}
+                      wordTimings={page.wordTimings}
+                      activeIndex={tappedWord >= 0 ? tappedWord : activeWord}
+                      onWordTap={hearWord}
+                    />
+                  ) : (
+                    page.pageText
+                  )}
                 </p>
                 {page.pageNumber > 0 && (
                   <p className="mt-8 text-sm text-gray-400">{page.pageNumber}</p>
@@ -196,12 +314,26 @@ export function DigitalBookViewer({ title, childName, pages }: DigitalBookViewer
               <p className="text-sm text-gray-300">Starring {childName}</p>
             </div>
             <div className="flex gap-2">
+              {hasWordTimings && (
+                <button
+                  onClick={() => setReadAlong(!readAlong)}
+                  className={`p-2 rounded-lg transition ${
+                    readAlong ? 'bg-primary text-white' : 'bg-white/90 text-gray-800'
+                  }`}
+                  title={readAlong ? 'Turn off read-along' : 'Read along'}
+                  aria-pressed={readAlong}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" />
+                  </svg>
+                </button>
+              )}
               <button
                 onClick={() => setAutoPlay(!autoPlay)}
                 className={`p-2 rounded-lg transition ${
                   autoPlay ? 'bg-primary text-white' : 'bg-white/90 text-gray-800'
                 }`}
-                title={autoPlay ? 'Stop auto-play' : 'Auto-play'}
+                title={hasNarration ? (autoPlay ? 'Stop reading' : 'Read to me') : (autoPlay ? 'Stop auto-play' : 'Auto-play')}
               >
                 {autoPlay ? (
                   <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -279,8 +411,58 @@ export function DigitalBookViewer({ title, childName, pages }: DigitalBookViewer
           <p className="text-xs text-gray-600">
             Tap anywhere to hide controls • Space or → to advance
           </p>
+          {readAlong && hasWordTimings && (
+            <p className="text-xs text-gray-600 mt-1">Tap any word to hear it</p>
+          )}
         </div>
       )}
     </div>
   );
 }
+
+/**
+ * Page text with the word being read aloud highlighted; the text between words
+ * is kept as written. Each word can be tapped to hear it
+ */
+function HighlightedText({
+  text,
+  wordTimings,
+  activeIndex,
+  onWordTap,
+}: {
+  text: string;
+  wordTimings: WordTiming[];
+  activeIndex: number;
+  onWordTap: (index: number) => void;
+}) {
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+
+  wordTimings.forEach((word, index) => {
+    if (word.charStart > cursor) {
+      parts.push(text.slice(cursor, word.charStart));
+    }
+    parts.push(
+      <span
+        key={index}
+        role="button"
+        tabIndex={0}
+        onClick={(e) => {
+          // Don't toggle the controls
+          e.stopPropagation();
+          onWordTap(index);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') onWordTap(index);
+        }}
+        className={`rounded cursor-pointer transition-colors ${index === activeIndex ? 'bg-yellow-200' : 'hover:bg-yellow-50'}`}
+      >
+        {text.slice(word.charStart, word.charEnd)}
+      </span>
+    );
+    cursor = word.charEnd;
+  });
+  parts.push(text.slice(cursor));
+
+  return <>{parts}</>;
+}
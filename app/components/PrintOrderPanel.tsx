@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { PrintOrderStatus, ShippingAddress } from '@/types';
+
+interface PrintOrder {
+  status: PrintOrderStatus;
+  product_type: string;
+  recipient_name: string;
+  shipping_city: string;
+  shipping_country_code: string | null;
+  tracking_number: string | null;
+  tracking_url: string | null;
+  carrier: string | null;
+  estimated_delivery: string | null;
+  shipped_at: string | null;
+  delivered_at: string | null;
+}
+
+interface PrintOrderPanelProps {
+  bookId: string;
+  printOrder: PrintOrder | null;
+}
+
+const STATUS_LABELS: Record<PrintOrderStatus, string> = {
+  pending: "Waiting for your book to finish, then we'll send it to the printer",
+  submitted: 'Sent to the printer',
+  'in-production': 'Being printed',
+  shipped: 'On its way',
+  delivered: 'Delivered',
+  rejected: 'The printer could not print this book. Please contact support.',
+  cancelled: 'Cancelled',
+  failed: 'We could not send this book to the printer. Please contact support.',
+};
+
+const EMPTY_ADDRESS: ShippingAddress = {
+  recipientName: '',
+  line1: '',
+  line2: '',
+  city: '',
+  state: '',
+  postcode: '',
+  countryCode: 'NZ',
+};
+
+/**
+ * Shipping address form for a printed book, then its print status and tracking
+ */
+export function PrintOrderPanel({ bookId, printOrder }: PrintOrderPanelProps) {
+  const [address, setAddress] = useState<ShippingAddress>(EMPTY_ADDRESS);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const updateField = (field: keyof ShippingAddress) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    setAddress({ ...address, [field]: e.target.value });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/books/${bookId}/print-order`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          shippingAddress: {
+            ...address,
+            line2: address.line2 || undefined,
+            state: address.state || undefined,
+            countryCode: address.countryCode.toUpperCase(),
+          },
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to save shipping address');
+      }
+
+      router.refresh();
+    } catch (err) {
+      console.error('Print order error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to save shipping address');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (printOrder) {
+    return (
+      <div className="bg-white rounded-lg shadow-sm border p-6">
+        <h3 className="font-semibold text-lg mb-4">Printed Copy</h3>
+        <div className="space-y-3 text-sm">
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-600">Status:</span>
+            <span className="font-medium text-right">{STATUS_LABELS[printOrder.status]}</span>
+          </div>
+          <div className="flex justify-between gap-4">
+            <span className="text-gray-600">Shipping to:</span>
+            <span className="font-medium text-right">
+              {printOrder.recipient_name}, {printOrder.shipping_city} {printOrder.shipping_country_code}
+            </span>
+          </div>
+          {printOrder.tracking_number && (
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-600">Tracking:</span>
+              <span className="font-medium text-right">
+                {printOrder.carrier && `${printOrder.carrier} `}
+                {printOrder.tracking_url ? (
+                  <a href={printOrder.tracking_url} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                    {printOrder.tracking_number}
+                  </a>
+                ) : (
+                  printOrder.tracking_number
+                )}
+              </span>
+            </div>
+          )}
+          {printOrder.shipped_at && (
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-600">Shipped:</span>
+              <span className="font-medium">{new Date(printOrder.shipped_at).toLocaleDateString()}</span>
+            </div>
+          )}
+          {printOrder.delivered_at ? (
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-600">Delivered:</span>
+              <span className="font-medium">{new Date(printOrder.delivered_at).toLocaleDateString()}</span>
+            </div>
+          ) : printOrder.estimated_delivery && (
+            <div className="flex justify-between gap-4">
+              <span className="text-gray-600">Estimated delivery:</span>
+              <span className="font-medium">{new Date(printOrder.estimated_delivery).toLocaleDateString()}</span>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const inputClass = 'w-full border rounded-lg px-3 py-2 text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="font-semibold text-lg mb-1">Where should we send your printed book?</h3>
+      <p className="text-sm text-gray-600 mb-4">We'll send it to the printer as soon as the book is ready.</p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-3 mb-4">
+        <input className={`${inputClass} md:col-span-2`} placeholder="Recipient name" value={address.recipientName} onChange={updateField('recipientName')} required disabled={submitting} />
+        <input className={`${inputClass} md:col-span-2`} placeholder="Address line 1" value={address.line1} onChange={updateField('line1')} required disabled={submitting} />
+        <input className={`${inputClass} md:col-span-2`} placeholder="Address line 2 (optional)" value={address.line2} onChange={updateField('line2')} disabled={submitting} />
+        <input className={inputClass} placeholder="City" value={address.city} onChange={updateField('city')} required disabled={submitting} />
+        <input className={inputClass} placeholder="State / region (optional)" value={address.state} onChange={updateField('state')} disabled={submitting} />
+        <input className={inputClass} placeholder="Postcode" value={address.postcode} onChange={updateField('postcode')} required disabled={submitting} />
+        <input className={`${inputClass} uppercase`} placeholder="Country code (e.g. NZ)" value={address.countryCode} onChange={updateField('countryCode')} maxLength={2} required disabled={submitting} />
+      </div>
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="bg-primary text-white px-6 py-3 rounded-lg hover:opacity-90 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {submitting ? 'Saving...' : 'Save Shipping Address'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,239 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { BookShare } from '@/types';
+
+type ShareLink = BookShare & { url: string };
+
+interface ShareLinksPanelProps {
+  bookId: string;
+}
+
+// Days until a link expires; 0 never expires
+const EXPIRY_OPTIONS = [
+  { days: 7, label: '7 days' },
+  { days: 30, label: '30 days' },
+  { days: 90, label: '90 days' },
+  { days: 0, label: 'Never' },
+];
+
+function expiryFromDays(days: number): string | null {
+  return days > 0 ? new Date(Date.now() + days * 24 * 60 * 60 * 1000).toISOString() : null;
+}
+
+function getShareStatus(share: ShareLink): string {
+  if (share.revoked_at) {
+    return 'Revoked';
+  }
+  if (share.expires_at && new Date(share.expires_at).getTime() <= Date.now()) {
+    return 'Expired';
+  }
+  if (share.max_views !== null && share.view_count >= share.max_views) {
+    return 'View limit reached';
+  }
+  return 'Active';
+}
+
+/**
+ * Read-only links to a finished book for family without an account: create,
+ * copy, change the expiry and revoke, with how often each has been opened
+ */
+export function ShareLinksPanel({ bookId }: ShareLinksPanelProps) {
+  const [shares, setShares] = useState<ShareLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [label, setLabel] = useState('');
+  const [expiryDays, setExpiryDays] = useState(30);
+  const [maxViews, setMaxViews] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/books/${bookId}/shares`)
+      .then((response) => response.json())
+      .then((data) => setShares(data.shares || []))
+      .catch((err) => console.error('Failed to load share links:', err))
+      .finally(() => setLoading(false));
+  }, [bookId]);
+
+  const request = async (url: string, method: string, body?: object): Promise<ShareLink> => {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error?.message || 'Failed to update share link');
+    }
+
+    return data.share;
+  };
+
+  const replaceShare = (updated: ShareLink) => {
+    setShares((current) => current.map((share) => (share.id === updated.id ? updated : share)));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      const share = await request(`/api/books/${bookId}/shares`, 'POST', {
+        label: label.trim() || undefined,
+        expiresAt: expiryFromDays(expiryDays),
+        maxViews: maxViews ? parseInt(maxViews, 10) : null,
+      });
+      setShares((current) => [share, ...current]);
+      setLabel('');
+      setMaxViews('');
+    } catch (err) {
+      console.error('Share link error:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create share link');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleExpiryChange = async (share: ShareLink, days: number) => {
+    setError(null);
+    try {
+      replaceShare(await request(`/api/books/${bookId}/shares/${share.id}`, 'PATCH', { expiresAt: expiryFromDays(days) }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update share link');
+    }
+  };
+
+  const handleRevoke = async (share: ShareLink) => {
+    if (!confirm('Revoke this link? Anyone using it will no longer be able to read the book.')) {
+      return;
+    }
+
+    setError(null);
+    try {
+      replaceShare(await request(`/api/books/${bookId}/shares/${share.id}`, 'DELETE'));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke share link');
+    }
+  };
+
+  const handleCopy = async (share: ShareLink) => {
+    await navigator.clipboard.writeText(share.url);
+    setCopiedId(share.id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const inputClass = 'border rounded-lg px-3 py-2 text-sm';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border p-6">
+      <h3 className="font-semibold text-lg mb-1">Share This Book</h3>
+      <p className="text-sm text-gray-600 mb-4">
+        Anyone with a link can read the book online without an account, until it expires or you revoke it.
+      </p>
+
+      {error && (
+        <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-800">{error}</p>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="flex flex-col md:flex-row gap-3 mb-6">
+        <input
+          className={`${inputClass} flex-1`}
+          placeholder="Who is it for? (optional)"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+          maxLength={100}
+          disabled={submitting}
+        />
+        <select
+          className={inputClass}
+          value={expiryDays}
+          onChange={(e) => setExpiryDays(parseInt(e.target.value, 10))}
+          disabled={submitting}
+          aria-label="Expires after"
+        >
+          {EXPIRY_OPTIONS.map((option) => (
+            <option key={option.days} value={option.days}>
+              {option.days > 0 ? `Expires in ${option.label}` : 'Never expires'}
+            </option>
+          ))}
+        </select>
+        <input
+          className={`${inputClass} md:w-32`}
+          type="number"
+          min={1}
+          placeholder="View limit"
+          value={maxViews}
+          onChange={(e) => setMaxViews(e.target.value)}
+          disabled={submitting}
+        />
+        <button
+          type="submit"
+          disabled={submitting}
+          className="bg-primary text-white px-6 py-2 rounded-lg hover:opacity-90 transition font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {submitting ? 'Creating...' : 'Create Link'}
+        </button>
+      </form>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading links...</p>
+      ) : shares.length === 0 ? (
+        <p className="text-sm text-gray-500">No share links yet.</p>
+      ) : (
+        <ul className="divide-y">
+          {shares.map((share) => {
+            const status = getShareStatus(share);
+            return (
+              <li key={share.id} className="py-4 flex flex-col md:flex-row md:items-center gap-3 text-sm">
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium">{share.label || 'Share link'}</p>
+                  <p className="text-gray-500 truncate">{share.url}</p>
+                  <p className="text-gray-500">
+                    {status} • {share.view_count}{share.max_views !== null && ` / ${share.max_views}`} {share.view_count === 1 && share.max_views === null ? 'view' : 'views'}
+                    {share.expires_at && !share.revoked_at && ` • Expires ${new Date(share.expires_at).toLocaleDateString()}`}
+                  </p>
+                </div>
+                {!share.revoked_at && (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleCopy(share)}
+                      className="border px-3 py-1 rounded-lg hover:bg-gray-50 transition"
+                    >
+                      {copiedId === share.id ? 'Copied!' : 'Copy'}
+                    </button>
+                    <select
+                      className="border rounded-lg px-2 py-1"
+                      value=""
+                      onChange={(e) => handleExpiryChange(share, parseInt(e.target.value, 10))}
+                      aria-label="Change expiry"
+                    >
+                      <option value="" disabled>Set expiry</option>
+                      {EXPIRY_OPTIONS.map((option) => (
+                        <option key={option.days} value={option.days}>
+                          {option.days > 0 ? `${option.label} from now` : 'Never'}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      onClick={() => handleRevoke(share)}
+                      className="border border-red-200 text-red-700 px-3 py-1 rounded-lg hover:bg-red-50 transition"
+                    >
+                      Revoke
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
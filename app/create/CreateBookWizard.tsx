@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { createClient } from '@/lib/supabase/client';
+import { getGiftDeliverAt } from '@/lib/gifts';
 import { StepOne } from './steps/StepOne';
 import { StepTwo } from './steps/StepTwo';
 import { StepThree } from './steps/StepThree';
@@ -31,6 +32,15 @@ export interface BookFormData {
   personalityTraits: string[];
   illustrationStyle: 'watercolour' | 'digital-art' | 'cartoon' | 'storybook-classic' | 'modern-minimal';
   customStoryPrompt?: string;
+  reviewStoryBeforeIllustration?: boolean;
+  isGift?: boolean;
+  gift?: {
+    recipientName: string;
+    recipientEmail: string;
+    dedication: string;
+    // YYYY-MM-DD, empty to send as soon as the book is ready
+    deliverDate: string;
+  };
 }
 
 interface CreateBookWizardProps {
@@ -77,6 +87,11 @@ export function CreateBookWizard({ templates, initialTemplateId }: CreateBookWiz
   };
 
   const handleSubmit = async () => {
+    if (formData.isGift && (!formData.gift?.recipientName.trim() || !formData.gift?.recipientEmail.trim())) {
+      setError('Please enter the name and email of the person receiving the gift');
+      return;
+    }
+
     setLoading(true);
     setError('');
 
@@ -158,6 +173,13 @@ export function CreateBookWizard({ templates, initialTemplateId }: CreateBookWiz
           personalityTraits: formData.personalityTraits,
           customStoryPrompt: formData.customStoryPrompt,
           illustrationStyle: formData.illustrationStyle,
+          reviewStoryBeforeIllustration: formData.reviewStoryBeforeIllustration,
+          gift: formData.isGift && formData.gift ? {
+            recipientName: formData.gift.recipientName,
+            recipientEmail: formData.gift.recipientEmail,
+            dedication: formData.gift.dedication || undefined,
+            deliverAt: getGiftDeliverAt(formData.gift.deliverDate),
+          } : undefined,
         }),
       });
 
@@ -276,6 +298,7 @@ export function CreateBookWizard({ templates, initialTemplateId }: CreateBookWiz
         {currentStep === 5 && (
           <StepFive
             formData={formData}
+            updateFormData={updateFormData}
             templates={templates}
             onPrev={prevStep}
             onSubmit={handleSubmit}
@@ -3,20 +3,28 @@
 import { BookFormData } from '../CreateBookWizard';
 import Image from 'next/image';
 import { useState, useEffect } from 'react';
+import { GIFT_DEDICATION_MAX_LENGTH } from '@/lib/gifts';
 
 interface StepFiveProps {
   formData: BookFormData;
+  updateFormData: (data: Partial<BookFormData>) => void;
   templates: any[];
   onPrev: () => void;
   onSubmit: () => void;
   loading: boolean;
 }
 
-export function StepFive({ formData, templates, onPrev, onSubmit, loading }: StepFiveProps) {
+export function StepFive({ formData, updateFormData, templates, onPrev, onSubmit, loading }: StepFiveProps) {
   const [childPhotoPreview, setChildPhotoPreview] = useState<string | null>(null);
   const [petPhotoPreviews, setPetPhotoPreviews] = useState<{ [key: number]: string }>({});
 
   const selectedTemplate = templates.find((t) => t.id === formData.templateId);
+  const gift = formData.gift || { recipientName: '', recipientEmail: '', dedication: '', deliverDate: '' };
+  const today = new Date().toISOString().split('T')[0];
+
+  const updateGift = (data: Partial<typeof gift>) => {
+    updateFormData({ gift: { ...gift, ...data } });
+  };
 
   useEffect(() => {
     // Generate child photo preview
@@ -190,6 +198,106 @@ export function StepFive({ formData, templates, onPrev, onSubmit, loading }: Ste
           </div>
         </div>
 
+        {/* Story Review Option */}
+        <label className="flex items-start gap-3 bg-gray-50 rounded-lg p-6 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={formData.reviewStoryBeforeIllustration || false}
+            onChange={(e) => updateFormData({ reviewStoryBeforeIllustration: e.target.checked })}
+            className="mt-1 h-4 w-4"
+          />
+          <div>
+            <p className="font-medium">Let me review the story before it&apos;s illustrated</p>
+            <p className="text-sm text-gray-600 mt-1">
+              We&apos;ll pause once the story is written so you can fix a word or a name, then continue to the illustrations when you&apos;re ready.
+            </p>
+          </div>
+        </label>
+
+        {/* Gift */}
+        <div className="bg-gray-50 rounded-lg p-6">
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={formData.isGift || false}
+              onChange={(e) => updateFormData({ isGift: e.target.checked })}
+              className="mt-1 h-4 w-4"
+            />
+            <div>
+              <p className="font-medium">This book is a gift</p>
+              <p className="text-sm text-gray-600 mt-1">
+                We&apos;ll email the recipient a link to read the finished book, with your dedication, on the day you choose.
+              </p>
+            </div>
+          </label>
+
+          {formData.isGift && (
+            <div className="mt-4 space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-1" htmlFor="gift-recipient-name">
+                    Recipient&apos;s name *
+                  </label>
+                  <input
+                    id="gift-recipient-name"
+                    className="w-full border rounded-lg px-3 py-2"
+                    value={gift.recipientName}
+                    onChange={(e) => updateGift({ recipientName: e.target.value })}
+                    placeholder="e.g. Emma's parents"
+                    maxLength={100}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1" htmlFor="gift-recipient-email">
+                    Recipient&apos;s email *
+                  </label>
+                  <input
+                    id="gift-recipient-email"
+                    type="email"
+                    className="w-full border rounded-lg px-3 py-2"
+                    value={gift.recipientEmail}
+                    onChange={(e) => updateGift({ recipientEmail: e.target.value })}
+                    maxLength={255}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1" htmlFor="gift-dedication">
+                  Dedication
+                </label>
+                <textarea
+                  id="gift-dedication"
+                  className="w-full border rounded-lg px-3 py-2"
+                  rows={3}
+                  value={gift.dedication}
+                  onChange={(e) => updateGift({ dedication: e.target.value })}
+                  placeholder="A few words for the front of the book"
+                  maxLength={GIFT_DEDICATION_MAX_LENGTH}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {gift.dedication.length}/{GIFT_DEDICATION_MAX_LENGTH} characters
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1" htmlFor="gift-deliver-date">
+                  Delivery date
+                </label>
+                <input
+                  id="gift-deliver-date"
+                  type="date"
+                  className="border rounded-lg px-3 py-2"
+                  value={gift.deliverDate}
+                  min={today}
+                  onChange={(e) => updateGift({ deliverDate: e.target.value })}
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Leave empty to send it as soon as the book is ready.
+                </p>
+              </div>
+            </div>
+          )}
+        </div>
+
         {/* Important Notice */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <h4 className="font-semibold text-blue-900 mb-2">Important Information</h4>
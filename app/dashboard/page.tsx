@@ -2,6 +2,7 @@ import { redirect } from 'next/navigation';
 import { createClient } from '@/lib/supabase/server';
 import Link from 'next/link';
 import { DeleteBookButton } from '@/app/components/DeleteBookButton';
+import { signStorageUrls } from '@/lib/storage';
 
 export default async function DashboardPage() {
   const supabase = createClient();
@@ -38,6 +39,7 @@ export default async function DashboardPage() {
     }
     return book;
   }));
+  const signedCovers = await signStorageUrls(supabase, booksWithCovers.map((book) => book.coverImage));
 
   const handleSignOut = async () => {
     'use server';
@@ -102,7 +104,7 @@ export default async function DashboardPage() {
                   {book.coverImage && (
                     <div className="relative h-48 bg-gray-100">
                       <img
-                        src={book.coverImage}
+                        src={signedCovers.get(book.coverImage)}
                         alt={`${book.child_first_name}'s Story Cover`}
                         className="w-full h-full object-cover"
                       />
@@ -123,6 +125,7 @@ export default async function DashboardPage() {
                       <span className={`px-2 py-1 text-xs rounded-full ${
                         book.status === 'completed' ? 'bg-green-100 text-green-800' :
                         book.status === 'processing' || book.status === 'generating-story' || book.status === 'generating-images' || book.status === 'creating-pdf' ? 'bg-blue-100 text-blue-800' :
+                        book.status === 'content-review' || book.status === 'story-review' ? 'bg-yellow-100 text-yellow-800' :
                         book.status === 'failed' ? 'bg-red-100 text-red-800' :
                         'bg-gray-100 text-gray-800'
                       }`}>
@@ -178,6 +181,14 @@ export default async function DashboardPage() {
                         View Progress
                       </Link>
                     )}
+                    {book.status === 'story-review' && (
+                      <Link
+                        href={`/books/${book.id}/story`}
+                        className="flex-1 text-center bg-yellow-500 text-white px-4 py-2 rounded-lg hover:bg-yellow-600 transition text-sm"
+                      >
+                        Review Story
+                      </Link>
+                    )}
                     </div>
                   </div>
                 </div>
@@ -0,0 +1,57 @@
+import type { Metadata } from 'next';
+import { headers } from 'next/headers';
+import Link from 'next/link';
+import { DigitalBookViewer } from '@/app/components/DigitalBookViewer';
+import { bookSharingService } from '@/services/bookSharing.service';
+import type { BookShareUnavailableReason } from '@/types';
+
+// Every visit is counted, so never serve a cached render
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  robots: { index: false, follow: false },
+};
+
+const UNAVAILABLE_MESSAGES: Record<BookShareUnavailableReason, string> = {
+  'not-found': "This link doesn't exist. Please check you copied the whole address.",
+  revoked: 'This link has been turned off by the person who shared it.',
+  expired: 'This link has expired. Ask the person who shared it for a new one.',
+  'view-limit-reached': 'This link has been opened as many times as allowed. Ask the person who shared it for a new one.',
+  'book-unavailable': 'This book is no longer available.',
+};
+
+/**
+ * Read-only view of a shared book; no account needed
+ */
+export default async function SharedBookPage({ params }: { params: { token: string } }) {
+  const requestHeaders = headers();
+
+  const result = await bookSharingService.openShare(params.token, {
+    ipAddress: requestHeaders.get('x-forwarded-for')?.split(',')[0].trim() || requestHeaders.get('x-real-ip'),
+    userAgent: requestHeaders.get('user-agent'),
+  });
+
+  if (!result.available) {
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-lg shadow-sm border p-8 max-w-md text-center">
+          <h1 className="text-2xl font-bold mb-2">This book can't be opened</h1>
+          <p className="text-gray-600 mb-6">{UNAVAILABLE_MESSAGES[result.reason]}</p>
+          <Link href="/" className="text-primary hover:underline">
+            Create your own storybook
+          </Link>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <DigitalBookViewer
+        title={result.title}
+        childName={result.childName}
+        pages={result.pages}
+      />
+    </main>
+  );
+}
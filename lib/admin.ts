@@ -0,0 +1,44 @@
+/**
+ * Admin Access
+ * Staff-only checks for the /admin area and its API routes
+ */
+
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/server';
+import { AuthenticationError, AuthorizationError } from './errors';
+
+export interface AdminUser {
+  id: string;
+  email?: string;
+}
+
+/**
+ * Returns the signed-in user if they have a staff role (staff_roles)
+ * Throws AuthenticationError when signed out and AuthorizationError otherwise
+ */
+export async function requireAdmin(): Promise<AdminUser> {
+  const supabase = createClient();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new AuthenticationError();
+  }
+
+  // Only the service role can read or write staff_roles
+  const serviceClient = createServiceClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const { data: staffRole } = await serviceClient
+    .from('staff_roles')
+    .select('role')
+    .eq('user_id', user.id)
+    .maybeSingle();
+
+  if (staffRole?.role !== 'admin') {
+    throw new AuthorizationError();
+  }
+
+  return { id: user.id, email: user.email };
+}
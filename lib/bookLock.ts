@@ -0,0 +1,236 @@
+/**
+ * Book Processing Lock
+ * A lease per book order so only one runner (cron, HTTP trigger or worker)
+ * works on a book at a time. Redis when REDIS_URL is set, otherwise lease
+ * columns on book_orders
+ */
+
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { createClient } from '@supabase/supabase-js';
+import type Redis from 'ioredis';
+import { createRedisConnection } from './redis';
+
+const DEFAULT_LEASE_TTL_MS = 60_000;
+
+export interface BookLockStore {
+  readonly name: string;
+  // True if the lease was free (or expired) and is now ours
+  acquire(bookOrderId: string, owner: string, ttlMs: number): Promise<boolean>;
+  // True if we still held the lease and extended it
+  renew(bookOrderId: string, owner: string, ttlMs: number): Promise<boolean>;
+  release(bookOrderId: string, owner: string): Promise<void>;
+  // True while any runner holds an unexpired lease
+  isHeld(bookOrderId: string): Promise<boolean>;
+}
+
+/**
+ * How long a lease lasts without a heartbeat (BOOK_LOCK_TTL_SECONDS)
+ * A runner that dies (e.g. a timed-out serverless function) frees the book after this
+ */
+export function getLeaseTtlMs(): number {
+  const seconds = parseInt(process.env.BOOK_LOCK_TTL_SECONDS || '', 10);
+  return isNaN(seconds) || seconds <= 0 ? DEFAULT_LEASE_TTL_MS : seconds * 1000;
+}
+
+const RENEW_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+export class RedisBookLockStore implements BookLockStore {
+  readonly name = 'redis';
+  private connection: Redis | null = null;
+
+  private getConnection(): Redis {
+    if (!this.connection) {
+      this.connection = createRedisConnection();
+    }
+    return this.connection;
+  }
+
+  private key(bookOrderId: string): string {
+    return `book-lock:${bookOrderId}`;
+  }
+
+  async acquire(bookOrderId: string, owner: string, ttlMs: number): Promise<boolean> {
+    const result = await this.getConnection().set(this.key(bookOrderId), owner, 'PX', ttlMs, 'NX');
+    return result === 'OK';
+  }
+
+  async renew(bookOrderId: string, owner: string, ttlMs: number): Promise<boolean> {
+    const result = await this.getConnection().eval(RENEW_SCRIPT, 1, this.key(bookOrderId), owner, String(ttlMs));
+    return result === 1;
+  }
+
+  async release(bookOrderId: string, owner: string): Promise<void> {
+    await this.getConnection().eval(RELEASE_SCRIPT, 1, this.key(bookOrderId), owner);
+  }
+
+  async isHeld(bookOrderId: string): Promise<boolean> {
+    return (await this.getConnection().exists(this.key(bookOrderId))) === 1;
+  }
+}
+
+/**
+ * Lease stored in book_orders.lock_owner / lock_expires_at
+ * Each write is a conditional update, so only one runner can win an expired lease
+ */
+export class PostgresBookLockStore implements BookLockStore {
+  readonly name = 'postgres';
+
+  private getSupabase() {
+    return createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+  }
+
+  async acquire(bookOrderId: string, owner: string, ttlMs: number): Promise<boolean> {
+    const now = new Date();
+    const { data, error } = await this.getSupabase()
+      .from('book_orders')
+      .update({
+        lock_owner: owner,
+        lock_expires_at: new Date(now.getTime() + ttlMs).toISOString(),
+      })
+      .eq('id', bookOrderId)
+      .or(`lock_owner.is.null,lock_expires_at.lt.${now.toISOString()}`)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to acquire book lock: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+  }
+
+  async renew(bookOrderId: string, owner: string, ttlMs: number): Promise<boolean> {
+    const { data, error } = await this.getSupabase()
+      .from('book_orders')
+      .update({ lock_expires_at: new Date(Date.now() + ttlMs).toISOString() })
+      .eq('id', bookOrderId)
+      .eq('lock_owner', owner)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to renew book lock: ${error.message}`);
+    }
+
+    return (data?.length || 0) > 0;
+  }
+
+  async release(bookOrderId: string, owner: string): Promise<void> {
+    await this.getSupabase()
+      .from('book_orders')
+      .update({ lock_owner: null, lock_expires_at: null })
+      .eq('id', bookOrderId)
+      .eq('lock_owner', owner);
+  }
+
+  async isHeld(bookOrderId: string): Promise<boolean> {
+    const { data } = await this.getSupabase()
+      .from('book_orders')
+      .select('lock_expires_at')
+      .eq('id', bookOrderId)
+      .maybeSingle();
+
+    return !!data?.lock_expires_at && new Date(data.lock_expires_at).getTime() > Date.now();
+  }
+}
+
+let storeInstance: BookLockStore | null = null;
+
+/**
+ * Redis when REDIS_URL is configured, the book_orders lease columns otherwise
+ */
+export function getBookLockStore(): BookLockStore {
+  if (!storeInstance) {
+    storeInstance = process.env.REDIS_URL ? new RedisBookLockStore() : new PostgresBookLockStore();
+  }
+  return storeInstance;
+}
+
+/**
+ * A held lease with a heartbeat that keeps extending it until released
+ */
+export class BookLease {
+  private heartbeat: NodeJS.Timeout | null = null;
+  private lostLease = false;
+
+  constructor(
+    readonly bookOrderId: string,
+    readonly owner: string,
+    private store: BookLockStore,
+    private ttlMs: number
+  ) {}
+
+  /**
+   * True once a heartbeat found the lease expired or taken by another runner;
+   * the holder should stop before starting more work
+   */
+  get lost(): boolean {
+    return this.lostLease;
+  }
+
+  startHeartbeat(): void {
+    this.heartbeat = setInterval(async () => {
+      try {
+        if (!(await this.store.renew(this.bookOrderId, this.owner, this.ttlMs))) {
+          console.warn(`[book-lock] Lost lease on book ${this.bookOrderId}`);
+          this.lostLease = true;
+          this.stopHeartbeat();
+        }
+      } catch (error) {
+        // A missed heartbeat is fine as long as a later one lands before expiry
+        console.error(`[book-lock] Heartbeat failed for book ${this.bookOrderId}:`, error);
+      }
+    }, Math.floor(this.ttlMs / 3));
+
+    // Never keep a worker or script alive just for the heartbeat
+    this.heartbeat.unref?.();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+
+  async release(): Promise<void> {
+    this.stopHeartbeat();
+    try {
+      await this.store.release(this.bookOrderId, this.owner);
+    } catch (error) {
+      // The lease expires on its own
+      console.error(`[book-lock] Failed to release book ${this.bookOrderId}:`, error);
+    }
+  }
+}
+
+/**
+ * Takes the processing lease for a book, or returns null if another runner holds it
+ */
+export async function acquireBookLease(
+  bookOrderId: string,
+  store: BookLockStore = getBookLockStore()
+): Promise<BookLease | null> {
+  const owner = `${hostname()}:${process.pid}:${randomUUID()}`;
+  const ttlMs = getLeaseTtlMs();
+
+  if (!(await store.acquire(bookOrderId, owner, ttlMs))) {
+    return null;
+  }
+
+  const lease = new BookLease(bookOrderId, owner, store, ttlMs);
+  lease.startHeartbeat();
+  return lease;
+}
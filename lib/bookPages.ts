@@ -0,0 +1,198 @@
+/**
+ * Book Page Layout
+ * Page count resolution, cover numbering and viewer page order shared by the
+ * generation pipeline, the PDF builder and the readers
+ */
+
+import type { ProductTier } from '@/types';
+import { estimateWordTimings, PageNarration, WordTiming } from './narration';
+
+export const DEFAULT_STORY_PAGE_COUNT = 6;
+export const MIN_STORY_PAGE_COUNT = 4;
+export const MAX_STORY_PAGE_COUNT = 24;
+
+// Front cover is always stored as page 0; the back cover follows the last story page
+export const FRONT_COVER_PAGE_NUMBER = 0;
+
+/**
+ * Story page counts for books created without a template
+ */
+export const PRODUCT_TIER_PAGE_COUNTS: Record<ProductTier, number> = {
+  'digital-pdf': 6,
+  'printed-softcover': 12,
+  'printed-hardcover': 12,
+};
+
+/**
+ * Resolves how many story pages a book should have
+ * The template's page_count wins, then the product tier, then the default
+ */
+export function resolveStoryPageCount(options: {
+  templatePageCount?: number | null;
+  productTier?: string | null;
+}): number {
+  const { templatePageCount, productTier } = options;
+
+  let pageCount = DEFAULT_STORY_PAGE_COUNT;
+  if (templatePageCount) {
+    pageCount = templatePageCount;
+  } else if (productTier && productTier in PRODUCT_TIER_PAGE_COUNTS) {
+    pageCount = PRODUCT_TIER_PAGE_COUNTS[productTier as ProductTier];
+  }
+
+  return Math.min(MAX_STORY_PAGE_COUNT, Math.max(MIN_STORY_PAGE_COUNT, Math.round(pageCount)));
+}
+
+/**
+ * Page number used for the back cover image of a book with the given story length
+ */
+export function getBackCoverPageNumber(storyPageCount: number): number {
+  return storyPageCount + 1;
+}
+
+/**
+ * Covers have no story page; anything after the front cover is the back cover.
+ * Works for books generated before page counts were variable (back cover = 16)
+ */
+export function isBackCoverImage(image: { page_number: number; story_page_id?: string | null }): boolean {
+  return image.page_number > FRONT_COVER_PAGE_NUMBER && !image.story_page_id;
+}
+
+export function findFrontCoverImage<T extends { page_number: number }>(images: T[]): T | undefined {
+  return images.find((img) => img.page_number === FRONT_COVER_PAGE_NUMBER);
+}
+
+export function findBackCoverImage<T extends { page_number: number; story_page_id?: string | null }>(images: T[]): T | undefined {
+  return images.find((img) => isBackCoverImage(img));
+}
+
+/**
+ * Page numbers that still need an image: the covers (0 and the back cover
+ * number) and every story page without a generated image
+ */
+export function findMissingImagePageNumbers(
+  storyPages: { id: string; page_number: number }[],
+  images: { page_number: number; story_page_id?: string | null }[]
+): number[] {
+  const missing: number[] = [];
+
+  if (!findFrontCoverImage(images)) {
+    missing.push(FRONT_COVER_PAGE_NUMBER);
+  }
+
+  for (const page of storyPages) {
+    const hasImage = images.some((img) => img.story_page_id === page.id || (img.story_page_id && img.page_number === page.page_number));
+    if (!hasImage) {
+      missing.push(page.page_number);
+    }
+  }
+
+  if (!findBackCoverImage(images)) {
+    missing.push(getBackCoverPageNumber(storyPages.length));
+  }
+
+  return missing;
+}
+
+/**
+ * Total images for a book: one per story page plus front and back covers
+ */
+export function getTotalImageCount(storyPageCount: number): number {
+  return storyPageCount + 2;
+}
+
+/**
+ * PDF pages: a text page and an image page per story page, plus both covers
+ */
+export function getPdfPageCount(storyPageCount: number): number {
+  return (storyPageCount * 2) + 2;
+}
+
+/**
+ * A page of the digital viewer
+ */
+export interface ViewerPage {
+  pageNumber: number;
+  pageText: string | null;
+  imageUrl: string | null;
+  type: 'text' | 'image' | 'cover';
+  // Text pages with read-aloud audio
+  narration?: PageNarration | null;
+  // Text pages: when each word is read, from the narration or estimated
+  wordTimings?: WordTiming[] | null;
+}
+
+/**
+ * Viewer pages in reading order: front cover, the gift dedication if there
+ * is one, a text page then its illustration for every story page, then the
+ * back cover
+ */
+export function buildViewerPages(
+  storyPages: any[],
+  images: any[],
+  childAge?: number | null,
+  dedication?: string | null
+): ViewerPage[] {
+  const pages: ViewerPage[] = [];
+
+  const frontCover = findFrontCoverImage(images);
+  if (frontCover) {
+    pages.push({
+      pageNumber: FRONT_COVER_PAGE_NUMBER,
+      pageText: null,
+      imageUrl: frontCover.image_url,
+      type: 'cover',
+    });
+  }
+
+  if (dedication) {
+    pages.push({
+      pageNumber: FRONT_COVER_PAGE_NUMBER,
+      pageText: dedication,
+      imageUrl: null,
+      type: 'text',
+    });
+  }
+
+  const sortedStoryPages = [...storyPages].sort((a, b) => a.page_number - b.page_number);
+
+  for (const storyPage of sortedStoryPages) {
+    pages.push({
+      pageNumber: storyPage.page_number,
+      pageText: storyPage.page_text,
+      imageUrl: null,
+      type: 'text',
+      narration: storyPage.narration_audio_url
+        ? {
+            audioUrl: storyPage.narration_audio_url,
+            durationMs: storyPage.narration_duration_ms || 0,
+          }
+        : null,
+      // Books finished before read-along have no stored timings
+      wordTimings: storyPage.word_timings
+        || (storyPage.page_text ? estimateWordTimings(storyPage.page_text, childAge) : null),
+    });
+
+    const image = images.find((img) => img.page_number === storyPage.page_number && img.story_page_id);
+    if (image) {
+      pages.push({
+        pageNumber: storyPage.page_number,
+        pageText: null,
+        imageUrl: image.image_url,
+        type: 'image',
+      });
+    }
+  }
+
+  const backCover = findBackCoverImage(images);
+  if (backCover) {
+    pages.push({
+      pageNumber: backCover.page_number,
+      pageText: null,
+      imageUrl: backCover.image_url,
+      type: 'cover',
+    });
+  }
+
+  return pages;
+}
@@ -29,8 +29,12 @@ const optionalEnvVars = [
   // Email
   'SENDGRID_API_KEY',
 
+  // Narration
+  'GOOGLE_TTS_API_KEY',
+
   // Print on Demand
   'LULU_API_KEY',
+  'LULU_API_SECRET',
 
   // Monitoring
   'SENTRY_DSN',
@@ -67,6 +67,13 @@ export class ExternalServiceError extends AppError {
   }
 }
 
+export class BookCancelledError extends AppError {
+  constructor(bookOrderId: string) {
+    super(409, `Book ${bookOrderId} was cancelled`, 'BOOK_CANCELLED');
+    this.name = 'BookCancelledError';
+  }
+}
+
 export class DatabaseError extends AppError {
   constructor(operation: string, originalError?: any) {
     super(
@@ -0,0 +1,33 @@
+/**
+ * Gift Details
+ * Recipient, dedication and delivery date for a book bought for someone else's
+ * child, shared by the create wizard, checkout and the gift API
+ */
+
+import { z } from 'zod';
+
+export const GIFT_DEDICATION_MAX_LENGTH = 500;
+
+// Gifts can be scheduled up to a year ahead
+export const GIFT_MAX_SCHEDULE_DAYS = 365;
+
+export const giftDetailsSchema = z.object({
+  recipientName: z.string().trim().min(1).max(100),
+  recipientEmail: z.string().trim().email().max(255),
+  dedication: z.string().trim().max(GIFT_DEDICATION_MAX_LENGTH).optional(),
+  // Leave out to send as soon as the book is finished
+  deliverAt: z.string().datetime().optional(),
+}).refine(
+  (gift) => !gift.deliverAt || new Date(gift.deliverAt).getTime() <= Date.now() + GIFT_MAX_SCHEDULE_DAYS * 24 * 60 * 60 * 1000,
+  { message: `Gifts can be scheduled up to ${GIFT_MAX_SCHEDULE_DAYS} days ahead`, path: ['deliverAt'] }
+);
+
+export type GiftDetails = z.infer<typeof giftDetailsSchema>;
+
+/**
+ * Delivery time for a date picked in the browser (YYYY-MM-DD): 9am local
+ * time that day, or undefined for "as soon as it's ready"
+ */
+export function getGiftDeliverAt(date: string | undefined): string | undefined {
+  return date ? new Date(`${date}T09:00:00`).toISOString() : undefined;
+}
@@ -0,0 +1,118 @@
+/**
+ * Narration Timing
+ * Word segmentation, reading-speed estimates and timing lookups shared by the
+ * narration providers, the EPUB export and the digital viewer (safe to import
+ * from client components)
+ */
+
+export interface WordTiming {
+  text: string;
+  // Position of the word in page_text, end exclusive
+  charStart: number;
+  charEnd: number;
+  startMs: number;
+  endMs: number;
+}
+
+// story_pages.word_timings_source: measured from the narration audio, or estimated from reading speed
+export type WordTimingSource = 'narration' | 'estimated';
+
+export interface PageNarration {
+  audioUrl: string;
+  durationMs: number;
+}
+
+/**
+ * Words per minute when reading aloud to a child of the given age
+ */
+export function getReadingWordsPerMinute(childAge?: number | null): number {
+  if (!childAge || childAge <= 4) {
+    return 100;
+  }
+  if (childAge <= 6) {
+    return 120;
+  }
+  if (childAge <= 8) {
+    return 140;
+  }
+  return 160;
+}
+
+// Pauses after sentence-ending and mid-sentence punctuation
+const SENTENCE_PAUSE_MS = 500;
+const CLAUSE_PAUSE_MS = 250;
+const LEAD_IN_MS = 300;
+
+/**
+ * Words of a page in reading order; punctuation stays attached to its word
+ */
+export function splitWords(text: string): { text: string; charStart: number; charEnd: number }[] {
+  const words: { text: string; charStart: number; charEnd: number }[] = [];
+  const pattern = /\S+/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    words.push({ text: match[0], charStart: match.index, charEnd: match.index + match[0].length });
+  }
+
+  return words;
+}
+
+/**
+ * Word timings for a page without narration audio, at the reading speed for
+ * the child's age. Longer words take longer; punctuation adds a pause
+ */
+export function estimateWordTimings(text: string, childAge?: number | null): WordTiming[] {
+  const words = splitWords(text);
+  const averageWordMs = 60000 / getReadingWordsPerMinute(childAge);
+  const averageLength = words.reduce((total, word) => total + word.text.length, 0) / (words.length || 1);
+
+  const timings: WordTiming[] = [];
+  let cursorMs = LEAD_IN_MS;
+
+  for (const word of words) {
+    // Half the time is per word, half scales with its length
+    const lengthMs = Math.round(averageWordMs * (0.5 + 0.5 * (word.text.length / averageLength)));
+    timings.push({ ...word, startMs: cursorMs, endMs: cursorMs + lengthMs });
+    cursorMs += lengthMs;
+
+    if (/[.!?]["')\]]*$/.test(word.text)) {
+      cursorMs += SENTENCE_PAUSE_MS;
+    } else if (/[,;:]["')\]]*$/.test(word.text)) {
+      cursorMs += CLAUSE_PAUSE_MS;
+    }
+  }
+
+  return timings;
+}
+
+/**
+ * How long a page takes to read, from its word timings
+ */
+export function getWordTimingsDurationMs(wordTimings: WordTiming[]): number {
+  return wordTimings.length > 0 ? wordTimings[wordTimings.length - 1].endMs + LEAD_IN_MS : 0;
+}
+
+/**
+ * Index of the word being spoken at the given time, or -1 before the first
+ * word and after the last
+ */
+export function findWordIndexAt(wordTimings: WordTiming[], timeMs: number): number {
+  let low = 0;
+  let high = wordTimings.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    const word = wordTimings[middle];
+
+    if (timeMs < word.startMs) {
+      high = middle - 1;
+    } else if (timeMs >= word.endMs) {
+      low = middle + 1;
+    } else {
+      return middle;
+    }
+  }
+
+  return -1;
+}
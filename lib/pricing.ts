@@ -0,0 +1,108 @@
+/**
+ * Pricing
+ * Product tiers, currencies and sales tax shared by the checkout page and the
+ * payment routes. Prices and promo codes live in the product_prices and
+ * promo_codes tables (services/pricing.service.ts)
+ */
+
+import type { Currency, ProductTier } from '@/types';
+
+export const PRODUCT_TIERS: ProductTier[] = ['digital-pdf', 'printed-softcover', 'printed-hardcover'];
+
+export const PRODUCT_TIER_DETAILS: Record<ProductTier, { name: string; description: string }> = {
+  'digital-pdf': {
+    name: 'Digital PDF',
+    description: 'Download and print at home',
+  },
+  'printed-softcover': {
+    name: 'Printed Softcover',
+    description: 'Printed and posted to you, plus the PDF',
+  },
+  'printed-hardcover': {
+    name: 'Printed Hardcover',
+    description: 'A keepsake hardcover, posted to you, plus the PDF',
+  },
+};
+
+export const SUPPORTED_CURRENCIES: Currency[] = ['NZD', 'AUD', 'USD', 'GBP'];
+
+export const DEFAULT_CURRENCY: Currency = 'NZD';
+
+/**
+ * GST/VAT included in our listed prices. We don't collect US sales tax, so USD has none
+ */
+export const SALES_TAX: Record<Currency, { label: string; rate: number } | null> = {
+  NZD: { label: 'GST', rate: 0.15 },
+  AUD: { label: 'GST', rate: 0.1 },
+  GBP: { label: 'VAT', rate: 0.2 },
+  USD: null,
+};
+
+// Countries we price in their own currency; everyone else pays NZD
+const COUNTRY_CURRENCIES: Record<string, Currency> = {
+  NZ: 'NZD',
+  AU: 'AUD',
+  US: 'USD',
+  GB: 'GBP',
+};
+
+export function isProductTier(value: unknown): value is ProductTier {
+  return typeof value === 'string' && (PRODUCT_TIERS as string[]).includes(value);
+}
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && (SUPPORTED_CURRENCIES as string[]).includes(value);
+}
+
+/**
+ * Currency to show first for a two-letter country code (e.g. from x-vercel-ip-country)
+ */
+export function getCurrencyForCountry(country?: string | null): Currency {
+  return (country && COUNTRY_CURRENCIES[country.toUpperCase()]) || DEFAULT_CURRENCY;
+}
+
+export function toCents(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * Decimal string for DECIMAL(10, 2) columns
+ */
+export function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * The GST/VAT portion of a tax-inclusive amount
+ */
+export function getIncludedTaxCents(totalCents: number, currency: Currency): number {
+  const tax = SALES_TAX[currency];
+  if (!tax) {
+    return 0;
+  }
+  return Math.round(totalCents - totalCents / (1 + tax.rate));
+}
+
+/**
+ * Discount a promo code gives off a subtotal; never more than the subtotal itself
+ */
+export function getDiscountCents(
+  subtotalCents: number,
+  discount: { discountType: 'percent' | 'fixed'; percentOff?: number | null; amountOffCents?: number | null }
+): number {
+  const discountCents = discount.discountType === 'percent'
+    ? Math.round(subtotalCents * (discount.percentOff || 0) / 100)
+    : discount.amountOffCents || 0;
+
+  return Math.min(subtotalCents, Math.max(0, discountCents));
+}
+
+export function formatPrice(cents: number, currency: Currency): string {
+  const formatted = new Intl.NumberFormat('en-NZ', {
+    style: 'currency',
+    currency,
+    currencyDisplay: 'narrowSymbol',
+  }).format(cents / 100);
+
+  return `${formatted} ${currency}`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Print Profile
+ * Trim, bleed and safe-zone sizes, interior padding and cover spine width for
+ * the print-ready files sent to the print provider
+ */
+
+import type { ProductTier } from '@/types';
+
+export const POINTS_PER_INCH = 72;
+
+export type PaperStock = '60#-uncoated-white' | '80#-coated-white';
+
+export type BindingType = 'perfect' | 'casewrap';
+
+/**
+ * Pages per inch of interior thickness (Lulu's published figures)
+ */
+export const PAPER_STOCKS: Record<PaperStock, { name: string; pagesPerInch: number }> = {
+  '60#-uncoated-white': { name: '60# uncoated white', pagesPerInch: 444 },
+  '80#-coated-white': { name: '80# coated white', pagesPerInch: 444 },
+};
+
+// Added to the paper thickness for the cover board and glue
+const SPINE_ALLOWANCE_INCHES: Record<BindingType, number> = {
+  perfect: 0.06,
+  casewrap: 0.25,
+};
+
+// A casewrap cover folds over the boards, so it needs more than the usual bleed
+const CASEWRAP_WRAP_INCHES = 0.75;
+
+const DEFAULT_TRIM_INCHES = 8.5;
+const DEFAULT_BLEED_INCHES = 0.125;
+const DEFAULT_SAFE_ZONE_INCHES = 0.5;
+const DEFAULT_PAGE_MULTIPLE = 2;
+const DEFAULT_PAPER_STOCK: PaperStock = '80#-coated-white';
+
+export interface PrintProfile {
+  binding: BindingType;
+  paperStock: PaperStock;
+  // Finished page size (square)
+  trimInches: number;
+  // Extra image on every outside edge of an interior page, cut off when trimmed
+  bleedInches: number;
+  // Distance from the trim edge that text stays inside
+  safeZoneInches: number;
+  // The interior page count must be a multiple of this
+  pageMultiple: number;
+}
+
+function readNumber(name: string, fallback: number, min: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) || value < min ? fallback : value;
+}
+
+/**
+ * Print profile for a printed tier; PRINT_TRIM_INCHES, PRINT_BLEED_INCHES,
+ * PRINT_SAFE_ZONE_INCHES, PRINT_PAGE_MULTIPLE and PRINT_PAPER_STOCK override
+ * the defaults to match the vendor's product
+ */
+export function getPrintProfile(productTier: ProductTier): PrintProfile {
+  const paperStock = process.env.PRINT_PAPER_STOCK as PaperStock;
+
+  return {
+    binding: productTier === 'printed-hardcover' ? 'casewrap' : 'perfect',
+    paperStock: paperStock in PAPER_STOCKS ? paperStock : DEFAULT_PAPER_STOCK,
+    trimInches: readNumber('PRINT_TRIM_INCHES', DEFAULT_TRIM_INCHES, 1),
+    bleedInches: readNumber('PRINT_BLEED_INCHES', DEFAULT_BLEED_INCHES, 0),
+    safeZoneInches: readNumber('PRINT_SAFE_ZONE_INCHES', DEFAULT_SAFE_ZONE_INCHES, 0),
+    pageMultiple: Math.round(readNumber('PRINT_PAGE_MULTIPLE', DEFAULT_PAGE_MULTIPLE, 1)),
+  };
+}
+
+/**
+ * Rounds an interior page count up to the vendor's page multiple
+ */
+export function getPaddedPageCount(pageCount: number, pageMultiple: number): number {
+  return Math.ceil(pageCount / pageMultiple) * pageMultiple;
+}
+
+/**
+ * Spine width for an interior of the given (padded) page count
+ */
+export function getSpineWidthInches(pageCount: number, profile: Pick<PrintProfile, 'binding' | 'paperStock'>): number {
+  const paperInches = pageCount / PAPER_STOCKS[profile.paperStock].pagesPerInch;
+  return Math.round((paperInches + SPINE_ALLOWANCE_INCHES[profile.binding]) * 1000) / 1000;
+}
+
+/**
+ * Margin around the outside of the wraparound cover: the bleed for a
+ * paperback, the wrap for a casewrap hardcover
+ */
+export function getCoverMarginInches(profile: Pick<PrintProfile, 'binding' | 'bleedInches'>): number {
+  return profile.binding === 'casewrap' ? CASEWRAP_WRAP_INCHES : profile.bleedInches;
+}
+
+/**
+ * Full size of the wraparound cover: back, spine and front side by side
+ */
+export function getCoverSpreadInches(pageCount: number, profile: PrintProfile): { width: number; height: number; spine: number } {
+  const margin = getCoverMarginInches(profile);
+  const spine = getSpineWidthInches(pageCount, profile);
+
+  return {
+    width: margin * 2 + profile.trimInches * 2 + spine,
+    height: margin * 2 + profile.trimInches,
+    spine,
+  };
+}
+
+/**
+ * Storage paths (generated-pdfs bucket) of the print-ready files sent to the printer
+ */
+export function getPrintInteriorPath(bookOrderId: string): string {
+  return `${bookOrderId}/print-interior.pdf`;
+}
+
+export function getPrintCoverPath(bookOrderId: string): string {
+  return `${bookOrderId}/print-cover.pdf`;
+}
@@ -0,0 +1,120 @@
+/**
+ * Generated Content Storage
+ * generated_images.image_url and story_pages.narration_audio_url hold each
+ * object's public-style URL, but the generated-images and narration-audio
+ * buckets are private: sign a URL before a browser sees it, and read objects
+ * on the server through the storage API
+ */
+
+import axios from 'axios';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ViewerPage } from './bookPages';
+
+// How long signed URLs handed to a browser work, unless the caller says otherwise
+export const DEFAULT_SIGNED_URL_TTL_SECONDS = 3600;
+
+const STORAGE_OBJECT_URL = /\/storage\/v1\/object\/public\/([^/]+)\/([^?#]+)/;
+
+export interface StorageObjectRef {
+  bucket: string;
+  path: string;
+}
+
+/**
+ * The bucket and path of a stored object URL, or null for any other URL
+ */
+export function parseStorageUrl(url: string): StorageObjectRef | null {
+  const match = url.match(STORAGE_OBJECT_URL);
+  return match ? { bucket: match[1], path: decodeURIComponent(match[2]) } : null;
+}
+
+/**
+ * Signed URLs keyed by the stored URL; URLs that aren't storage objects, or
+ * that the client isn't allowed to read, are left out
+ */
+export async function signStorageUrls(
+  supabase: SupabaseClient,
+  urls: (string | null | undefined)[],
+  ttlSeconds: number = DEFAULT_SIGNED_URL_TTL_SECONDS
+): Promise<Map<string, string>> {
+  const signed = new Map<string, string>();
+
+  const byBucket = new Map<string, { url: string; path: string }[]>();
+  for (const url of Array.from(new Set(urls))) {
+    const object = url ? parseStorageUrl(url) : null;
+    if (!url || !object) {
+      continue;
+    }
+    const files = byBucket.get(object.bucket) || [];
+    files.push({ url, path: object.path });
+    byBucket.set(object.bucket, files);
+  }
+
+  for (const [bucket, files] of Array.from(byBucket)) {
+    const { data, error } = await supabase.storage
+      .from(bucket)
+      .createSignedUrls(files.map((file) => file.path), ttlSeconds);
+
+    if (error || !data) {
+      console.error(`[storage] Failed to sign ${files.length} URL(s) in ${bucket}:`, error);
+      continue;
+    }
+
+    data.forEach((item, index) => {
+      if (item.signedUrl) {
+        signed.set(files[index].url, item.signedUrl);
+      }
+    });
+  }
+
+  return signed;
+}
+
+/**
+ * Viewer pages with signed illustration and narration URLs; an image that
+ * couldn't be signed is dropped, and so is narration
+ */
+export async function signViewerPages(
+  supabase: SupabaseClient,
+  pages: ViewerPage[],
+  ttlSeconds: number = DEFAULT_SIGNED_URL_TTL_SECONDS
+): Promise<ViewerPage[]> {
+  const signedUrls = await signStorageUrls(
+    supabase,
+    pages.flatMap((page) => [page.imageUrl, page.narration?.audioUrl]),
+    ttlSeconds
+  );
+
+  return pages.map((page) => {
+    const audioUrl = page.narration && signedUrls.get(page.narration.audioUrl);
+    return {
+      ...page,
+      imageUrl: page.imageUrl ? signedUrls.get(page.imageUrl) || null : null,
+      narration: page.narration && audioUrl ? { ...page.narration, audioUrl } : null,
+    };
+  });
+}
+
+/**
+ * Downloads a stored object with the given (service role) client; other URLs,
+ * such as signed child photo URLs, are fetched over HTTP
+ */
+export async function loadStorageObject(
+  supabase: SupabaseClient,
+  url: string
+): Promise<{ data: Buffer; contentType: string }> {
+  const object = parseStorageUrl(url);
+
+  if (!object) {
+    const response = await axios.get(url, { responseType: 'arraybuffer' });
+    return { data: Buffer.from(response.data), contentType: response.headers['content-type'] || '' };
+  }
+
+  const { data, error } = await supabase.storage.from(object.bucket).download(object.path);
+
+  if (error || !data) {
+    throw new Error(`Failed to download ${object.bucket}/${object.path}: ${error?.message}`);
+  }
+
+  return { data: Buffer.from(await data.arrayBuffer()), contentType: data.type };
+}
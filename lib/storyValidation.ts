@@ -0,0 +1,163 @@
+/**
+ * Story Validation
+ * Checks model output against the GeneratedStoryData shape and the promises made
+ * in the story prompt, returning machine-readable violations for repair prompts
+ */
+
+import { z } from 'zod';
+import type { GeneratedStoryData } from '@/types';
+
+export type StoryViolationCode =
+  | 'invalid_structure'
+  | 'page_count_mismatch'
+  | 'page_number_sequence'
+  | 'word_count_out_of_range'
+  | 'image_prompt_empty'
+  | 'child_name_missing';
+
+export interface StoryViolation {
+  code: StoryViolationCode;
+  // JSON path of the offending value, e.g. `pages[2].text`
+  path: string;
+  pageNumber?: number;
+  expected?: string | number;
+  actual?: string | number;
+  message: string;
+}
+
+export interface StoryValidationOptions {
+  pageCount: number;
+  childFirstName: string;
+  childAge: number;
+}
+
+export interface StoryValidationResult {
+  valid: boolean;
+  violations: StoryViolation[];
+  story?: GeneratedStoryData;
+}
+
+export interface WordRange {
+  min: number;
+  max: number;
+}
+
+// Shape only; content rules are checked separately so every problem is reported at once
+const storyPageSchema = z.object({
+  pageNumber: z.number().int(),
+  text: z.string(),
+  imagePrompt: z.string(),
+});
+
+const generatedStorySchema = z.object({
+  title: z.string().trim().min(1),
+  pages: z.array(storyPageSchema),
+});
+
+/**
+ * Words per page promised to the model, by the child's age
+ */
+export function getWordRangeForAge(childAge: number): WordRange {
+  if (childAge <= 3) return { min: 15, max: 50 };
+  if (childAge <= 5) return { min: 30, max: 80 };
+  if (childAge <= 8) return { min: 50, max: 100 };
+  return { min: 80, max: 150 };
+}
+
+export function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(Boolean).length;
+}
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((result, key) => {
+    return typeof key === 'number' ? `${result}[${key}]` : result ? `${result}.${key}` : key;
+  }, '');
+}
+
+/**
+ * Validates a parsed model response
+ * Returns the typed story only when there are no violations
+ */
+export function validateStory(data: unknown, options: StoryValidationOptions): StoryValidationResult {
+  const parsed = generatedStorySchema.safeParse(data);
+
+  if (!parsed.success) {
+    return {
+      valid: false,
+      violations: parsed.error.issues.map((issue) => ({
+        code: 'invalid_structure',
+        path: formatPath(issue.path) || '$',
+        message: issue.message,
+      })),
+    };
+  }
+
+  const story = parsed.data;
+  const { pageCount, childFirstName, childAge } = options;
+  const wordRange = getWordRangeForAge(childAge);
+  const violations: StoryViolation[] = [];
+
+  if (story.pages.length !== pageCount) {
+    violations.push({
+      code: 'page_count_mismatch',
+      path: 'pages',
+      expected: pageCount,
+      actual: story.pages.length,
+      message: `Story must have exactly ${pageCount} pages, got ${story.pages.length}`,
+    });
+  }
+
+  story.pages.forEach((page, index) => {
+    const expectedPageNumber = index + 1;
+
+    if (page.pageNumber !== expectedPageNumber) {
+      violations.push({
+        code: 'page_number_sequence',
+        path: `pages[${index}].pageNumber`,
+        pageNumber: page.pageNumber,
+        expected: expectedPageNumber,
+        actual: page.pageNumber,
+        message: `Page ${index + 1} is numbered ${page.pageNumber}; pages must be numbered 1 to ${pageCount} in order`,
+      });
+    }
+
+    const wordCount = countWords(page.text);
+    if (wordCount < wordRange.min || wordCount > wordRange.max) {
+      violations.push({
+        code: 'word_count_out_of_range',
+        path: `pages[${index}].text`,
+        pageNumber: expectedPageNumber,
+        expected: `${wordRange.min}-${wordRange.max}`,
+        actual: wordCount,
+        message: `Page ${expectedPageNumber} has ${wordCount} words; it must have ${wordRange.min}-${wordRange.max}`,
+      });
+    }
+
+    if (!page.imagePrompt.trim()) {
+      violations.push({
+        code: 'image_prompt_empty',
+        path: `pages[${index}].imagePrompt`,
+        pageNumber: expectedPageNumber,
+        message: `Page ${expectedPageNumber} is missing its imagePrompt`,
+      });
+    }
+  });
+
+  // Letter boundaries rather than \b so names like "Zoë" still match
+  const escapedName = childFirstName.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const namePattern = new RegExp(`(?<!\\p{L})${escapedName}(?!\\p{L})`, 'iu');
+  if (!story.pages.some((page) => namePattern.test(page.text))) {
+    violations.push({
+      code: 'child_name_missing',
+      path: 'pages',
+      expected: childFirstName,
+      message: `${childFirstName} must appear by name in the story text`,
+    });
+  }
+
+  return {
+    valid: violations.length === 0,
+    violations,
+    story: violations.length === 0 ? story : undefined,
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * Stripe Client
+ * Created lazily so routes that never take payments don't need STRIPE_SECRET_KEY
+ */
+
+import Stripe from 'stripe';
+
+let stripeInstance: Stripe | null = null;
+
+export function getStripe(): Stripe {
+  if (!stripeInstance) {
+    if (!process.env.STRIPE_SECRET_KEY) {
+      throw new Error('STRIPE_SECRET_KEY is not defined');
+    }
+    stripeInstance = new Stripe(process.env.STRIPE_SECRET_KEY, {
+      apiVersion: '2023-10-16',
+    });
+  }
+  return stripeInstance;
+}
+
+/**
+ * The mock payment route only works when ENABLE_MOCK_PAYMENTS=true (local development)
+ */
+export function isMockPaymentEnabled(): boolean {
+  return process.env.ENABLE_MOCK_PAYMENTS === 'true';
+}
@@ -42,6 +42,7 @@ function addSecurityHeaders(response: NextResponse): void {
     "script-src 'self' 'unsafe-eval' 'unsafe-inline'", // Next.js requires unsafe-eval and unsafe-inline
     "style-src 'self' 'unsafe-inline'",
     "img-src 'self' data: blob: https://*.supabase.co https:",
+    "media-src 'self' blob: https://*.supabase.co", // Narration audio
     "font-src 'self' data:",
     "connect-src 'self' https://*.supabase.co wss://*.supabase.co https://api.replicate.com https://replicate.com https://generativelanguage.googleapis.com",
     "frame-src 'self'",
@@ -6,7 +6,8 @@ async function makeBucketsPublic() {
     process.env.SUPABASE_SERVICE_ROLE_KEY!
   );
 
-  console.log('Making generated-pdfs and generated-images buckets public...');
+  // generated-images and narration-audio stay private and are read through signed URLs
+  console.log('Making generated-pdfs bucket public...');
 
   // Update generated-pdfs bucket
   const { data: data1, error: error1 } = await supabase
@@ -21,20 +22,7 @@ async function makeBucketsPublic() {
     console.log('✓ generated-pdfs is now public');
   }
 
-  // Update generated-images bucket
-  const { data: data2, error: error2 } = await supabase
-    .from('buckets')
-    .update({ public: true })
-    .eq('id', 'generated-images')
-    .select();
-
-  if (error2) {
-    console.error('Error updating generated-images:', error2);
-  } else {
-    console.log('✓ generated-images is now public');
-  }
-
-  console.log('\nBuckets updated successfully! Images and PDFs should now load properly.');
+  console.log('\nBucket updated successfully! PDFs should now load properly.');
 }
 
 makeBucketsPublic().catch(console.error);
@@ -0,0 +1,23 @@
+import { config } from 'dotenv';
+config();
+
+import { stuckBookSweeper } from '../services/stuckBookSweeper.service';
+
+// Runs one stuck-book sweep (the same job as /api/cron/sweep-stuck-books)
+async function sweepStuckBooks() {
+  const { checked, recoveries } = await stuckBookSweeper.sweep();
+
+  console.log(`Checked ${checked} book(s) in progress`);
+  recoveries.forEach((recovery) => {
+    console.log(`\n[${recovery.bookOrderId}] ${recovery.action} (attempt ${recovery.attempt})`);
+    console.log(`  ${recovery.reason}`);
+    if (recovery.nextRecoveryAt) {
+      console.log(`  Next attempt after: ${recovery.nextRecoveryAt}`);
+    }
+  });
+}
+
+sweepStuckBooks().catch((error) => {
+  console.error('Sweep failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,54 @@
+import { config } from 'dotenv';
+config();
+
+import fs from 'fs';
+import path from 'path';
+import Stripe from 'stripe';
+
+// Sends a signed Stripe webhook fixture to a running app, as Stripe would
+// Usage: npx tsx scripts/test-stripe-webhook.ts <bookOrderId> <userId> [fixture]
+// Fixtures live in scripts/fixtures/stripe; the default confirms a checkout session.
+// Replaying the same book and user sends the same payment intent, so it should be a no-op.
+
+async function testStripeWebhook() {
+  const [bookOrderId, userId, fixtureName = 'checkout.session.completed'] = process.argv.slice(2);
+
+  if (!bookOrderId || !userId) {
+    console.error('Usage: npx tsx scripts/test-stripe-webhook.ts <bookOrderId> <userId> [fixture]');
+    process.exit(1);
+  }
+
+  const secret = process.env.STRIPE_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('✗ STRIPE_WEBHOOK_SECRET is not set');
+    process.exit(1);
+  }
+
+  const fixturePath = path.join(__dirname, 'fixtures', 'stripe', `${fixtureName}.json`);
+  const payload = fs.readFileSync(fixturePath, 'utf-8')
+    .replace(/BOOK_ORDER_ID/g, bookOrderId)
+    .replace(/USER_ID/g, userId)
+    .replace(/pi_test_fixture/g, `pi_test_${bookOrderId.replace(/-/g, '')}`);
+
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || process.env.APP_URL || 'http://localhost:3000';
+  const response = await fetch(`${appUrl}/api/webhooks/stripe`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'stripe-signature': Stripe.webhooks.generateTestHeaderString({ payload, secret }),
+    },
+    body: payload,
+  });
+
+  console.log(`${response.status} ${response.statusText}`);
+  console.log(JSON.stringify(await response.json(), null, 2));
+
+  if (!response.ok) {
+    process.exit(1);
+  }
+}
+
+testStripeWebhook().catch((error) => {
+  console.error('✗ Error:', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,199 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as supabaseJs from '@supabase/supabase-js';
+import { createSupabaseMock, QueryResolver } from './helpers/supabaseMock';
+import { BookPipeline } from '../bookPipeline.service';
+import { BookLease, BookLockStore } from '@/lib/bookLock';
+import { BookCancelledError } from '@/lib/errors';
+
+let supabase = createSupabaseMock();
+
+jest.spyOn(supabaseJs, 'createClient').mockImplementation(() => supabase.client as any);
+
+const BOOK_ID = 'book-1';
+
+const CONFIRMED_PAYMENT = {
+  product_tier: 'digital-pdf',
+  status: 'completed',
+  paid_at: '2025-11-17T10:00:00.000Z',
+  stripe_payment_intent_id: 'pi_123',
+};
+
+function createLockStore(): BookLockStore {
+  return {
+    name: 'test',
+    acquire: async () => true,
+    renew: async () => true,
+    release: async () => {},
+    isHeld: async () => true,
+  };
+}
+
+function createPipeline() {
+  const services = {
+    story: {
+      generateStory: jest.fn(async () => ({ id: 'story-1', title: 'The Big Day', pages: [], version: 0 })),
+    },
+    image: { generateImagesForStory: jest.fn(async (_params: any): Promise<any[]> => []) },
+    pdf: { generatePDF: jest.fn() },
+    moderation: {
+      getStoryReviewState: jest.fn(async () => ({ reviewRequired: false })),
+      moderateStory: jest.fn(),
+      hasPendingReviews: jest.fn(async () => false),
+    },
+    progress: { record: jest.fn(async () => {}) },
+    cancellation: {
+      isCancelled: jest.fn(async () => false),
+      removeArtefacts: jest.fn(async () => {}),
+    },
+    refund: { refundBookQuietly: jest.fn(async () => {}) },
+    narration: { narrateBook: jest.fn(async () => {}) },
+    sweeper: { retryAfterError: jest.fn(async () => null) },
+  };
+
+  const pipeline = new BookPipeline(
+    services.story as any,
+    services.image as any,
+    services.pdf as any,
+    services.moderation as any,
+    createLockStore(),
+    services.progress as any,
+    services.cancellation as any,
+    services.refund as any,
+    services.narration as any,
+    services.sweeper as any
+  );
+
+  return { pipeline, services };
+}
+
+function resolveBook(bookOrder: Record<string, any>, resolveRest: QueryResolver = () => undefined): QueryResolver {
+  return (query) => {
+    if (query.table === 'book_orders' && query.action === 'select') {
+      return { data: { id: BOOK_ID, status: 'processing', processing_started_at: '2025-11-17T10:00:00.000Z', ...bookOrder } };
+    }
+    return resolveRest(query);
+  };
+}
+
+describe('BookPipeline payment gate', () => {
+  beforeEach(() => {
+    supabase = createSupabaseMock();
+  });
+
+  it('does not process a book whose completed payment was never confirmed', async () => {
+    supabase = createSupabaseMock(resolveBook({
+      payments: [{ ...CONFIRMED_PAYMENT, paid_at: null, stripe_payment_intent_id: null }],
+    }));
+    const { pipeline, services } = createPipeline();
+
+    const result = await pipeline.run(BOOK_ID);
+
+    expect(result).toEqual({ success: true, bookOrderId: BOOK_ID, status: 'processing' });
+    expect(services.story.generateStory).not.toHaveBeenCalled();
+    expect(supabase.queriesOn('book_orders', 'update')).toHaveLength(0);
+  });
+
+  it('does not process a refunded book', async () => {
+    supabase = createSupabaseMock(resolveBook({
+      payments: [{ ...CONFIRMED_PAYMENT, status: 'refunded' }],
+    }));
+    const { pipeline, services } = createPipeline();
+
+    await pipeline.run(BOOK_ID);
+
+    expect(services.story.generateStory).not.toHaveBeenCalled();
+  });
+
+  it('processes a book with a confirmed payment', async () => {
+    // Paused for the parent's story review, right after the story is written
+    supabase = createSupabaseMock(resolveBook({
+      review_story_before_illustration: true,
+      payments: [CONFIRMED_PAYMENT],
+    }));
+    const { pipeline, services } = createPipeline();
+
+    const result = await pipeline.run(BOOK_ID);
+
+    expect(services.story.generateStory).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ status: 'story-review', pausedAt: 'story-review' });
+  });
+});
+
+describe('BookPipeline lease loss', () => {
+  let leaseLost = false;
+  let lostSpy: ReturnType<typeof jest.spyOn>;
+
+  // A heartbeat finding the lease taken by another runner
+  const loseLease = () => {
+    leaseLost = true;
+  };
+
+  beforeEach(() => {
+    leaseLost = false;
+    lostSpy = jest.spyOn(BookLease.prototype, 'lost', 'get').mockImplementation(() => leaseLost);
+
+    // The story is written and moderated; its one page still needs an illustration
+    supabase = createSupabaseMock(resolveBook({ payments: [CONFIRMED_PAYMENT] }, (query) => {
+      switch (query.table) {
+        case 'generated_stories':
+          return { data: { id: 'story-1', title: 'The Big Day', full_story_json: { version: 1 } } };
+        case 'story_pages':
+          return { data: [{ id: 'page-1', page_number: 1 }] };
+        case 'generated_images':
+          return { data: [] };
+      }
+      return undefined;
+    }));
+  });
+
+  afterEach(() => {
+    lostSpy.mockRestore();
+  });
+
+  it('stops drawing once the lease is lost and leaves the book to its new runner', async () => {
+    const { pipeline, services } = createPipeline();
+    services.image.generateImagesForStory.mockImplementation(async (params: any) => {
+      loseLease();
+      // What the image service does before each illustration
+      if (await params.shouldStop()) {
+        throw new BookCancelledError(BOOK_ID);
+      }
+      return [{ id: 'image-1' }];
+    });
+
+    const result = await pipeline.run(BOOK_ID);
+
+    expect(result).toEqual({ success: true, bookOrderId: BOOK_ID, alreadyRunning: true });
+    // Not cancelled: the new runner's work must not be removed
+    expect(services.cancellation.removeArtefacts).not.toHaveBeenCalled();
+  });
+
+  it('neither fails nor retries the book when a run that lost its lease errors', async () => {
+    const { pipeline, services } = createPipeline();
+    services.image.generateImagesForStory.mockImplementation(async () => {
+      loseLease();
+      throw new Error('Illustration provider timed out');
+    });
+
+    const result = await pipeline.run(BOOK_ID);
+
+    expect(result).toMatchObject({ alreadyRunning: true });
+    expect(services.sweeper.retryAfterError).not.toHaveBeenCalled();
+    expect(services.refund.refundBookQuietly).not.toHaveBeenCalled();
+    expect(services.progress.record).not.toHaveBeenCalledWith(BOOK_ID, expect.objectContaining({ eventType: 'failed' }));
+    expect(supabase.queriesOn('book_orders', 'update').some((query) => query.values.status === 'failed')).toBe(false);
+  });
+
+  it('does not start the next step after losing the lease', async () => {
+    const { pipeline, services } = createPipeline();
+    services.image.generateImagesForStory.mockImplementation(async () => {
+      loseLease();
+      return [{ id: 'image-1' }];
+    });
+
+    const result = await pipeline.run(BOOK_ID);
+
+    expect(result).toMatchObject({ alreadyRunning: true });
+    expect(services.moderation.hasPendingReviews).not.toHaveBeenCalled();
+  });
+});
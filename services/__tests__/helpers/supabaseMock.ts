@@ -0,0 +1,81 @@
+/**
+ * In-memory stand-in for the service role Supabase client
+ * Records every query built through from(); the resolver picks each query's
+ * { data, error } from its table, action and filters
+ */
+
+export type QueryAction = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+export interface RecordedQuery {
+  table: string;
+  action: QueryAction;
+  values?: any;
+  // [operator, column, value], e.g. ['eq', 'status', 'pending']
+  filters: [string, string, unknown][];
+}
+
+export interface QueryResult {
+  data?: any;
+  error?: { message: string; code?: string } | null;
+}
+
+export type QueryResolver = (query: RecordedQuery) => QueryResult | undefined;
+
+const FILTER_METHODS = ['eq', 'neq', 'is', 'not', 'in', 'gt', 'gte', 'lt', 'lte', 'or', 'order', 'limit', 'range'];
+
+export function createSupabaseMock(resolve: QueryResolver = () => undefined) {
+  const queries: RecordedQuery[] = [];
+
+  const from = (table: string) => {
+    const query: RecordedQuery = { table, action: 'select', filters: [] };
+    queries.push(query);
+
+    const builder: any = {
+      // A select after a write only picks the returned columns
+      select: () => builder,
+      single: () => builder,
+      maybeSingle: () => builder,
+      then: (onFulfilled: any, onRejected: any) =>
+        Promise.resolve({ data: null, error: null, ...resolve(query) }).then(onFulfilled, onRejected),
+    };
+
+    for (const action of ['insert', 'update', 'upsert'] as const) {
+      builder[action] = (values: any) => {
+        query.action = action;
+        query.values = values;
+        return builder;
+      };
+    }
+
+    builder.delete = () => {
+      query.action = 'delete';
+      return builder;
+    };
+
+    for (const method of FILTER_METHODS) {
+      builder[method] = (column: string, value?: unknown) => {
+        query.filters.push([method, column, value]);
+        return builder;
+      };
+    }
+
+    return builder;
+  };
+
+  const storageBucket = {
+    list: async () => ({ data: [], error: null }),
+    remove: async () => ({ data: [], error: null }),
+  };
+
+  return {
+    client: { from, storage: { from: () => storageBucket } },
+    queries,
+    // Queries on a table, optionally only those with one action
+    queriesOn: (table: string, action?: QueryAction) =>
+      queries.filter((query) => query.table === table && (!action || query.action === action)),
+  };
+}
+
+export function hasFilter(query: RecordedQuery, operator: string, column: string, value: unknown): boolean {
+  return query.filters.some(([op, col, val]) => op === operator && col === column && val === value);
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import * as supabaseJs from '@supabase/supabase-js';
+import { createSupabaseMock, hasFilter, QueryResolver } from './helpers/supabaseMock';
+import { ModerationReviewService } from '../moderationReview.service';
+import { ValidationError } from '@/lib/errors';
+
+let supabase = createSupabaseMock();
+
+jest.spyOn(supabaseJs, 'createClient').mockImplementation(() => supabase.client as any);
+
+const BOOK_ID = 'book-1';
+
+const PENDING_IMAGE_REVIEW = {
+  id: 'review-1',
+  book_order_id: BOOK_ID,
+  review_type: 'image',
+  content_id: 'image-1',
+  review_status: 'pending',
+};
+
+interface ReviewScenario {
+  // False when another decision got to the review first
+  decided?: boolean;
+  // False when the book left content-review (e.g. was cancelled) meanwhile
+  resumed?: boolean;
+  bookStatus?: string;
+}
+
+function resolveReview({ decided = true, resumed = true, bookStatus = 'cancelled' }: ReviewScenario): QueryResolver {
+  return (query) => {
+    if (query.table === 'moderation_reviews') {
+      if (query.action === 'select') {
+        return { data: PENDING_IMAGE_REVIEW };
+      }
+      if (query.action === 'update' && hasFilter(query, 'eq', 'id', PENDING_IMAGE_REVIEW.id)) {
+        return { data: decided ? [{ id: PENDING_IMAGE_REVIEW.id }] : [] };
+      }
+    }
+
+    if (query.table === 'book_orders') {
+      if (query.action === 'update') {
+        return { data: resumed ? [{ id: BOOK_ID }] : [] };
+      }
+      return { data: { status: bookStatus } };
+    }
+
+    return undefined;
+  };
+}
+
+function createService() {
+  const imageService = { regenerateImage: jest.fn(async () => ({})) };
+  const moderationService = { hasPendingReviews: jest.fn(async () => false) };
+  const refundService = { refundBookQuietly: jest.fn(async () => {}) };
+
+  return {
+    service: new ModerationReviewService(imageService as any, moderationService as any, refundService as any),
+    imageService,
+    refundService,
+  };
+}
+
+describe('ModerationReviewService.decide', () => {
+  it('resumes the book once its last pending review is approved', async () => {
+    supabase = createSupabaseMock(resolveReview({}));
+    const { service } = createService();
+
+    const result = await service.decide({ reviewId: 'review-1', reviewerUserId: 'staff-1', decision: 'approve' });
+
+    expect(result).toMatchObject({ reviewStatus: 'approved', bookStatus: 'processing', resumeProcessing: true });
+
+    const [resume] = supabase.queriesOn('book_orders', 'update');
+    expect(resume.values).toEqual({ status: 'processing' });
+    expect(hasFilter(resume, 'eq', 'status', 'content-review')).toBe(true);
+  });
+
+  it('only decides a review that is still pending', async () => {
+    supabase = createSupabaseMock(resolveReview({}));
+    const { service } = createService();
+
+    await service.decide({ reviewId: 'review-1', reviewerUserId: 'staff-1', decision: 'approve' });
+
+    const [decision] = supabase.queriesOn('moderation_reviews', 'update');
+    expect(hasFilter(decision, 'eq', 'review_status', 'pending')).toBe(true);
+  });
+
+  it('refuses a decision that lost the race to another reviewer', async () => {
+    supabase = createSupabaseMock(resolveReview({ decided: false }));
+    const { service, imageService, refundService } = createService();
+
+    await expect(service.decide({ reviewId: 'review-1', reviewerUserId: 'staff-2', decision: 'reject-regenerate' }))
+      .rejects.toBeInstanceOf(ValidationError);
+    await expect(service.decide({ reviewId: 'review-1', reviewerUserId: 'staff-2', decision: 'reject-refund' }))
+      .rejects.toBeInstanceOf(ValidationError);
+
+    expect(imageService.regenerateImage).not.toHaveBeenCalled();
+    expect(refundService.refundBookQuietly).not.toHaveBeenCalled();
+    expect(supabase.queriesOn('book_orders', 'update')).toHaveLength(0);
+  });
+
+  it('does not resume a book that was cancelled while it was in review', async () => {
+    supabase = createSupabaseMock(resolveReview({ resumed: false, bookStatus: 'cancelled' }));
+    const { service } = createService();
+
+    const result = await service.decide({ reviewId: 'review-1', reviewerUserId: 'staff-1', decision: 'approve' });
+
+    expect(result).toMatchObject({ bookStatus: 'cancelled', resumeProcessing: false });
+  });
+});
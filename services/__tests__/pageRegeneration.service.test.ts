@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as supabaseJs from '@supabase/supabase-js';
+import { createSupabaseMock, hasFilter, QueryResolver } from './helpers/supabaseMock';
+import { PageRegenerationService } from '../pageRegeneration.service';
+import { RateLimitError } from '@/lib/errors';
+
+let supabase = createSupabaseMock();
+
+jest.spyOn(supabaseJs, 'createClient').mockImplementation(() => supabase.client as any);
+
+const BOOK_ID = 'book-1';
+const FAILED_AT = '2025-11-18T10:00:00.000Z';
+
+function resolveRegenerations(regenerations: { attempt: number; failed_at: string | null }[]): QueryResolver {
+  return (query) => {
+    switch (query.table) {
+      case 'book_orders':
+        return query.action === 'select'
+          ? { data: { id: BOOK_ID, status: 'completed', child_first_name: 'Ada', template: { title: 'The Big Day' } } }
+          : undefined;
+      case 'generated_images':
+        return { data: { id: 'image-1', story_page_id: 'page-1' } };
+      case 'generated_stories':
+        return { data: { id: 'story-1' } };
+      case 'page_regenerations':
+        if (query.action === 'select') {
+          return { data: regenerations };
+        }
+        return query.action === 'insert' ? { data: { id: 'regeneration-new' } } : undefined;
+    }
+    return undefined;
+  };
+}
+
+function createService() {
+  const imageService = {
+    regenerateImage: jest.fn(async (_params: any): Promise<any> => ({ id: 'image-1', content_moderation_passed: true })),
+  };
+  const pdfService = { generatePDF: jest.fn(async () => ({})) };
+
+  return {
+    service: new PageRegenerationService(imageService as any, pdfService as any),
+    imageService,
+  };
+}
+
+describe('PageRegenerationService allowance', () => {
+  beforeEach(() => {
+    process.env.PAGE_REGENERATION_ALLOWANCE = '3';
+  });
+
+  afterEach(() => {
+    delete process.env.PAGE_REGENERATION_ALLOWANCE;
+  });
+
+  it('numbers a new attempt after the last one, including failed attempts', async () => {
+    supabase = createSupabaseMock(resolveRegenerations([
+      { attempt: 1, failed_at: null },
+      { attempt: 2, failed_at: FAILED_AT },
+    ]));
+    const { service } = createService();
+
+    const result = await service.regeneratePage({ bookOrderId: BOOK_ID, storyPageId: 'page-1' });
+
+    const [reservation] = supabase.queriesOn('page_regenerations', 'insert');
+    expect(reservation.values).toMatchObject({ attempt: 3 });
+    expect(result.regenerationsRemaining).toBe(1);
+  });
+
+  it('does not count failed attempts against the allowance', async () => {
+    supabase = createSupabaseMock(resolveRegenerations([
+      { attempt: 1, failed_at: FAILED_AT },
+      { attempt: 2, failed_at: FAILED_AT },
+      { attempt: 3, failed_at: null },
+    ]));
+    const { service } = createService();
+
+    await expect(service.getRegenerationsRemaining(BOOK_ID)).resolves.toBe(2);
+  });
+
+  it('refuses a regeneration once the allowance is used', async () => {
+    supabase = createSupabaseMock(resolveRegenerations([
+      { attempt: 1, failed_at: null },
+      { attempt: 2, failed_at: null },
+      { attempt: 3, failed_at: null },
+    ]));
+    const { service, imageService } = createService();
+
+    await expect(service.regeneratePage({ bookOrderId: BOOK_ID, storyPageId: 'page-1' }))
+      .rejects.toBeInstanceOf(RateLimitError);
+    expect(supabase.queriesOn('page_regenerations', 'insert')).toHaveLength(0);
+    expect(imageService.regenerateImage).not.toHaveBeenCalled();
+  });
+
+  it('marks a failed attempt instead of deleting it, so its number is never reused', async () => {
+    supabase = createSupabaseMock(resolveRegenerations([]));
+    const { service, imageService } = createService();
+    imageService.regenerateImage.mockRejectedValueOnce(new Error('Provider unavailable'));
+
+    await expect(service.regeneratePage({ bookOrderId: BOOK_ID, storyPageId: 'page-1' }))
+      .rejects.toThrow('Provider unavailable');
+
+    const [failed] = supabase.queriesOn('page_regenerations', 'update');
+    expect(failed.values.failed_at).toEqual(expect.any(String));
+    expect(hasFilter(failed, 'eq', 'id', 'regeneration-new')).toBe(true);
+    expect(supabase.queriesOn('page_regenerations', 'delete')).toHaveLength(0);
+  });
+});
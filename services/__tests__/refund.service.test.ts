@@ -0,0 +1,34 @@
+import { describe, expect, it } from '@jest/globals';
+import { isConfirmedPayment, REFUNDABLE_PAYMENT_STATUSES } from '../refund.service';
+
+describe('isConfirmedPayment', () => {
+  const confirmed = {
+    status: 'completed',
+    paid_at: '2025-11-17T10:00:00.000Z',
+    stripe_payment_intent_id: 'pi_123',
+  };
+
+  it('accepts a completed payment recorded with its charge', () => {
+    expect(isConfirmedPayment(confirmed)).toBe(true);
+  });
+
+  it('rejects a completed row without a paid_at, as a client-inserted row would be', () => {
+    expect(isConfirmedPayment({ ...confirmed, paid_at: null })).toBe(false);
+  });
+
+  it('rejects a completed row without a payment intent', () => {
+    expect(isConfirmedPayment({ ...confirmed, stripe_payment_intent_id: null })).toBe(false);
+  });
+
+  it('rejects a pending payment', () => {
+    expect(isConfirmedPayment({ ...confirmed, status: 'pending' })).toBe(false);
+  });
+
+  it('only counts the statuses it is given', () => {
+    const partlyRefunded = { ...confirmed, status: 'partially-refunded' };
+
+    expect(isConfirmedPayment(partlyRefunded)).toBe(false);
+    expect(isConfirmedPayment(partlyRefunded, REFUNDABLE_PAYMENT_STATUSES)).toBe(true);
+    expect(isConfirmedPayment({ ...confirmed, status: 'refunded' }, REFUNDABLE_PAYMENT_STATUSES)).toBe(false);
+  });
+});
@@ -0,0 +1,170 @@
+import { createClient } from '@supabase/supabase-js';
+import { BookProgressService } from './bookProgress.service';
+import { RefundService } from './refund.service';
+import { NarrationService } from './narration.service';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { BookStatus } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// Everything except a finished book can be cancelled, including one that failed or is on hold
+export const CANCELLABLE_STATUSES: BookStatus[] = [
+  'draft',
+  'processing',
+  'generating-story',
+  'story-review',
+  'generating-images',
+  'creating-pdf',
+  'content-review',
+  'failed',
+];
+
+export interface CancelBookResult {
+  bookOrderId: string;
+  bookStatus: 'cancelled';
+  // True when a completed payment was marked for refund
+  refundPending: boolean;
+}
+
+/**
+ * Customer cancellation of a book that isn't finished yet
+ *
+ * Only the status changes here; a pipeline run that is still going notices it
+ * between steps and pages (BookPipeline checks isCancelled), stops, and clears
+ * anything it wrote after the cancellation.
+ */
+export class BookCancellationService {
+  constructor(
+    private progressService: BookProgressService = new BookProgressService(),
+    private refundService: RefundService = new RefundService(),
+    private narrationService: NarrationService = new NarrationService()
+  ) {}
+
+  async cancel(bookOrderId: string): Promise<CancelBookResult> {
+    const supabase = getSupabase();
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('id, status')
+      .eq('id', bookOrderId)
+      .single();
+
+    if (!bookOrder) {
+      throw new NotFoundError('Book');
+    }
+
+    if (!CANCELLABLE_STATUSES.includes(bookOrder.status)) {
+      throw new ValidationError(`A ${bookOrder.status} book cannot be cancelled`);
+    }
+
+    // Guarded on the status we read so a book that completes meanwhile stays completed
+    const { data: cancelled, error } = await supabase
+      .from('book_orders')
+      .update({
+        status: 'cancelled',
+        error_message: 'Cancelled by customer',
+        next_recovery_at: null,
+      })
+      .eq('id', bookOrderId)
+      .eq('status', bookOrder.status)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to cancel book: ${error.message}`);
+    }
+
+    if (!cancelled || cancelled.length === 0) {
+      throw new ValidationError('The book changed while cancelling; please try again');
+    }
+
+    console.log(`[book-cancellation] Cancelled book ${bookOrderId} (was ${bookOrder.status})`);
+
+    // Nothing left for staff to review
+    await supabase
+      .from('moderation_reviews')
+      .update({
+        review_status: 'rejected',
+        reviewer_notes: 'Book cancelled by customer',
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('book_order_id', bookOrderId)
+      .eq('review_status', 'pending');
+
+    await this.removeArtefacts(bookOrderId);
+
+    const { data: refundable } = await supabase
+      .from('payments')
+      .update({ status: 'refund-pending' })
+      .eq('book_order_id', bookOrderId)
+      .eq('status', 'completed')
+      .select('id');
+
+    if (refundable && refundable.length > 0) {
+      await this.refundService.refundBookQuietly(bookOrderId, 'Cancelled by customer');
+    }
+
+    await this.progressService.record(bookOrderId, {
+      eventType: 'cancelled',
+      message: 'Book cancelled',
+    });
+
+    return {
+      bookOrderId,
+      bookStatus: 'cancelled',
+      refundPending: (refundable?.length || 0) > 0,
+    };
+  }
+
+  async isCancelled(bookOrderId: string): Promise<boolean> {
+    const { data } = await getSupabase()
+      .from('book_orders')
+      .select('status')
+      .eq('id', bookOrderId)
+      .single();
+
+    return data?.status === 'cancelled';
+  }
+
+  /**
+   * Deletes the illustrations and PDF made so far; the story text is small and kept for support
+   */
+  async removeArtefacts(bookOrderId: string): Promise<void> {
+    const supabase = getSupabase();
+
+    const { data: imageFiles } = await supabase.storage
+      .from('generated-images')
+      .list(bookOrderId);
+
+    if (imageFiles && imageFiles.length > 0) {
+      await supabase.storage
+        .from('generated-images')
+        .remove(imageFiles.map((file) => `${bookOrderId}/${file.name}`));
+    }
+
+    // book.pdf, book.epub and the print files
+    const { data: pdfFiles } = await supabase.storage
+      .from('generated-pdfs')
+      .list(bookOrderId);
+
+    if (pdfFiles && pdfFiles.length > 0) {
+      await supabase.storage
+        .from('generated-pdfs')
+        .remove(pdfFiles.map((file) => `${bookOrderId}/${file.name}`));
+    }
+
+    await this.narrationService.removeNarration(bookOrderId);
+
+    await supabase.from('generated_images').delete().eq('book_order_id', bookOrderId);
+    await supabase.from('generated_pdfs').delete().eq('book_order_id', bookOrderId);
+
+    console.log(`[book-cancellation] Removed generated files for book ${bookOrderId}`);
+  }
+}
+
+export const bookCancellationService = new BookCancellationService();
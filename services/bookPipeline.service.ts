@@ -0,0 +1,705 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { StoryGenerationService } from './storyGeneration.service';
+import { ImageGenerationService } from './imageGeneration.service';
+import { PDFGenerationService } from './pdfGeneration.service';
+import { ContentModerationService } from './contentModeration.service';
+import { BookProgressService, estimateRemainingSeconds, ProgressUpdate, RemainingWork } from './bookProgress.service';
+import { BookCancellationService } from './bookCancellation.service';
+import { ConfirmablePayment, isConfirmedPayment, REFUNDABLE_PAYMENT_STATUSES, RefundService } from './refund.service';
+import { NarrationService } from './narration.service';
+import { StuckBookSweeper } from './stuckBookSweeper.service';
+import {
+  findMissingImagePageNumbers,
+  FRONT_COVER_PAGE_NUMBER,
+  getBackCoverPageNumber,
+  getTotalImageCount,
+  resolveStoryPageCount,
+} from '@/lib/bookPages';
+import { acquireBookLease, BookLease, BookLockStore } from '@/lib/bookLock';
+import { AppError, BookCancelledError } from '@/lib/errors';
+import type { BookStatus } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+export const BOOK_PIPELINE_STEPS = [
+  'story',
+  'story-moderation',
+  'story-review',
+  'images',
+  'image-moderation',
+  'narration',
+  'pdf',
+  'complete',
+] as const;
+
+export type BookPipelineStep = typeof BOOK_PIPELINE_STEPS[number];
+
+export interface StepCheckpoint {
+  completedAt: string;
+  // Seconds the step took on the run that last did its work
+  durationSeconds: number;
+}
+
+// book_orders.pipeline_checkpoints
+export type PipelineCheckpoints = Partial<Record<BookPipelineStep, StepCheckpoint>>;
+
+// Statuses the pipeline can be (re)started from; anything else is a pause or an end state
+export const RESUMABLE_STATUSES: BookStatus[] = [
+  'processing',
+  'generating-story',
+  'generating-images',
+  'creating-pdf',
+];
+
+export interface BookPipelineResult {
+  success: true;
+  bookOrderId: string;
+  // Absent when another runner holds the book
+  status?: BookStatus;
+  storyId?: string;
+  pdfId?: string;
+  // The step the book stopped at when it was paused for a person
+  pausedAt?: BookPipelineStep;
+  // Another runner holds (or took over) the book's processing lease
+  alreadyRunning?: boolean;
+}
+
+export interface RunBookPipelineOptions {
+  // Called with 0-100 as steps finish (the worker forwards this to job.updateProgress)
+  onProgress?: (percent: number) => void | Promise<void>;
+}
+
+interface PipelineContext {
+  supabase: SupabaseClient;
+  bookOrderId: string;
+  lease: BookLease;
+  bookOrder: any;
+  // version: full_story_json.version, raised by every parent edit
+  story: { id: string; title: string; pages: any[]; version?: number } | null;
+  pdfId?: string;
+  onProgress?: RunBookPipelineOptions['onProgress'];
+  // What is left to do, for the time remaining estimate
+  remaining: RemainingWork;
+  // Progress bar position of the last event, kept for pauses
+  percent: number;
+}
+
+// A step either finishes (so the next one runs) or parks the book in a status until a person acts;
+// `skipped` means its work had already been done on an earlier run
+type StepOutcome = { done: true; skipped?: boolean } | { done: false; status: BookStatus };
+
+const PROGRESS_AFTER_STEP: Record<BookPipelineStep, number> = {
+  'story': 30,
+  'story-moderation': 35,
+  'story-review': 40,
+  'images': 70,
+  'image-moderation': 75,
+  'narration': 80,
+  'pdf': 95,
+  'complete': 100,
+};
+
+// The illustrations fill the progress bar between the story review and image moderation
+const IMAGES_START_PERCENT = PROGRESS_AFTER_STEP['story-review'];
+const IMAGES_END_PERCENT = PROGRESS_AFTER_STEP['images'];
+
+const STEP_COMPLETED_MESSAGES: Partial<Record<BookPipelineStep, string>> = {
+  'story': 'Story written',
+  'images': 'All illustrations finished',
+  'pdf': 'Book assembled',
+  'narration': 'Narration recorded',
+};
+
+const PAUSE_MESSAGES: Partial<Record<BookStatus, string>> = {
+  'story-review': 'Waiting for you to review the story',
+  'content-review': 'Our team is reviewing the book before we carry on',
+};
+
+/**
+ * Paid, and not refunded in full
+ */
+function isPaidFor(bookOrder: { payments?: ConfirmablePayment[] | null }): boolean {
+  return !!bookOrder.payments?.some((payment) => isConfirmedPayment(payment, REFUNDABLE_PAYMENT_STATUSES));
+}
+
+/**
+ * Errors a retry can't fix, such as bad input or missing data; anything else
+ * (a provider 5xx, a timeout) is retried with backoff before the book fails
+ */
+function isPermanentError(error: unknown): boolean {
+  return error instanceof AppError && error.statusCode >= 400 && error.statusCode < 500 && error.statusCode !== 429;
+}
+
+/**
+ * Book generation pipeline shared by the BullMQ worker, the cron job and the
+ * HTTP triggers
+ *
+ * Every step checks the data it produces before doing any work, so running the
+ * pipeline again on a book resumes it where it stopped. Completed steps are
+ * also written to book_orders.pipeline_checkpoints; the checkpoints record
+ * progress but never skip a step whose data has since been removed (e.g. a
+ * story rejected in moderation review).
+ *
+ * Only one runner works on a book at a time: run() holds a lease on the book
+ * (see lib/bookLock.ts) and returns straight away if someone else has it.
+ *
+ * A cancelled book is noticed between steps and between illustrations; the run
+ * stops there and removes whatever it produced after the cancellation.
+ */
+export class BookPipeline {
+  constructor(
+    private storyService: StoryGenerationService = new StoryGenerationService(),
+    private imageService: ImageGenerationService = new ImageGenerationService(),
+    private pdfService: PDFGenerationService = new PDFGenerationService(),
+    private moderationService: ContentModerationService = new ContentModerationService(),
+    private lockStore?: BookLockStore,
+    private progressService: BookProgressService = new BookProgressService(),
+    private cancellationService: BookCancellationService = new BookCancellationService(),
+    private refundService: RefundService = new RefundService(),
+    private narrationService: NarrationService = new NarrationService(),
+    private sweeper: StuckBookSweeper = new StuckBookSweeper()
+  ) {}
+
+  async run(bookOrderId: string, options: RunBookPipelineOptions = {}): Promise<BookPipelineResult> {
+    const lease = await acquireBookLease(bookOrderId, this.lockStore);
+
+    if (!lease) {
+      console.log(`[book-pipeline] Book is already being processed by another runner, skipping: ${bookOrderId}`);
+      return { success: true, bookOrderId, alreadyRunning: true };
+    }
+
+    try {
+      return await this.process(bookOrderId, lease, options);
+    } finally {
+      await lease.release();
+    }
+  }
+
+  private async process(bookOrderId: string, lease: BookLease, options: RunBookPipelineOptions): Promise<BookPipelineResult> {
+    const supabase = getSupabase();
+
+    try {
+      console.log(`[book-pipeline] Starting processing for book: ${bookOrderId}`);
+
+      const { data: bookOrder, error: fetchError } = await supabase
+        .from('book_orders')
+        .select(`
+          *,
+          template:story_templates(*),
+          pets:book_pets(*),
+          payments(product_tier, status, paid_at, stripe_payment_intent_id)
+        `)
+        .eq('id', bookOrderId)
+        .single();
+
+      if (fetchError || !bookOrder) {
+        throw new Error(`Failed to fetch book order: ${fetchError?.message}`);
+      }
+
+      console.log(`[book-pipeline] Current status: ${bookOrder.status}`);
+
+      if (bookOrder.status === 'cancelled') {
+        console.log(`[book-pipeline] Book was cancelled, nothing to do: ${bookOrderId}`);
+        return { success: true, bookOrderId, status: 'cancelled' };
+      }
+
+      // A failed book has already been refunded (or is being), so a queue retry
+      // of the run that failed it must not finish it. Transient errors never
+      // get here: they leave the book in its status for a retry with backoff
+      if (bookOrder.status === 'failed') {
+        console.log(`[book-pipeline] Book has failed, nothing to do until it is retried: ${bookOrderId}`);
+        return { success: true, bookOrderId, status: 'failed' };
+      }
+
+      // Owners can set their own book's status, so a resumable status doesn't
+      // prove it was paid for
+      if (!isPaidFor(bookOrder)) {
+        console.warn(`[book-pipeline] Book has no payment that isn't refunded, not processing: ${bookOrderId}`);
+        return { success: true, bookOrderId, status: bookOrder.status };
+      }
+
+      if (!bookOrder.processing_started_at) {
+        await supabase
+          .from('book_orders')
+          .update({ processing_started_at: new Date().toISOString() })
+          .eq('id', bookOrderId);
+      }
+
+      const context: PipelineContext = {
+        supabase,
+        bookOrderId,
+        lease,
+        bookOrder,
+        story: null,
+        onProgress: options.onProgress,
+        // Refined as steps find out what already exists
+        remaining: {
+          storyPending: true,
+          imagesRemaining: getTotalImageCount(this.getStoryPageCount(bookOrder)),
+          pdfPending: true,
+        },
+        percent: 0,
+      };
+      const checkpoints: PipelineCheckpoints = { ...(bookOrder.pipeline_checkpoints || {}) };
+
+      for (const step of BOOK_PIPELINE_STEPS) {
+        if (lease.lost) {
+          console.warn(`[book-pipeline] Lease lost before ${step}, leaving the book to its new runner: ${bookOrderId}`);
+          return { success: true, bookOrderId, storyId: context.story?.id, alreadyRunning: true };
+        }
+
+        if (await this.cancellationService.isCancelled(bookOrderId)) {
+          throw new BookCancelledError(bookOrderId);
+        }
+
+        const startedAt = Date.now();
+        const outcome = await this.runStep(step, context);
+
+        if (!outcome.done) {
+          console.log(`[book-pipeline] Paused at ${step} in ${outcome.status}: ${bookOrderId}`);
+          await supabase
+            .from('book_orders')
+            .update({ status: outcome.status })
+            .eq('id', bookOrderId)
+            .neq('status', 'cancelled');
+
+          await this.report(context, {
+            eventType: 'paused',
+            step,
+            percent: context.percent,
+            message: PAUSE_MESSAGES[outcome.status] || 'Paused',
+          });
+
+          return {
+            success: true,
+            bookOrderId,
+            status: outcome.status,
+            storyId: context.story?.id,
+            pausedAt: step,
+          };
+        }
+
+        if (!outcome.skipped && STEP_COMPLETED_MESSAGES[step]) {
+          await this.report(context, {
+            eventType: 'step-completed',
+            step,
+            percent: PROGRESS_AFTER_STEP[step],
+            message: STEP_COMPLETED_MESSAGES[step]!,
+          });
+        }
+
+        if (!checkpoints[step] || !outcome.skipped) {
+          checkpoints[step] = {
+            completedAt: new Date().toISOString(),
+            durationSeconds: Math.round((Date.now() - startedAt) / 1000),
+          };
+          await supabase
+            .from('book_orders')
+            .update({ pipeline_checkpoints: checkpoints, last_progress_at: new Date().toISOString() })
+            .eq('id', bookOrderId);
+        }
+
+        await options.onProgress?.(PROGRESS_AFTER_STEP[step]);
+      }
+
+      console.log(`[book-pipeline] Book processing completed for: ${bookOrderId}`);
+
+      return {
+        success: true,
+        bookOrderId,
+        status: 'completed',
+        storyId: context.story?.id,
+        pdfId: context.pdfId,
+      };
+    } catch (error: any) {
+      // The book's new runner carries on from here; nothing to clean up or fail
+      if (lease.lost) {
+        console.warn(`[book-pipeline] Lease lost during processing, leaving the book to its new runner: ${bookOrderId}`);
+        return { success: true, bookOrderId, alreadyRunning: true };
+      }
+
+      if (error instanceof BookCancelledError) {
+        console.log(`[book-pipeline] Book was cancelled during processing, stopping: ${bookOrderId}`);
+        await this.cancellationService.removeArtefacts(bookOrderId);
+        return { success: true, bookOrderId, status: 'cancelled' };
+      }
+
+      console.error(`[book-pipeline] Book processing failed:`, error);
+
+      if (!isPermanentError(error)) {
+        // Stays in its pipeline status; the cron job retries it after a backoff,
+        // and only a book out of retries is failed and refunded
+        await this.sweeper.retryAfterError(bookOrderId, error.message || 'Unknown error occurred');
+        throw error;
+      }
+
+      const { data: failed } = await supabase
+        .from('book_orders')
+        .update({
+          status: 'failed',
+          error_message: error.message || 'Unknown error occurred',
+        })
+        .eq('id', bookOrderId)
+        .neq('status', 'cancelled')
+        .select('id');
+
+      await this.progressService.record(bookOrderId, {
+        eventType: 'failed',
+        message: 'Something went wrong while creating the book',
+      });
+
+      if (failed && failed.length > 0) {
+        await this.refundService.refundBookQuietly(bookOrderId, 'Book generation failed');
+      }
+
+      throw error;
+    }
+  }
+
+  private runStep(step: BookPipelineStep, context: PipelineContext): Promise<StepOutcome> {
+    switch (step) {
+      case 'story':
+        return this.generateStory(context);
+      case 'story-moderation':
+        return this.moderateStory(context);
+      case 'story-review':
+        return this.awaitStoryReview(context);
+      case 'images':
+        return this.generateImages(context);
+      case 'image-moderation':
+        return this.awaitImageReviews(context);
+      case 'narration':
+        return this.narrate(context);
+      case 'pdf':
+        return this.createPdf(context);
+      case 'complete':
+        return this.markCompleted(context);
+    }
+  }
+
+  /**
+   * Records a progress event with a fresh time remaining estimate
+   */
+  private async report(context: PipelineContext, update: Omit<ProgressUpdate, 'etaSeconds'>): Promise<void> {
+    if (update.percent !== undefined) {
+      context.percent = update.percent;
+    }
+
+    await this.progressService.record(context.bookOrderId, {
+      ...update,
+      etaSeconds: estimateRemainingSeconds(context.remaining),
+    });
+  }
+
+  private getStoryPageCount(bookOrder: any): number {
+    const paidTier = bookOrder.payments?.find((p: any) => isConfirmedPayment(p))?.product_tier;
+    return resolveStoryPageCount({
+      templatePageCount: bookOrder.template?.page_count,
+      productTier: paidTier,
+    });
+  }
+
+  /**
+   * Status changes count as progress for the stuck-book sweeper
+   * A cancellation is never overwritten; the next check stops the run
+   */
+  private async setStatus(context: PipelineContext, status: BookStatus): Promise<void> {
+    await context.supabase
+      .from('book_orders')
+      .update({ status, last_progress_at: new Date().toISOString() })
+      .eq('id', context.bookOrderId)
+      .neq('status', 'cancelled');
+  }
+
+  private async generateStory(context: PipelineContext): Promise<StepOutcome> {
+    const { supabase, bookOrderId, bookOrder } = context;
+
+    const { data: existingStory } = await supabase
+      .from('generated_stories')
+      .select('id, title, full_story_json')
+      .eq('book_order_id', bookOrderId)
+      .maybeSingle();
+
+    if (existingStory) {
+      console.log(`[book-pipeline] Story already exists, skipping...`);
+
+      const { data: storyPages } = await supabase
+        .from('story_pages')
+        .select('*')
+        .eq('story_id', existingStory.id)
+        .order('page_number', { ascending: true });
+
+      context.story = {
+        id: existingStory.id,
+        title: existingStory.title,
+        pages: storyPages || [],
+        version: existingStory.full_story_json?.version || 0,
+      };
+      context.remaining.storyPending = false;
+      return { done: true, skipped: true };
+    }
+
+    console.log(`[book-pipeline] Generating story for ${bookOrder.child_first_name}...`);
+    await this.setStatus(context, 'generating-story');
+    await this.report(context, { eventType: 'step-started', step: 'story', percent: 5, message: 'Writing the story' });
+
+    context.story = await this.storyService.generateStory({
+      bookOrderId,
+      templateId: bookOrder.template_id,
+      childFirstName: bookOrder.child_first_name,
+      childAge: bookOrder.child_age,
+      childGender: bookOrder.child_gender,
+      favouriteColours: bookOrder.favourite_colours || [],
+      interests: bookOrder.interests || [],
+      personalityTraits: bookOrder.personality_traits || [],
+      customPrompt: bookOrder.custom_story_prompt,
+      pets: bookOrder.pets || [],
+      pageCount: this.getStoryPageCount(bookOrder),
+    });
+
+    console.log(`[book-pipeline] Story generated: ${context.story?.title || 'Unknown'}`);
+    context.remaining.storyPending = false;
+    return { done: true };
+  }
+
+  /**
+   * Moderates each version of the story text once and holds it for a person if needed
+   */
+  private async moderateStory(context: PipelineContext): Promise<StepOutcome> {
+    const story = context.story!;
+    // Owners can mark their own book approved and processing without going
+    // through StoryEditingService.approveStory, so edited text is rescored here
+    let reviewState = await this.moderationService.getStoryReviewState(story.id, story.version);
+
+    if (!reviewState) {
+      console.log(`[book-pipeline] Moderating story text...`);
+      const moderation = await this.moderationService.moderateStory({
+        bookOrderId: context.bookOrderId,
+        storyId: story.id,
+        title: story.title,
+        pages: story.pages,
+        version: story.version,
+      });
+      reviewState = { reviewRequired: moderation.reviewRequired };
+    }
+
+    return reviewState.reviewRequired ? { done: false, status: 'content-review' } : { done: true, skipped: true };
+  }
+
+  /**
+   * Parents who asked to check the story get to edit it before any illustration is drawn
+   */
+  private async awaitStoryReview(context: PipelineContext): Promise<StepOutcome> {
+    const { bookOrder } = context;
+
+    if (bookOrder.review_story_before_illustration && !bookOrder.story_approved_at) {
+      return { done: false, status: 'story-review' };
+    }
+
+    return { done: true, skipped: true };
+  }
+
+  /**
+   * Generates the missing images (covers + pages) in ONE conversation for consistency
+   */
+  private async generateImages(context: PipelineContext): Promise<StepOutcome> {
+    const { supabase, bookOrderId, bookOrder } = context;
+    const story = context.story!;
+
+    const { data: storyPages } = await supabase
+      .from('story_pages')
+      .select('id, page_number')
+      .eq('story_id', story.id);
+
+    const { data: existingImages } = await supabase
+      .from('generated_images')
+      .select('id, page_number, story_page_id')
+      .eq('book_order_id', bookOrderId);
+
+    const storyPageCount = storyPages?.length || 0;
+    const totalImages = getTotalImageCount(storyPageCount);
+    const images = existingImages || [];
+    const missingPageNumbers = findMissingImagePageNumbers(storyPages || [], images);
+
+    console.log(`[book-pipeline] Images: ${totalImages - missingPageNumbers.length}/${totalImages}`);
+    context.remaining.imagesRemaining = missingPageNumbers.length;
+
+    if (missingPageNumbers.length === 0) {
+      console.log(`[book-pipeline] All images already exist, skipping...`);
+      return { done: true, skipped: true };
+    }
+
+    // Only the missing page numbers are generated; existing images are kept
+    console.log(`[book-pipeline] Generating images in conversation for page numbers: ${missingPageNumbers.join(', ')}`);
+    await this.setStatus(context, 'generating-images');
+    await this.report(context, {
+      eventType: 'step-started',
+      step: 'images',
+      pagesCompleted: totalImages - missingPageNumbers.length,
+      pagesTotal: totalImages,
+      percent: this.getImagesPercent(totalImages - missingPageNumbers.length, totalImages),
+      message: `Drawing ${missingPageNumbers.length} illustration${missingPageNumbers.length === 1 ? '' : 's'}`,
+    });
+
+    const imagesStartedAt = Date.now();
+    let imagesDrawn = 0;
+
+    const generatedImages = await this.imageService.generateImagesForStory({
+      storyId: story.id,
+      bookOrderId,
+      pages: story.pages,
+      illustrationStyle: bookOrder.illustration_style,
+      childFirstName: bookOrder.child_first_name,
+      storyTitle: story.title,
+      generateCovers: true, // Generate covers in same conversation
+      // Checked before every illustration: a runner that has lost its lease must not keep drawing
+      // and uploading pages alongside the book's new runner
+      shouldStop: async () => context.lease.lost || this.cancellationService.isCancelled(bookOrderId),
+      onProgress: async (event) => {
+        const pageLabel = this.getPageLabel(event.pageNumber, storyPageCount);
+
+        if (event.type === 'image-retry') {
+          await this.report(context, {
+            eventType: 'retry',
+            step: 'images',
+            pageNumber: event.pageNumber,
+            message: `Redrawing the ${pageLabel} after a safety check (${event.retryCount} of ${event.retryBudget})`,
+          });
+          return;
+        }
+
+        imagesDrawn++;
+        context.remaining.imagesRemaining = event.total - event.completed;
+        context.remaining.secondsPerImage = (Date.now() - imagesStartedAt) / 1000 / imagesDrawn;
+
+        const percent = this.getImagesPercent(event.completed, event.total);
+        await this.report(context, {
+          eventType: 'page-completed',
+          step: 'images',
+          pageNumber: event.pageNumber,
+          pagesCompleted: event.completed,
+          pagesTotal: event.total,
+          percent,
+          message: `Finished the ${pageLabel} (${event.completed} of ${event.total})`,
+        });
+        await context.onProgress?.(percent);
+      },
+    });
+
+    console.log(`[book-pipeline] ✓ ${generatedImages.length} missing image(s) generated with conversation consistency`);
+    return { done: true };
+  }
+
+  private getImagesPercent(completed: number, total: number): number {
+    const share = total > 0 ? completed / total : 1;
+    return Math.round(IMAGES_START_PERCENT + (IMAGES_END_PERCENT - IMAGES_START_PERCENT) * share);
+  }
+
+  private getPageLabel(pageNumber: number, storyPageCount: number): string {
+    if (pageNumber === FRONT_COVER_PAGE_NUMBER) {
+      return 'front cover';
+    }
+    return pageNumber === getBackCoverPageNumber(storyPageCount) ? 'back cover' : `page ${pageNumber}`;
+  }
+
+  /**
+   * Images that kept failing moderation wait for a human before the PDF is built
+   */
+  private async awaitImageReviews(context: PipelineContext): Promise<StepOutcome> {
+    if (await this.moderationService.hasPendingReviews(context.bookOrderId)) {
+      return { done: false, status: 'content-review' };
+    }
+
+    return { done: true, skipped: true };
+  }
+
+  /**
+   * Records read-aloud narration before the PDF step, so the EPUB can carry it
+   * as media overlays. The book is complete without it, so a failure is logged
+   * rather than failing the book; those pages get estimated word timings and
+   * the viewer reads along to those instead
+   */
+  private async narrate(context: PipelineContext): Promise<StepOutcome> {
+    const story = context.story!;
+
+    if (story.pages.length > 0 && story.pages.every((page: any) => page.narration_audio_url)) {
+      console.log(`[book-pipeline] Narration already exists, skipping...`);
+      return { done: true, skipped: true };
+    }
+
+    await this.report(context, { eventType: 'step-started', step: 'narration', percent: PROGRESS_AFTER_STEP['image-moderation'], message: 'Recording the narration' });
+
+    try {
+      await this.narrationService.narrateBook(context.bookOrderId, story.id);
+    } catch (error) {
+      console.error(`[book-pipeline] Narration failed, finishing the book without it:`, error);
+    }
+
+    await this.narrationService.estimateMissingWordTimings(story.id, context.bookOrder.child_age);
+    return { done: true };
+  }
+
+  private async createPdf(context: PipelineContext): Promise<StepOutcome> {
+    const { supabase, bookOrderId, bookOrder } = context;
+    const story = context.story!;
+
+    const { data: existingPdf } = await supabase
+      .from('generated_pdfs')
+      .select('id')
+      .eq('book_order_id', bookOrderId)
+      .maybeSingle();
+
+    if (existingPdf) {
+      console.log(`[book-pipeline] PDF already exists, skipping...`);
+      context.pdfId = existingPdf.id;
+      context.remaining.pdfPending = false;
+      return { done: true, skipped: true };
+    }
+
+    console.log(`[book-pipeline] Creating PDF...`);
+    await this.setStatus(context, 'creating-pdf');
+    await this.report(context, { eventType: 'step-started', step: 'pdf', percent: PROGRESS_AFTER_STEP['narration'], message: 'Assembling your book' });
+
+    const { data: allImages } = await supabase
+      .from('generated_images')
+      .select('*')
+      .eq('book_order_id', bookOrderId)
+      .order('page_number', { ascending: true });
+
+    const pdfResult = await this.pdfService.generatePDF({
+      bookOrderId,
+      storyId: story.id,
+      title: bookOrder.template?.title || `${bookOrder.child_first_name}'s Story`,
+      pages: story.pages,
+      images: allImages || [],
+    });
+
+    console.log(`[book-pipeline] PDF generated: ${pdfResult.id}`);
+    context.pdfId = pdfResult.id;
+    context.remaining.pdfPending = false;
+    return { done: true };
+  }
+
+  private async markCompleted(context: PipelineContext): Promise<StepOutcome> {
+    await context.supabase
+      .from('book_orders')
+      .update({
+        status: 'completed',
+        processing_completed_at: new Date().toISOString(),
+        error_message: null,
+      })
+      .eq('id', context.bookOrderId)
+      .neq('status', 'cancelled');
+
+    await this.report(context, { eventType: 'completed', step: 'complete', percent: 100, message: 'Your book is ready' });
+    return { done: true };
+  }
+}
+
+export const bookPipeline = new BookPipeline();
@@ -0,0 +1,78 @@
+import { createClient } from '@supabase/supabase-js';
+import type { BookProgressEventType } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// Typical durations, used until a run has timed its own illustrations
+const ESTIMATED_STORY_SECONDS = 60;
+const ESTIMATED_SECONDS_PER_IMAGE = 30;
+const ESTIMATED_PDF_SECONDS = 30;
+
+export interface ProgressUpdate {
+  eventType: BookProgressEventType;
+  step?: string;
+  pageNumber?: number;
+  pagesCompleted?: number;
+  pagesTotal?: number;
+  // 0-100; left out when the event doesn't move the progress bar
+  percent?: number;
+  etaSeconds?: number;
+  message: string;
+}
+
+export interface RemainingWork {
+  storyPending: boolean;
+  imagesRemaining: number;
+  pdfPending: boolean;
+  // Measured on the current run once at least one image has been drawn
+  secondsPerImage?: number;
+}
+
+/**
+ * Seconds until a book is finished, given the work it has left
+ */
+export function estimateRemainingSeconds(work: RemainingWork): number {
+  const secondsPerImage = work.secondsPerImage || ESTIMATED_SECONDS_PER_IMAGE;
+
+  return Math.round(
+    (work.storyPending ? ESTIMATED_STORY_SECONDS : 0)
+    + work.imagesRemaining * secondsPerImage
+    + (work.pdfPending ? ESTIMATED_PDF_SECONDS : 0)
+  );
+}
+
+/**
+ * Writes book_progress_events, which the status page follows over Supabase realtime
+ */
+export class BookProgressService {
+  /**
+   * Progress is informational only: a failed write is logged and never stops the caller
+   */
+  async record(bookOrderId: string, update: ProgressUpdate): Promise<void> {
+    const { error } = await getSupabase()
+      .from('book_progress_events')
+      .insert({
+        book_order_id: bookOrderId,
+        event_type: update.eventType,
+        step: update.step ?? null,
+        page_number: update.pageNumber ?? null,
+        pages_completed: update.pagesCompleted ?? null,
+        pages_total: update.pagesTotal ?? null,
+        percent: update.percent ?? null,
+        eta_seconds: update.etaSeconds ?? null,
+        message: update.message,
+      });
+
+    if (error) {
+      console.error(`[book-progress] Failed to record ${update.eventType} for book ${bookOrderId}:`, error.message);
+    }
+  }
+}
+
+export const bookProgressService = new BookProgressService();
@@ -0,0 +1,370 @@
+import { createClient } from '@supabase/supabase-js';
+import { randomBytes } from 'crypto';
+import { buildViewerPages, ViewerPage } from '@/lib/bookPages';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { DEFAULT_SIGNED_URL_TTL_SECONDS, signViewerPages } from '@/lib/storage';
+import type { BookShare, BookShareUnavailableReason } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// Links created without an expiry stop working after this long
+const DEFAULT_SHARE_EXPIRY_DAYS = 30;
+
+// Concurrent visits can race for the last view under a limit; each retry re-reads the count
+const VIEW_CLAIM_ATTEMPTS = 3;
+
+export interface CreateShareParams {
+  bookOrderId: string;
+  userId: string;
+  label?: string;
+  // Leave out for the default expiry; null never expires
+  expiresAt?: string | null;
+  maxViews?: number | null;
+}
+
+export interface UpdateShareParams {
+  shareId: string;
+  bookOrderId: string;
+  userId: string;
+  expiresAt?: string | null;
+  maxViews?: number | null;
+}
+
+export interface ShareViewer {
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export type OpenShareResult =
+  | { available: true; share: BookShare; title: string; childName: string; pages: ViewerPage[] }
+  | { available: false; reason: BookShareUnavailableReason };
+
+/**
+ * Public address of a share link, on NEXT_PUBLIC_APP_URL or else the given origin
+ */
+export function getShareUrl(token: string, origin?: string): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || origin;
+  if (!appUrl) {
+    throw new Error('NEXT_PUBLIC_APP_URL must be set to build share links');
+  }
+  return `${appUrl}/s/${token}`;
+}
+
+/**
+ * Read-only links to a finished book, for family without an account
+ *
+ * A link is an unguessable token on the book. Owners can create, list,
+ * re-time and revoke links, and optionally cap how many times one can be
+ * opened. The illustration and narration buckets are private, so a shared
+ * page only works for as long as its short-lived signed URLs, and every
+ * visit is written to audit_logs.
+ */
+export class BookSharingService {
+  async createShare(params: CreateShareParams): Promise<BookShare> {
+    const { bookOrderId, userId, label, maxViews } = params;
+    const supabase = getSupabase();
+
+    const bookOrder = await this.getOwnedBook(bookOrderId, userId);
+    if (bookOrder.status !== 'completed') {
+      throw new ValidationError('Only finished books can be shared');
+    }
+
+    const expiresAt = params.expiresAt === undefined
+      ? new Date(Date.now() + DEFAULT_SHARE_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+      : params.expiresAt;
+    this.validateExpiry(expiresAt);
+
+    const { data: share, error } = await supabase
+      .from('book_shares')
+      .insert({
+        book_order_id: bookOrderId,
+        created_by: userId,
+        token: randomBytes(24).toString('base64url'),
+        label: label || null,
+        expires_at: expiresAt,
+        max_views: maxViews ?? null,
+      })
+      .select()
+      .single();
+
+    if (error || !share) {
+      throw new Error(`Failed to create share link: ${error?.message}`);
+    }
+
+    await this.audit({ userId, action: 'book_share.create', shareId: share.id, result: 'created' });
+    console.log(`[book-sharing] Created share link ${share.id} for book ${bookOrderId}`);
+    return share;
+  }
+
+  /**
+   * A book's links, newest first, including revoked and expired ones
+   */
+  async listShares(bookOrderId: string, userId: string): Promise<BookShare[]> {
+    const supabase = getSupabase();
+    await this.getOwnedBook(bookOrderId, userId);
+
+    const { data: shares, error } = await supabase
+      .from('book_shares')
+      .select('*')
+      .eq('book_order_id', bookOrderId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to fetch share links: ${error.message}`);
+    }
+
+    return shares || [];
+  }
+
+  /**
+   * Changes a link's expiry or view limit; null removes either
+   */
+  async updateShare(params: UpdateShareParams): Promise<BookShare> {
+    const { shareId, bookOrderId, userId, expiresAt, maxViews } = params;
+    const supabase = getSupabase();
+
+    const share = await this.getOwnedShare(shareId, bookOrderId, userId);
+    if (share.revoked_at) {
+      throw new ValidationError('A revoked share link cannot be changed');
+    }
+
+    const updates: Record<string, any> = {};
+    if (expiresAt !== undefined) {
+      this.validateExpiry(expiresAt);
+      updates.expires_at = expiresAt;
+    }
+    if (maxViews !== undefined) {
+      updates.max_views = maxViews;
+    }
+
+    const { data: updated, error } = await supabase
+      .from('book_shares')
+      .update(updates)
+      .eq('id', share.id)
+      .select()
+      .single();
+
+    if (error || !updated) {
+      throw new Error(`Failed to update share link: ${error?.message}`);
+    }
+
+    await this.audit({ userId, action: 'book_share.update', shareId: share.id, result: 'updated' });
+    return updated;
+  }
+
+  async revokeShare(shareId: string, bookOrderId: string, userId: string): Promise<BookShare> {
+    const supabase = getSupabase();
+    const share = await this.getOwnedShare(shareId, bookOrderId, userId);
+
+    if (share.revoked_at) {
+      return share;
+    }
+
+    const { data: revoked, error } = await supabase
+      .from('book_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', share.id)
+      .select()
+      .single();
+
+    if (error || !revoked) {
+      throw new Error(`Failed to revoke share link: ${error?.message}`);
+    }
+
+    await this.audit({ userId, action: 'book_share.revoke', shareId: share.id, result: 'revoked' });
+    console.log(`[book-sharing] Revoked share link ${share.id} for book ${bookOrderId}`);
+    return revoked;
+  }
+
+  /**
+   * Opens a shared book for a visitor: checks the link, counts the view and
+   * returns the viewer pages with signed URLs
+   */
+  async openShare(token: string, viewer: ShareViewer = {}): Promise<OpenShareResult> {
+    const supabase = getSupabase();
+    let share: BookShare | null = null;
+    let reason: BookShareUnavailableReason | null = null;
+
+    for (let attempt = 0; attempt < VIEW_CLAIM_ATTEMPTS; attempt++) {
+      const { data } = await supabase
+        .from('book_shares')
+        .select('*')
+        .eq('token', token)
+        .maybeSingle();
+
+      if (!data) {
+        // Nothing to attach the visit to in audit_logs
+        return { available: false, reason: 'not-found' };
+      }
+
+      share = data as BookShare;
+      reason = this.getUnavailableReason(share);
+      if (reason) {
+        break;
+      }
+
+      // Claims this view, so a link at its limit can't be opened twice at once
+      const { data: claimed } = await supabase
+        .from('book_shares')
+        .update({ view_count: share.view_count + 1, last_viewed_at: new Date().toISOString() })
+        .eq('id', share.id)
+        .eq('view_count', share.view_count)
+        .is('revoked_at', null)
+        .select();
+
+      if (claimed && claimed.length > 0) {
+        share = claimed[0] as BookShare;
+        break;
+      }
+      reason = 'view-limit-reached';
+    }
+
+    const result = reason ? { available: false as const, reason } : await this.loadSharedBook(share!);
+
+    await this.audit({
+      action: 'book_share.view',
+      shareId: share!.id,
+      result: result.available ? 'allowed' : result.reason,
+      ...viewer,
+    });
+
+    return result;
+  }
+
+  private async loadSharedBook(share: BookShare): Promise<OpenShareResult> {
+    const supabase = getSupabase();
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('id, status, child_first_name, child_age, generated_story:generated_stories(id, title), gift:book_gifts(dedication)')
+      .eq('id', share.book_order_id)
+      .single();
+
+    // One-to-one, so PostgREST embeds the story as an object
+    const story: any = Array.isArray(bookOrder?.generated_story)
+      ? bookOrder?.generated_story[0]
+      : bookOrder?.generated_story;
+
+    // A finished book can still be cancelled and refunded later
+    if (!bookOrder || bookOrder.status !== 'completed' || !story) {
+      return { available: false, reason: 'book-unavailable' };
+    }
+
+    const [{ data: storyPages }, { data: images }] = await Promise.all([
+      supabase
+        .from('story_pages')
+        .select('*')
+        .eq('story_id', story.id)
+        .order('page_number', { ascending: true }),
+      supabase
+        .from('generated_images')
+        .select('*')
+        .eq('book_order_id', bookOrder.id)
+        .order('page_number', { ascending: true }),
+    ]);
+
+    const gift: any = Array.isArray(bookOrder.gift) ? bookOrder.gift[0] : bookOrder.gift;
+    const pages = buildViewerPages(storyPages || [], images || [], bookOrder.child_age, gift?.dedication);
+    const ttlSeconds = parseInt(process.env.SHARE_LINK_URL_TTL_SECONDS || '') || DEFAULT_SIGNED_URL_TTL_SECONDS;
+
+    return {
+      available: true,
+      share,
+      title: story.title || `${bookOrder.child_first_name}'s Story`,
+      childName: bookOrder.child_first_name,
+      pages: await signViewerPages(supabase, pages, ttlSeconds),
+    };
+  }
+
+  private getUnavailableReason(share: BookShare): BookShareUnavailableReason | null {
+    if (share.revoked_at) {
+      return 'revoked';
+    }
+    if (share.expires_at && new Date(share.expires_at).getTime() <= Date.now()) {
+      return 'expired';
+    }
+    if (share.max_views !== null && share.view_count >= share.max_views) {
+      return 'view-limit-reached';
+    }
+    return null;
+  }
+
+  private validateExpiry(expiresAt: string | null): void {
+    if (expiresAt && new Date(expiresAt).getTime() <= Date.now()) {
+      throw new ValidationError('The expiry must be in the future');
+    }
+  }
+
+  private async getOwnedBook(bookOrderId: string, userId: string): Promise<{ id: string; status: string }> {
+    const supabase = getSupabase();
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('id, status')
+      .eq('id', bookOrderId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!bookOrder) {
+      throw new NotFoundError('Book');
+    }
+
+    return bookOrder;
+  }
+
+  private async getOwnedShare(shareId: string, bookOrderId: string, userId: string): Promise<BookShare> {
+    const supabase = getSupabase();
+    await this.getOwnedBook(bookOrderId, userId);
+
+    const { data: share } = await supabase
+      .from('book_shares')
+      .select('*')
+      .eq('id', shareId)
+      .eq('book_order_id', bookOrderId)
+      .single();
+
+    if (!share) {
+      throw new NotFoundError('Share link');
+    }
+
+    return share;
+  }
+
+  /**
+   * Audit trail for share links; failures are logged, never thrown
+   */
+  private async audit(entry: {
+    userId?: string;
+    action: string;
+    shareId: string;
+    result: string;
+    ipAddress?: string | null;
+    userAgent?: string | null;
+  }): Promise<void> {
+    const supabase = getSupabase();
+
+    const { error } = await supabase
+      .from('audit_logs')
+      .insert({
+        user_id: entry.userId || null,
+        action: entry.action,
+        resource_type: 'book_share',
+        resource_id: entry.shareId,
+        ip_address: entry.ipAddress?.substring(0, 45) || null,
+        user_agent: entry.userAgent || null,
+        result: entry.result,
+      });
+
+    if (error) {
+      console.error(`[book-sharing] Failed to write audit log for ${entry.action}:`, error);
+    }
+  }
+}
+
+export const bookSharingService = new BookSharingService();
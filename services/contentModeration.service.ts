@@ -0,0 +1,272 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  getImageModerationClassifier,
+  getTextModerationClassifier,
+  ImageModerationClassifier,
+  ImageModerationInput,
+  MODERATION_CATEGORIES,
+  ModerationScores,
+  TextModerationClassifier,
+} from './providers/moderation.provider';
+import type { ModerationResult } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// A score at or above this flags the category
+const FLAG_THRESHOLD = 0.7;
+// Scores between this and FLAG_THRESHOLD pass but still need a human to look
+const REVIEW_THRESHOLD = 0.4;
+// Classifier results less certain than this always go to review
+const MIN_CONFIDENCE = 0.6;
+// Regeneration attempts allowed per image before it goes to manual review
+const DEFAULT_IMAGE_RETRY_BUDGET = 2;
+
+export const STORY_TEXT_REVIEW_TYPE = 'story-text';
+export const IMAGE_REVIEW_TYPE = 'image';
+
+export type ModerationReviewStatus = 'pending' | 'approved' | 'rejected' | 'auto-approved';
+
+export interface PageModerationScore {
+  pageNumber: number;
+  scores: ModerationScores;
+  confidence: number;
+}
+
+export interface StoryModerationResult extends ModerationResult {
+  pages: PageModerationScore[];
+  model: string;
+}
+
+export interface ImageModerationResult extends ModerationResult {
+  scores: ModerationScores;
+  model: string;
+}
+
+interface ModerateStoryParams {
+  bookOrderId: string;
+  storyId: string;
+  title: string;
+  pages: { pageNumber?: number; page_number?: number; text?: string; page_text?: string }[];
+  // full_story_json.version of the text being scored; 0 for the AI text
+  version?: number;
+}
+
+export class ContentModerationService {
+  constructor(
+    private classifier?: TextModerationClassifier,
+    private imageClassifier?: ImageModerationClassifier
+  ) {}
+
+  private getClassifier(): TextModerationClassifier {
+    if (!this.classifier) {
+      this.classifier = getTextModerationClassifier();
+    }
+    return this.classifier;
+  }
+
+  private getImageClassifier(): ImageModerationClassifier {
+    if (!this.imageClassifier) {
+      this.imageClassifier = getImageModerationClassifier();
+    }
+    return this.imageClassifier;
+  }
+
+  /**
+   * How many times a flagged image may be regenerated (IMAGE_MODERATION_MAX_RETRIES)
+   */
+  getImageRetryBudget(): number {
+    const budget = parseInt(process.env.IMAGE_MODERATION_MAX_RETRIES || '', 10);
+    return isNaN(budget) || budget < 0 ? DEFAULT_IMAGE_RETRY_BUDGET : budget;
+  }
+
+  /**
+   * Scores a story, stores the result on the story and records a ModerationReview
+   * Accepts pages as returned by the story service or as story_pages rows
+   */
+  async moderateStory(params: ModerateStoryParams): Promise<StoryModerationResult> {
+    const { bookOrderId, storyId } = params;
+    const supabase = getSupabase();
+
+    const result = await this.scoreStory(params.title, params.pages.map((page) => ({
+      pageNumber: page.pageNumber ?? page.page_number ?? 0,
+      text: page.text ?? page.page_text ?? '',
+    })));
+
+    console.log(`[moderation] Story ${storyId}: passed=${result.passed}, reviewRequired=${result.reviewRequired}, confidence=${result.confidence}`);
+
+    const { error: storyError } = await supabase
+      .from('generated_stories')
+      .update({
+        content_moderation_passed: result.passed,
+        moderation_flags: result,
+      })
+      .eq('id', storyId);
+
+    if (storyError) {
+      throw new Error(`Failed to save moderation result: ${storyError.message}`);
+    }
+
+    const reviewStatus: ModerationReviewStatus = result.reviewRequired ? 'pending' : 'auto-approved';
+    const { error: reviewError } = await supabase
+      .from('moderation_reviews')
+      .insert({
+        book_order_id: bookOrderId,
+        review_type: STORY_TEXT_REVIEW_TYPE,
+        content_id: storyId,
+        automated_result: result,
+        requires_manual_review: result.reviewRequired,
+        review_status: reviewStatus,
+        content_version: params.version || 0,
+      });
+
+    if (reviewError) {
+      throw new Error(`Failed to save moderation review: ${reviewError.message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Returns whether the story still needs a human decision, or null if this
+   * version of it has not been moderated yet (so the pipeline can resume
+   * without rescoring, but never skips text edited since)
+   */
+  async getStoryReviewState(storyId: string, version: number = 0): Promise<{ reviewRequired: boolean } | null> {
+    const supabase = getSupabase();
+
+    const { data: review } = await supabase
+      .from('moderation_reviews')
+      .select('requires_manual_review, review_status, content_version')
+      .eq('content_id', storyId)
+      .eq('review_type', STORY_TEXT_REVIEW_TYPE)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (!review || (review.content_version || 0) < version) {
+      return null;
+    }
+
+    return {
+      reviewRequired: review.requires_manual_review && review.review_status !== 'approved',
+    };
+  }
+
+  /**
+   * Scores every page (and the title) without touching the database
+   */
+  async scoreStory(title: string, pages: { pageNumber: number; text: string }[]): Promise<StoryModerationResult> {
+    const classifier = this.getClassifier();
+    const pageScores: PageModerationScore[] = [];
+
+    // The title is scored as page 0
+    const entries = [{ pageNumber: 0, text: title }, ...pages];
+    for (const entry of entries) {
+      const classification = await classifier.classify(entry.text);
+      pageScores.push({
+        pageNumber: entry.pageNumber,
+        scores: classification.scores,
+        confidence: classification.confidence,
+      });
+    }
+
+    return {
+      ...this.summarise(pageScores),
+      pages: pageScores,
+      model: classifier.name,
+    };
+  }
+
+  /**
+   * Scores a single generated image without touching the database
+   * Anything other than a clean pass (reviewRequired) should be regenerated
+   */
+  async scoreImage(image: ImageModerationInput): Promise<ImageModerationResult> {
+    const classifier = this.getImageClassifier();
+    const classification = await classifier.classify(image);
+
+    return {
+      ...this.summarise([classification]),
+      scores: classification.scores,
+      model: classifier.name,
+    };
+  }
+
+  /**
+   * Records an image that used up its retry budget so a human can decide on it
+   */
+  async recordImageReview(bookOrderId: string, imageId: string, result: ImageModerationResult): Promise<void> {
+    const supabase = getSupabase();
+
+    const { error } = await supabase
+      .from('moderation_reviews')
+      .insert({
+        book_order_id: bookOrderId,
+        review_type: IMAGE_REVIEW_TYPE,
+        content_id: imageId,
+        automated_result: result,
+        requires_manual_review: true,
+        review_status: 'pending' as ModerationReviewStatus,
+      });
+
+    if (error) {
+      throw new Error(`Failed to save image moderation review: ${error.message}`);
+    }
+  }
+
+  /**
+   * True while any story or image review for the book awaits a decision
+   */
+  async hasPendingReviews(bookOrderId: string): Promise<boolean> {
+    const supabase = getSupabase();
+
+    const { count, error } = await supabase
+      .from('moderation_reviews')
+      .select('id', { count: 'exact', head: true })
+      .eq('book_order_id', bookOrderId)
+      .eq('requires_manual_review', true)
+      .eq('review_status', 'pending');
+
+    if (error) {
+      throw new Error(`Failed to check moderation reviews: ${error.message}`);
+    }
+
+    return (count || 0) > 0;
+  }
+
+  /**
+   * Combines per-item scores: any score over the flag threshold fails the
+   * content, borderline scores or low confidence only require review
+   */
+  private summarise(items: { scores: ModerationScores; confidence: number }[]): ModerationResult {
+    const flags: ModerationResult['flags'] = {};
+    let borderline = false;
+
+    for (const category of MODERATION_CATEGORIES) {
+      const highest = Math.max(...items.map((item) => item.scores[category]));
+      if (highest >= FLAG_THRESHOLD) {
+        flags[category] = true;
+      } else if (highest >= REVIEW_THRESHOLD) {
+        borderline = true;
+      }
+    }
+
+    const passed = Object.keys(flags).length === 0;
+    const confidence = Math.min(...items.map((item) => item.confidence));
+
+    return {
+      passed,
+      flags,
+      confidence,
+      reviewRequired: !passed || borderline || confidence < MIN_CONFIDENCE,
+    };
+  }
+}
+
+export const contentModerationService = new ContentModerationService();
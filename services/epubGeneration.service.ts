@@ -0,0 +1,493 @@
+import JSZip from 'jszip';
+import { createClient } from '@supabase/supabase-js';
+import { findBackCoverImage, findFrontCoverImage } from '@/lib/bookPages';
+import { WordTiming } from '@/lib/narration';
+import { loadStorageObject } from '@/lib/storage';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// Every page is a fixed square viewport, the same shape as the PDF
+const PAGE_SIZE = 1024;
+
+// Applied by reading systems to the word being read aloud
+const ACTIVE_WORD_CLASS = 'read-along-active';
+
+interface GenerateEpubParams {
+  bookOrderId: string;
+  title: string;
+  pages: any[];
+  images: any[];
+}
+
+export interface GeneratedEpub {
+  epubUrl: string;
+  fileSizeBytes: number;
+}
+
+interface EpubImage {
+  href: string;
+  mediaType: string;
+  data: Buffer;
+}
+
+interface EpubAudio {
+  href: string;
+  data: Buffer;
+}
+
+interface EpubPage {
+  id: string;
+  label: string;
+  spread: 'left' | 'right' | 'center';
+  body: string;
+  // Text pages read aloud as a media overlay
+  overlay?: {
+    audio: EpubAudio;
+    wordTimings: WordTiming[];
+    durationMs: number;
+  };
+}
+
+/**
+ * Fixed-layout EPUB 3 of a finished book, for tablets and e-readers
+ *
+ * Mirrors the PDF: front cover, then a text page facing its illustration for
+ * every story page, then the back cover. Built from the same story_pages and
+ * generated_images and stored next to the PDF as book.epub.
+ *
+ * Narrated pages carry their audio as EPUB media overlays (one SMIL file per
+ * page, one clip per word) so reading systems can read along, highlighting
+ * each word. Only MP3 narration is embedded; it's the core audio type.
+ */
+export class EpubGenerationService {
+  async generateEpub(params: GenerateEpubParams): Promise<GeneratedEpub> {
+    const { bookOrderId } = params;
+    const supabase = getSupabase();
+
+    console.log('Generating EPUB...');
+    const epubBuffer = await this.createEpubBuffer(params);
+
+    const filePath = `${bookOrderId}/book.epub`;
+    const { error: uploadError } = await supabase.storage
+      .from('generated-pdfs')
+      .upload(filePath, epubBuffer, {
+        contentType: 'application/epub+zip',
+        upsert: true,
+      });
+
+    if (uploadError) {
+      throw new Error(`Failed to upload EPUB: ${uploadError.message}`);
+    }
+
+    // Versioned, since rebuilds overwrite the same file
+    const { data: { publicUrl } } = supabase.storage
+      .from('generated-pdfs')
+      .getPublicUrl(filePath);
+
+    console.log('EPUB generated successfully');
+    return { epubUrl: `${publicUrl}?v=${Date.now()}`, fileSizeBytes: epubBuffer.length };
+  }
+
+  async createEpubBuffer(params: GenerateEpubParams): Promise<Buffer> {
+    const { bookOrderId, title, images } = params;
+    const pages = [...params.pages].sort((a, b) => a.page_number - b.page_number);
+
+    const epubImages: EpubImage[] = [];
+    const addImage = async (image: any, name: string): Promise<EpubImage | null> => {
+      if (!image?.image_url) {
+        return null;
+      }
+      try {
+        const loaded = await this.loadImage(image.image_url, name);
+        epubImages.push(loaded);
+        return loaded;
+      } catch (error) {
+        console.error(`Failed to load ${name} for EPUB:`, error);
+        return null;
+      }
+    };
+
+    const epubPages: EpubPage[] = [];
+
+    const frontCover = await addImage(findFrontCoverImage(images), 'cover');
+    epubPages.push({
+      id: 'cover',
+      label: 'Cover',
+      spread: 'center',
+      body: frontCover ? this.imageBody(frontCover, title) : this.textBody(title, 'cover-title'),
+    });
+
+    const epubAudio: EpubAudio[] = [];
+
+    for (const page of pages) {
+      const overlay = await this.loadOverlay(page);
+      if (overlay) {
+        epubAudio.push(overlay.audio);
+      }
+
+      const text = overlay
+        ? this.readAlongBody(page.page_text, overlay.wordTimings)
+        : this.textBody(page.page_text || '', 'story-text');
+      epubPages.push({
+        id: `page-${page.page_number}-text`,
+        label: `Page ${page.page_number}`,
+        spread: 'left',
+        body: `${text}\n    <p class="page-number">${page.page_number}</p>`,
+        overlay: overlay || undefined,
+      });
+
+      const image = images.find((img: any) => img.page_number === page.page_number && img.story_page_id);
+      const illustration = await addImage(image, `page-${page.page_number}`);
+      epubPages.push({
+        id: `page-${page.page_number}-image`,
+        label: `Page ${page.page_number} illustration`,
+        spread: 'right',
+        body: illustration ? this.imageBody(illustration, `Illustration for page ${page.page_number}`) : '',
+      });
+    }
+
+    const backCover = await addImage(findBackCoverImage(images), 'back-cover');
+    epubPages.push({
+      id: 'back-cover',
+      label: 'Back Cover',
+      spread: 'center',
+      body: [
+        backCover ? this.imageBody(backCover, 'Back cover') : '',
+        '<p class="back-cover-text">A personalized adventure created especially for this story.</p>',
+      ].join('\n    '),
+    });
+
+    const zip = new JSZip();
+    // The mimetype entry must come first and be stored uncompressed
+    zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+    zip.file('META-INF/container.xml', this.containerXml());
+    zip.file('OEBPS/content.opf', this.packageDocument(bookOrderId, title, epubPages, epubImages, epubAudio, frontCover));
+    zip.file('OEBPS/nav.xhtml', this.navDocument(title, epubPages));
+    zip.file('OEBPS/styles.css', this.stylesheet());
+
+    for (const page of epubPages) {
+      zip.file(`OEBPS/${page.id}.xhtml`, this.pageDocument(page));
+      if (page.overlay) {
+        zip.file(`OEBPS/${page.id}.smil`, this.overlayDocument(page));
+      }
+    }
+    for (const image of epubImages) {
+      zip.file(`OEBPS/${image.href}`, image.data);
+    }
+    for (const audio of epubAudio) {
+      zip.file(`OEBPS/${audio.href}`, audio.data);
+    }
+
+    return zip.generateAsync({
+      type: 'nodebuffer',
+      compression: 'DEFLATE',
+      mimeType: 'application/epub+zip',
+    });
+  }
+
+  private async loadImage(imageUrl: string, name: string): Promise<EpubImage> {
+    const { data, contentType } = await loadStorageObject(getSupabase(), imageUrl);
+    const isJpeg = contentType.includes('jpeg') || /\.jpe?g(\?|$)/i.test(imageUrl);
+
+    return {
+      href: `images/${name}.${isJpeg ? 'jpg' : 'png'}`,
+      mediaType: isJpeg ? 'image/jpeg' : 'image/png',
+      data,
+    };
+  }
+
+  /**
+   * The page's narration as an overlay, or null when it has none, isn't MP3
+   * or can't be downloaded (the page is still included, just silent)
+   */
+  private async loadOverlay(page: any): Promise<EpubPage['overlay'] | null> {
+    const wordTimings: WordTiming[] = page.word_timings || [];
+    if (!page.narration_audio_url || !page.page_text || wordTimings.length === 0) {
+      return null;
+    }
+
+    try {
+      const { data, contentType } = await loadStorageObject(getSupabase(), page.narration_audio_url);
+      if (!contentType.includes('mpeg') && !/\.mp3(\?|$)/i.test(page.narration_audio_url)) {
+        return null;
+      }
+
+      return {
+        audio: { href: `audio/page-${page.page_number}.mp3`, data },
+        wordTimings,
+        durationMs: page.narration_duration_ms || wordTimings[wordTimings.length - 1].endMs,
+      };
+    } catch (error) {
+      console.error(`Failed to load narration for page ${page.page_number} for EPUB:`, error);
+      return null;
+    }
+  }
+
+  private imageBody(image: EpubImage, alt: string): string {
+    return `<img class="full-bleed" src="${image.href}" alt="${this.escape(alt)}" />`;
+  }
+
+  private textBody(text: string, className: string): string {
+    return `<div class="${className}"><p>${this.escape(text)}</p></div>`;
+  }
+
+  /**
+   * Story text with every word in its own span, for the media overlay to point at
+   */
+  private readAlongBody(text: string, wordTimings: WordTiming[]): string {
+    let html = '';
+    let cursor = 0;
+
+    wordTimings.forEach((word, index) => {
+      html += this.escape(text.slice(cursor, word.charStart));
+      html += `<span id="w${index}">${this.escape(text.slice(word.charStart, word.charEnd))}</span>`;
+      cursor = word.charEnd;
+    });
+    html += this.escape(text.slice(cursor));
+
+    return `<div class="story-text"><p>${html}</p></div>`;
+  }
+
+  private pageDocument(page: EpubPage): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=${PAGE_SIZE}, height=${PAGE_SIZE}" />
+    <title>${this.escape(page.label)}</title>
+    <link rel="stylesheet" type="text/css" href="styles.css" />
+  </head>
+  <body>
+    ${page.body}
+  </body>
+</html>
+`;
+  }
+
+  /**
+   * SMIL media overlay for a narrated page: each word's span paired with its
+   * clip of the page audio
+   */
+  private overlayDocument(page: EpubPage): string {
+    const { audio, wordTimings } = page.overlay!;
+    const pars = wordTimings.map((word, index) =>
+      `<par id="${page.id}-w${index}"><text src="${page.id}.xhtml#w${index}" /><audio src="${audio.href}" clipBegin="${this.clockValue(word.startMs)}" clipEnd="${this.clockValue(word.endMs)}" /></par>`
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<smil xmlns="http://www.w3.org/ns/SMIL" xmlns:epub="http://www.idpf.org/2007/ops" version="3.0">
+  <body>
+    <seq id="${page.id}-seq" epub:textref="${page.id}.xhtml">
+      ${pars.join('\n      ')}
+    </seq>
+  </body>
+</smil>
+`;
+  }
+
+  private packageDocument(
+    bookOrderId: string,
+    title: string,
+    pages: EpubPage[],
+    images: EpubImage[],
+    audio: EpubAudio[],
+    coverImage: EpubImage | null
+  ): string {
+    // dcterms:modified must be CCYY-MM-DDThh:mm:ssZ
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const narratedPages = pages.filter((page) => page.overlay);
+
+    const manifest = [
+      '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />',
+      '<item id="css" href="styles.css" media-type="text/css" />',
+      ...pages.map((page) =>
+        `<item id="${page.id}" href="${page.id}.xhtml" media-type="application/xhtml+xml"${page.overlay ? ` media-overlay="${page.id}-overlay"` : ''} />`
+      ),
+      ...narratedPages.map((page) =>
+        `<item id="${page.id}-overlay" href="${page.id}.smil" media-type="application/smil+xml" />`
+      ),
+      ...images.map((image, index) =>
+        `<item id="image-${index}" href="${image.href}" media-type="${image.mediaType}"${image === coverImage ? ' properties="cover-image"' : ''} />`
+      ),
+      ...audio.map((clip, index) =>
+        `<item id="audio-${index}" href="${clip.href}" media-type="audio/mpeg" />`
+      ),
+    ];
+
+    // Media overlays need the total and per-page durations, and the class for the word being read
+    const overlayMetadata = narratedPages.length === 0 ? [] : [
+      `<meta property="media:duration">${this.clockValue(narratedPages.reduce((total, page) => total + page.overlay!.durationMs, 0))}</meta>`,
+      ...narratedPages.map((page) =>
+        `<meta property="media:duration" refines="#${page.id}-overlay">${this.clockValue(page.overlay!.durationMs)}</meta>`
+      ),
+      `<meta property="media:active-class">${ACTIVE_WORD_CLASS}</meta>`,
+    ];
+
+    const spine = pages.map((page) =>
+      `<itemref idref="${page.id}" properties="${page.spread === 'center' ? 'rendition:page-spread-center' : `page-spread-${page.spread}`}" />`
+    );
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="en" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${bookOrderId}</dc:identifier>
+    <dc:title>${this.escape(title)}</dc:title>
+    <dc:language>en</dc:language>
+    <dc:creator>Personalized Children's Storybooks</dc:creator>
+    <dc:publisher>Personalized Children's Storybooks</dc:publisher>
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">auto</meta>
+    <meta property="rendition:spread">landscape</meta>${overlayMetadata.map((meta) => `\n    ${meta}`).join('')}
+  </metadata>
+  <manifest>
+    ${manifest.join('\n    ')}
+  </manifest>
+  <spine>
+    ${spine.join('\n    ')}
+  </spine>
+</package>
+`;
+  }
+
+  private navDocument(title: string, pages: EpubPage[]): string {
+    // Illustrations share their text page's entry
+    const entries = pages
+      .filter((page) => !page.id.endsWith('-image'))
+      .map((page) => `<li><a href="${page.id}.xhtml">${this.escape(page.label)}</a></li>`);
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="en" lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${this.escape(title)}</title>
+  </head>
+  <body>
+    <nav epub:type="toc" id="toc">
+      <h1>${this.escape(title)}</h1>
+      <ol>
+        ${entries.join('\n        ')}
+      </ol>
+    </nav>
+    <nav epub:type="landmarks" hidden="hidden">
+      <ol>
+        <li><a epub:type="cover" href="cover.xhtml">Cover</a></li>
+        <li><a epub:type="bodymatter" href="${pages[1]?.id || 'cover'}.xhtml">Start of story</a></li>
+      </ol>
+    </nav>
+  </body>
+</html>
+`;
+  }
+
+  private containerXml(): string {
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`;
+  }
+
+  private stylesheet(): string {
+    return `html, body {
+  margin: 0;
+  padding: 0;
+  width: ${PAGE_SIZE}px;
+  height: ${PAGE_SIZE}px;
+  overflow: hidden;
+  background: #ffffff;
+}
+
+.full-bleed {
+  position: absolute;
+  top: 0;
+  left: 0;
+  width: ${PAGE_SIZE}px;
+  height: ${PAGE_SIZE}px;
+  object-fit: cover;
+}
+
+.story-text, .cover-title {
+  position: absolute;
+  top: 0;
+  left: 107px;
+  width: 810px;
+  height: ${PAGE_SIZE}px;
+  display: flex;
+  align-items: center;
+  justify-content: center;
+  text-align: center;
+  font-family: Baskerville, "Times New Roman", serif;
+  color: #000000;
+}
+
+.story-text p {
+  font-size: 28px;
+  line-height: 1.6;
+}
+
+.cover-title p {
+  font-size: 56px;
+  font-weight: bold;
+}
+
+.${ACTIVE_WORD_CLASS} {
+  background: #fef08a;
+  border-radius: 4px;
+}
+
+.page-number {
+  position: absolute;
+  bottom: 40px;
+  width: ${PAGE_SIZE}px;
+  text-align: center;
+  font-size: 18px;
+  color: #999999;
+}
+
+.back-cover-text {
+  position: absolute;
+  top: 412px;
+  left: 107px;
+  width: 810px;
+  padding: 60px 0;
+  background: rgba(255, 255, 255, 0.85);
+  text-align: center;
+  font-family: "Times New Roman", serif;
+  font-size: 25px;
+}
+`;
+  }
+
+  /**
+   * SMIL clock value (h:mm:ss.fff)
+   */
+  private clockValue(ms: number): string {
+    const totalSeconds = Math.max(0, ms) / 1000;
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = (totalSeconds % 60).toFixed(3).padStart(6, '0');
+    return `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`;
+  }
+
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
+
+export const epubGenerationService = new EpubGenerationService();
@@ -0,0 +1,302 @@
+import { createClient } from '@supabase/supabase-js';
+import { getMailer, Mailer, MailMessage } from './providers/mailer.provider';
+import { BookSharingService, getShareUrl } from './bookSharing.service';
+import type { GiftDetails } from '@/lib/gifts';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { BookGift } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// Delivery errors are retried by the cron job until this many attempts
+const MAX_DELIVERY_ATTEMPTS = 5;
+
+export interface DeliverGiftsResult {
+  sent: number;
+  cancelled: number;
+  // Due, but the book isn't finished yet
+  waiting: number;
+  errors: { giftId: string; error: string }[];
+}
+
+/**
+ * Books bought for someone else's child
+ *
+ * The buyer gives the recipient's name and email, an optional dedication and
+ * a delivery date when creating the book or at checkout. Once the book is
+ * completed and the date has arrived, the recipient is emailed a share link
+ * (a `book_shares` link that doesn't expire) through the Mailer.
+ */
+export class GiftDeliveryService {
+  constructor(
+    private sharingService: BookSharingService = new BookSharingService(),
+    private mailer?: Mailer
+  ) {}
+
+  /**
+   * Creates or replaces a book's gift details; a sent gift can't be changed
+   */
+  async saveGift(bookOrderId: string, userId: string, details: GiftDetails): Promise<BookGift> {
+    const supabase = getSupabase();
+    await this.getOwnedBook(bookOrderId, userId);
+
+    const existing = await this.getGift(bookOrderId);
+    if (existing?.status === 'sent') {
+      throw new ValidationError('This gift has already been delivered');
+    }
+
+    // A time already passed just means "as soon as the book is ready"
+    const deliverAt = details.deliverAt ? new Date(details.deliverAt) : new Date();
+
+    const { data: gift, error } = await supabase
+      .from('book_gifts')
+      .upsert({
+        book_order_id: bookOrderId,
+        recipient_name: details.recipientName,
+        recipient_email: details.recipientEmail,
+        dedication: details.dedication || null,
+        deliver_at: deliverAt.toISOString(),
+        status: 'scheduled',
+        delivery_attempts: 0,
+        last_error: null,
+      }, { onConflict: 'book_order_id' })
+      .select()
+      .single();
+
+    if (error || !gift) {
+      throw new Error(`Failed to save gift details: ${error?.message}`);
+    }
+
+    return gift;
+  }
+
+  /**
+   * Turns gift mode off for a book that hasn't been delivered yet
+   */
+  async removeGift(bookOrderId: string, userId: string): Promise<void> {
+    const supabase = getSupabase();
+    await this.getOwnedBook(bookOrderId, userId);
+
+    const existing = await this.getGift(bookOrderId);
+    if (existing?.status === 'sent') {
+      throw new ValidationError('This gift has already been delivered');
+    }
+
+    await supabase
+      .from('book_gifts')
+      .delete()
+      .eq('book_order_id', bookOrderId)
+      .neq('status', 'sent');
+  }
+
+  async getGift(bookOrderId: string): Promise<BookGift | null> {
+    const { data: gift } = await getSupabase()
+      .from('book_gifts')
+      .select('*')
+      .eq('book_order_id', bookOrderId)
+      .maybeSingle();
+
+    return gift;
+  }
+
+  /**
+   * Emails every gift whose delivery time has passed and whose book is
+   * finished; gifts for failed or cancelled books are cancelled
+   */
+  async deliverDueGifts(now: Date = new Date()): Promise<DeliverGiftsResult> {
+    const supabase = getSupabase();
+    const result: DeliverGiftsResult = { sent: 0, cancelled: 0, waiting: 0, errors: [] };
+
+    const { data: due } = await supabase
+      .from('book_gifts')
+      .select('id, book_order:book_orders(status)')
+      .eq('status', 'scheduled')
+      .lte('deliver_at', now.toISOString())
+      .order('deliver_at', { ascending: true });
+
+    for (const gift of (due || []) as any[]) {
+      try {
+        const bookStatus = gift.book_order?.status;
+        if (bookStatus === 'cancelled' || bookStatus === 'failed') {
+          await supabase
+            .from('book_gifts')
+            .update({ status: 'cancelled', last_error: `Book ${bookStatus}` })
+            .eq('id', gift.id)
+            .eq('status', 'scheduled');
+          result.cancelled++;
+        } else if (bookStatus !== 'completed') {
+          result.waiting++;
+        } else if (await this.deliver(gift.id)) {
+          result.sent++;
+        }
+      } catch (error: any) {
+        result.errors.push({ giftId: gift.id, error: error.message || 'Unknown error' });
+      }
+    }
+
+    console.log(`[gift-delivery] Sent ${result.sent}, cancelled ${result.cancelled}, ${result.waiting} waiting for their book, ${result.errors.length} error(s)`);
+
+    return result;
+  }
+
+  /**
+   * Emails one gift's share link; returns false when another runner has it
+   * or it isn't due. Errors are recorded and rethrown until the last attempt
+   */
+  async deliver(giftId: string): Promise<boolean> {
+    const supabase = getSupabase();
+
+    const { data: gift } = await supabase
+      .from('book_gifts')
+      .select('*, book_order:book_orders(id, status, user_id, child_first_name)')
+      .eq('id', giftId)
+      .single();
+
+    if (!gift) {
+      throw new NotFoundError('Gift');
+    }
+
+    if (gift.status !== 'scheduled' || gift.book_order?.status !== 'completed' || new Date(gift.deliver_at) > new Date()) {
+      return false;
+    }
+
+    // Claims this attempt, so two runners can't both email the recipient
+    const attempt = (gift.delivery_attempts || 0) + 1;
+    const { data: claimed } = await supabase
+      .from('book_gifts')
+      .update({ delivery_attempts: attempt })
+      .eq('id', giftId)
+      .eq('status', 'scheduled')
+      .eq('delivery_attempts', gift.delivery_attempts || 0)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      return false;
+    }
+
+    try {
+      const bookOrder = gift.book_order;
+      const mailer = this.mailer || getMailer();
+      // Emails written to disk are only read locally; real ones need NEXT_PUBLIC_APP_URL
+      const shareUrl = await this.getGiftShareUrl(
+        gift,
+        bookOrder.user_id,
+        mailer.name === 'file' ? 'http://localhost:3000' : undefined
+      );
+
+      const { data: buyer } = await supabase
+        .from('users')
+        .select('first_name')
+        .eq('id', bookOrder.user_id)
+        .single();
+
+      await mailer.send(this.giftEmail(gift, bookOrder.child_first_name, buyer?.first_name, shareUrl));
+
+      await supabase
+        .from('book_gifts')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), last_error: null })
+        .eq('id', giftId);
+
+      console.log(`[gift-delivery] Emailed gift ${giftId} for book ${bookOrder.id} with ${mailer.name}`);
+      return true;
+    } catch (error: any) {
+      const failed = attempt >= MAX_DELIVERY_ATTEMPTS;
+      await supabase
+        .from('book_gifts')
+        .update({ status: failed ? 'failed' : 'scheduled', last_error: error.message || 'Unknown error' })
+        .eq('id', giftId);
+
+      console.error(`[gift-delivery] Delivery attempt ${attempt} for gift ${giftId} failed${failed ? ', giving up' : ''}:`, error);
+      if (failed) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * The gift's share link, created on the first attempt and reused on retries
+   * so the recipient only ever gets one link
+   */
+  private async getGiftShareUrl(gift: any, ownerId: string, origin?: string): Promise<string> {
+    const supabase = getSupabase();
+
+    if (gift.share_id) {
+      const { data: share } = await supabase
+        .from('book_shares')
+        .select('token, revoked_at')
+        .eq('id', gift.share_id)
+        .single();
+
+      if (share && !share.revoked_at) {
+        return getShareUrl(share.token, origin);
+      }
+    }
+
+    const share = await this.sharingService.createShare({
+      bookOrderId: gift.book_order_id,
+      userId: ownerId,
+      label: `Gift for ${gift.recipient_name}`,
+      expiresAt: null,
+    });
+
+    await supabase
+      .from('book_gifts')
+      .update({ share_id: share.id })
+      .eq('id', gift.id);
+
+    return getShareUrl(share.token, origin);
+  }
+
+  private giftEmail(gift: BookGift, childName: string, buyerName: string | null | undefined, shareUrl: string): MailMessage {
+    const from = buyerName || 'Someone special';
+    const subject = `${from} made a storybook for ${childName}`;
+    const intro = `Hi ${gift.recipient_name}, ${from} has made ${childName} a personalised storybook, starring ${childName}.`;
+
+    const text = [
+      intro,
+      gift.dedication ? `\n"${gift.dedication}"\n` : '',
+      `Read it online (no account needed): ${shareUrl}`,
+    ].filter(Boolean).join('\n');
+
+    const html = `<p>${this.escapeHtml(intro)}</p>
+${gift.dedication ? `<blockquote style="font-style: italic;">${this.escapeHtml(gift.dedication).replace(/\n/g, '<br />')}</blockquote>` : ''}
+<p><a href="${this.escapeHtml(shareUrl)}">Read ${this.escapeHtml(childName)}'s story</a> (no account needed)</p>`;
+
+    return { to: gift.recipient_email, toName: gift.recipient_name, subject, text, html };
+  }
+
+  private async getOwnedBook(bookOrderId: string, userId: string): Promise<{ id: string; status: string }> {
+    const { data: bookOrder } = await getSupabase()
+      .from('book_orders')
+      .select('id, status')
+      .eq('id', bookOrderId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!bookOrder) {
+      throw new NotFoundError('Book');
+    }
+
+    if (bookOrder.status === 'cancelled' || bookOrder.status === 'failed') {
+      throw new ValidationError(`A ${bookOrder.status} book cannot be sent as a gift`);
+    }
+
+    return bookOrder;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
+
+export const giftDeliveryService = new GiftDeliveryService();
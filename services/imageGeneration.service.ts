@@ -1,6 +1,21 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { createClient } from '@supabase/supabase-js';
-import axios from 'axios';
+import {
+  getIllustrationProvider,
+  IllustrationProvider,
+  IllustrationRequest,
+  IllustrationResult,
+  IllustrationSession,
+  ReferenceImage,
+} from './providers/illustration.provider';
+import { ContentModerationService, ImageModerationResult } from './contentModeration.service';
+import { BookCancelledError } from '@/lib/errors';
+import {
+  findMissingImagePageNumbers,
+  FRONT_COVER_PAGE_NUMBER,
+  getBackCoverPageNumber,
+  getTotalImageCount,
+} from '@/lib/bookPages';
+import { loadStorageObject } from '@/lib/storage';
 
 // Lazy initialization to ensure environment variables are loaded
 function getSupabase() {
@@ -10,32 +25,21 @@ function getSupabase() {
   );
 }
 
-// Lazy initialization for Gemini to ensure environment variables are loaded
-function getGemini() {
-  const apiKey = process.env.GOOGLE_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY or GOOGLE_GEMINI_API_KEY environment variable is required');
-  }
-  return new GoogleGenerativeAI(apiKey);
-}
-
-// Helper to convert URL to base64 for Gemini API
-async function urlToBase64(url: string): Promise<{ inlineData: { data: string; mimeType: string } }> {
+// Helper to convert URL to base64 for the illustration provider
+async function urlToBase64(url: string): Promise<ReferenceImage> {
   try {
-    const response = await axios.get(url, { responseType: 'arraybuffer' });
-    const buffer = Buffer.from(response.data);
+    // Earlier illustrations are in the private generated-images bucket
+    const { data: buffer, contentType } = await loadStorageObject(getSupabase(), url);
     const base64 = buffer.toString('base64');
 
     // Determine MIME type from response or URL
-    let mimeType = response.headers['content-type'] || 'image/jpeg';
+    let mimeType = contentType || 'image/jpeg';
     if (url.toLowerCase().endsWith('.png')) mimeType = 'image/png';
     else if (url.toLowerCase().endsWith('.webp')) mimeType = 'image/webp';
 
     return {
-      inlineData: {
-        data: base64,
-        mimeType: mimeType
-      }
+      data: base64,
+      mimeType: mimeType
     };
   } catch (error) {
     console.error('Error converting URL to base64:', error);
@@ -43,6 +47,19 @@ async function urlToBase64(url: string): Promise<{ inlineData: { data: string; m
   }
 }
 
+// Earlier illustrations sent to a resumed conversation so new pages match them
+const MAX_STYLE_REFERENCE_IMAGES = 2;
+
+/**
+ * Reported by generateImagesForStory as each illustration is saved, or redrawn
+ * after failing moderation; `completed` counts images the book already had
+ */
+export type ImageProgressEvent =
+  | { type: 'image-completed'; pageNumber: number; completed: number; total: number }
+  | { type: 'image-retry'; pageNumber: number; retryCount: number; retryBudget: number };
+
+type RetryListener = (retryCount: number, retryBudget: number) => void | Promise<void>;
+
 interface GenerateImagesParams {
   storyId: string;
   bookOrderId: string;
@@ -56,6 +73,25 @@ export class ImageGenerationService {
   private referencePhotoCache: Map<string, string | null> = new Map();
   private petPhotoCache: Map<string, string | null> = new Map();
 
+  constructor(
+    private provider?: IllustrationProvider,
+    private moderationService?: ContentModerationService
+  ) {}
+
+  private getProvider(): IllustrationProvider {
+    if (!this.provider) {
+      this.provider = getIllustrationProvider();
+    }
+    return this.provider;
+  }
+
+  private getModerationService(): ContentModerationService {
+    if (!this.moderationService) {
+      this.moderationService = new ContentModerationService();
+    }
+    return this.moderationService;
+  }
+
   /**
    * Fetches the child's reference photo URL from Supabase
    * Returns null if no photo is found
@@ -149,98 +185,35 @@ export class ImageGenerationService {
     const { bookOrderId, storyTitle, childFirstName, illustrationStyle } = params;
 
     try {
-      const supabase = getSupabase();
-
       // Fetch child's reference photo
       const referenceImageUrl = await this.getChildReferencePhoto(bookOrderId);
 
       const prompt = this.buildFrontCoverPrompt(storyTitle, childFirstName, illustrationStyle);
 
-      console.log('Generating front cover with Gemini 2.5 Flash Image...');
+      console.log(`Generating front cover with ${this.getProvider().name} provider...`);
       console.log(`Reference photo: ${referenceImageUrl ? 'Yes' : 'No'}`);
       console.log(`Prompt: ${prompt.substring(0, 200)}...`);
 
-      // Generate cover with Gemini
-      const genAI = getGemini();
-      const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-flash-image',
-        // Note: responseModalities defaults to ['Text', 'Image'] for this model
-      });
-
-      // Prepare input parts
-      const parts: any[] = [];
-
-      if (referenceImageUrl) {
-        const referenceImageData = await urlToBase64(referenceImageUrl);
-        parts.push(referenceImageData);
-        parts.push({ text: `This is ${childFirstName}, the main character. Use this person's exact appearance.` });
-      }
-
-      parts.push({ text: prompt });
-
-      const result = await model.generateContent(parts);
-      const response = result.response;
-
-      if (!response || !response.candidates || response.candidates.length === 0) {
-        throw new Error('No cover image generated from Gemini');
-      }
-
-      // Extract image data from response
-      const candidate = response.candidates[0];
-      let imageBuffer: Buffer | null = null;
-
-      if (candidate.content && candidate.content.parts) {
-        for (const part of candidate.content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-            imageBuffer = Buffer.from(part.inlineData.data, 'base64');
-            break;
-          }
-        }
-      }
-
-      if (!imageBuffer) {
-        throw new Error('No image data found in Gemini response');
-      }
-
-      // Upload to Supabase Storage
-      const imagePath = `${bookOrderId}/cover-front.png`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('generated-images')
-        .upload(imagePath, imageBuffer, {
-          contentType: 'image/png',
-          upsert: true,
-        });
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      // Get public URL
-      const { data: { publicUrl: imageUrl } } = supabase.storage
-        .from('generated-images')
-        .getPublicUrl(imagePath);
+      const { imageBuffer, prompt: moderatedPrompt, retryCount, moderation } = await this.generateModeratedImage({
+        prompt,
+        referenceImages: referenceImageUrl ? [await urlToBase64(referenceImageUrl)] : [],
+        referenceCaption: `This is ${childFirstName}, the main character. Use this person's exact appearance.`,
+        label: 'Front Cover',
+        pageNumber: FRONT_COVER_PAGE_NUMBER,
+        illustrationStyle,
+      }, (request) => this.getProvider().generate(request));
 
       // Save to database (page_number = 0 for front cover, story_page_id = null)
-      const { data: generatedImage, error: dbError } = await supabase
-        .from('generated_images')
-        .insert({
-          book_order_id: bookOrderId,
-          story_page_id: null,
-          page_number: 0,
-          image_url: imageUrl,
-          generation_prompt: prompt,
-          width: 2048,
-          height: 2048,
-          content_moderation_passed: false,
-          moderation_flags: {},
-        })
-        .select()
-        .single();
-
-      if (dbError) {
-        throw dbError;
-      }
+      const generatedImage = await this.saveGeneratedImage({
+        bookOrderId,
+        storyPageId: null,
+        pageNumber: FRONT_COVER_PAGE_NUMBER,
+        imagePath: `${bookOrderId}/cover-front.png`,
+        imageBuffer,
+        prompt: moderatedPrompt,
+        retryCount,
+        moderation,
+      });
 
       console.log('Front cover generated successfully');
       return generatedImage;
@@ -256,103 +229,42 @@ export class ImageGenerationService {
     childFirstName: string;
     storySummary: string;
     illustrationStyle: string;
+    storyPageCount: number;
   }): Promise<any> {
-    const { bookOrderId, storyTitle, childFirstName, storySummary, illustrationStyle } = params;
+    const { bookOrderId, storyTitle, childFirstName, storySummary, illustrationStyle, storyPageCount } = params;
+    const backCoverPageNumber = getBackCoverPageNumber(storyPageCount);
 
     try {
-      const supabase = getSupabase();
-
       // Fetch child's reference photo
       const referenceImageUrl = await this.getChildReferencePhoto(bookOrderId);
 
       const prompt = this.buildBackCoverPrompt(storyTitle, childFirstName, storySummary, illustrationStyle);
 
-      console.log('Generating back cover with Gemini 2.5 Flash Image...');
+      console.log(`Generating back cover with ${this.getProvider().name} provider...`);
       console.log(`Reference photo: ${referenceImageUrl ? 'Yes' : 'No'}`);
       console.log(`Prompt: ${prompt.substring(0, 200)}...`);
 
-      // Generate cover with Gemini
-      const genAI = getGemini();
-      const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-flash-image',
-        // Note: responseModalities defaults to ['Text', 'Image'] for this model
+      const { imageBuffer, prompt: moderatedPrompt, retryCount, moderation } = await this.generateModeratedImage({
+        prompt,
+        referenceImages: referenceImageUrl ? [await urlToBase64(referenceImageUrl)] : [],
+        referenceCaption: `This is ${childFirstName}, the main character. Use this person's exact appearance.`,
+        label: 'Back Cover',
+        pageNumber: backCoverPageNumber,
+        illustrationStyle,
+      }, (request) => this.getProvider().generate(request));
+
+      // Save to database (back cover follows the last story page, story_page_id = null)
+      const generatedImage = await this.saveGeneratedImage({
+        bookOrderId,
+        storyPageId: null,
+        pageNumber: backCoverPageNumber,
+        imagePath: `${bookOrderId}/cover-back.png`,
+        imageBuffer,
+        prompt: moderatedPrompt,
+        retryCount,
+        moderation,
       });
 
-      // Prepare input parts
-      const parts: any[] = [];
-
-      if (referenceImageUrl) {
-        const referenceImageData = await urlToBase64(referenceImageUrl);
-        parts.push(referenceImageData);
-        parts.push({ text: `This is ${childFirstName}, the main character. Use this person's exact appearance.` });
-      }
-
-      parts.push({ text: prompt });
-
-      const result = await model.generateContent(parts);
-      const response = result.response;
-
-      if (!response || !response.candidates || response.candidates.length === 0) {
-        throw new Error('No back cover image generated from Gemini');
-      }
-
-      // Extract image data from response
-      const candidate = response.candidates[0];
-      let imageBuffer: Buffer | null = null;
-
-      if (candidate.content && candidate.content.parts) {
-        for (const part of candidate.content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-            imageBuffer = Buffer.from(part.inlineData.data, 'base64');
-            break;
-          }
-        }
-      }
-
-      if (!imageBuffer) {
-        throw new Error('No image data found in Gemini response');
-      }
-
-      // Upload to Supabase Storage
-      const imagePath = `${bookOrderId}/cover-back.png`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('generated-images')
-        .upload(imagePath, imageBuffer, {
-          contentType: 'image/png',
-          upsert: true,
-        });
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      // Get public URL
-      const { data: { publicUrl: imageUrl } } = supabase.storage
-        .from('generated-images')
-        .getPublicUrl(imagePath);
-
-      // Save to database (page_number = 16 for back cover, story_page_id = null)
-      const { data: generatedImage, error: dbError } = await supabase
-        .from('generated_images')
-        .insert({
-          book_order_id: bookOrderId,
-          story_page_id: null,
-          page_number: 16,
-          image_url: imageUrl,
-          generation_prompt: prompt,
-          width: 2048,
-          height: 2048,
-          content_moderation_passed: false,
-          moderation_flags: {},
-        })
-        .select()
-        .single();
-
-      if (dbError) {
-        throw dbError;
-      }
-
       console.log('Back cover generated successfully');
       return generatedImage;
     } catch (error) {
@@ -361,11 +273,20 @@ export class ImageGenerationService {
     }
   }
 
+  /**
+   * Generates the covers and page illustrations in one conversation
+   * Pages that already have an image (from an interrupted run) are skipped, and
+   * the resumed conversation is seeded with existing images to keep the style
+   */
   async generateImagesForStory(params: GenerateImagesParams & {
     storyTitle: string;
     generateCovers?: boolean;
+    onProgress?: (event: ImageProgressEvent) => void | Promise<void>;
+    // Checked before each illustration; true (the book was cancelled, or the
+    // pipeline lost its lease) throws BookCancelledError
+    shouldStop?: () => Promise<boolean>;
   }): Promise<any[]> {
-    const { storyId, bookOrderId, pages, illustrationStyle, childFirstName, storyTitle, generateCovers = false } = params;
+    const { storyId, bookOrderId, pages, illustrationStyle, childFirstName, storyTitle, generateCovers = false, onProgress, shouldStop } = params;
 
     try {
       const supabase = getSupabase();
@@ -382,9 +303,40 @@ export class ImageGenerationService {
         throw new Error('Failed to fetch story pages');
       }
 
+      const { data: existingImages, error: existingError } = await supabase
+        .from('generated_images')
+        .select('id, page_number, story_page_id, image_url')
+        .eq('book_order_id', bookOrderId)
+        .order('page_number', { ascending: true });
+
+      if (existingError) {
+        throw new Error('Failed to fetch existing images');
+      }
+
+      const missingPageNumbers = findMissingImagePageNumbers(storyPages, existingImages || []);
+      const needsFrontCover = generateCovers && missingPageNumbers.includes(FRONT_COVER_PAGE_NUMBER);
+      const needsBackCover = generateCovers && missingPageNumbers.includes(getBackCoverPageNumber(storyPages.length));
+      const pagesToGenerate = storyPages.filter((page: any) => missingPageNumbers.includes(page.page_number));
+
+      const totalImages = getTotalImageCount(storyPages.length);
+      let completedImages = totalImages - missingPageNumbers.length;
+      const reportCompleted = (pageNumber: number) =>
+        onProgress?.({ type: 'image-completed', pageNumber, completed: ++completedImages, total: totalImages });
+      const retryListener = (pageNumber: number): RetryListener => (retryCount, retryBudget) =>
+        onProgress?.({ type: 'image-retry', pageNumber, retryCount, retryBudget });
+      const stopIfRequested = async () => {
+        if (await shouldStop?.()) {
+          throw new BookCancelledError(bookOrderId);
+        }
+      };
+
+      if (existingImages && existingImages.length > 0) {
+        console.log(`Resuming: ${existingImages.length} image(s) already exist, missing page numbers: ${missingPageNumbers.join(', ') || 'none'}`);
+      }
+
       // Fetch reference photo ONCE for the entire session
       const referenceImageUrl = await this.getChildReferencePhoto(bookOrderId);
-      let referenceImageData = null;
+      let referenceImageData: ReferenceImage | null = null;
 
       if (referenceImageUrl) {
         referenceImageData = await urlToBase64(referenceImageUrl);
@@ -399,7 +351,7 @@ export class ImageGenerationService {
         .single();
 
       const petReferenceImageUrl = await this.getPetReferencePhoto(bookOrderId);
-      let petReferenceImageData = null;
+      let petReferenceImageData: ReferenceImage | null = null;
       let petInfo: { name: string; type: string; colour: string } | null = null;
 
       if (petData && petReferenceImageUrl) {
@@ -413,37 +365,31 @@ export class ImageGenerationService {
       }
 
       // START A CHAT SESSION FOR CONSISTENCY
-      const genAI = getGemini();
-      const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-flash-image',
-        generationConfig: {
-          temperature: 0.7, // Balanced: 0.7 gives variety in poses/angles while maintaining character consistency
-          // Note: responseModalities defaults to ['Text', 'Image'] for this model
-          // 0.4 = very consistent but repetitive poses
-          // 0.7 = varied compositions while keeping character features
-          // 0.9+ = too much variation, character drift
-        },
-      });
+      // Temperature 0.7 is balanced: varied poses/angles while keeping character features
+      // (0.4 = very consistent but repetitive poses, 0.9+ = too much variation, character drift)
+      const session = this.getProvider().startSession({ temperature: 0.7 });
 
-      // Initialize chat for multi-turn image generation
-      const chat = model.startChat({
-        history: [],
-      });
-
-      // NOTE: We don't send an initial character context message because:
-      // 1. Gemini 2.5 Flash Image requires every message to be an image generation request
-      // 2. We include the reference photo with EVERY image anyway for consistency
-      // 3. An initial "please confirm" message would cause a 400 error
+      // We include the reference photo with EVERY image for consistency
       console.log(`Starting conversation-based generation with reference photo included in each request`);
 
+      // A resumed conversation has none of the earlier images in its history,
+      // so the first new request carries a few of them as style references
+      let styleReferences = await this.loadStyleReferences(existingImages || []);
+      const takeStyleReferences = (): ReferenceImage[] => {
+        const references = styleReferences;
+        styleReferences = [];
+        return references;
+      };
+
       const generatedImages = [];
 
       // Generate front cover in conversation (if requested)
-      if (generateCovers) {
+      if (needsFrontCover) {
+        await stopIfRequested();
         console.log('\n[Front Cover] Generating in conversation context...');
         try {
           const frontCoverImage = await this.generateCoverInConversation({
-            chat,
+            session,
             bookOrderId,
             storyTitle,
             childFirstName,
@@ -452,8 +398,12 @@ export class ImageGenerationService {
             petReferenceImageData,
             petInfo,
             isBackCover: false,
+            storyPageCount: storyPages.length,
+            styleReferenceImages: takeStyleReferences(),
+            onRetry: retryListener(FRONT_COVER_PAGE_NUMBER),
           });
           generatedImages.push(frontCoverImage);
+          await reportCompleted(FRONT_COVER_PAGE_NUMBER);
           console.log('[Front Cover] ✓ Generated successfully');
         } catch (error) {
           console.error('[Front Cover] Failed:', error);
@@ -462,13 +412,14 @@ export class ImageGenerationService {
       }
 
       // Generate page images SEQUENTIALLY in the same conversation for consistency
-      for (let i = 0; i < storyPages.length; i++) {
-        const page = storyPages[i];
-        console.log(`\n[Page ${page.page_number}] Generating in conversation context (${i + 1}/${storyPages.length})...`);
+      for (let i = 0; i < pagesToGenerate.length; i++) {
+        const page = pagesToGenerate[i];
+        await stopIfRequested();
+        console.log(`\n[Page ${page.page_number}] Generating in conversation context (${i + 1}/${pagesToGenerate.length})...`);
 
         try {
           const generatedImage = await this.generateImageInConversation({
-            chat,
+            session,
             bookOrderId,
             storyPage: page,
             illustrationStyle,
@@ -476,12 +427,15 @@ export class ImageGenerationService {
             referenceImageData,
             petReferenceImageData,
             petInfo,
-            pageIndex: i,
+            pageIndex: storyPages.indexOf(page),
             totalPages: storyPages.length,
+            styleReferenceImages: takeStyleReferences(),
+            onRetry: retryListener(page.page_number),
           });
 
           generatedImages.push(generatedImage);
-          console.log(`[Page ${page.page_number}] ✓ Generated successfully (${i + 1}/${storyPages.length} complete)`);
+          await reportCompleted(page.page_number);
+          console.log(`[Page ${page.page_number}] ✓ Generated successfully (${i + 1}/${pagesToGenerate.length} complete)`);
         } catch (pageError) {
           console.error(`[Page ${page.page_number}] Failed:`, pageError);
           throw pageError;
@@ -489,11 +443,12 @@ export class ImageGenerationService {
       }
 
       // Generate back cover in conversation (if requested)
-      if (generateCovers) {
+      if (needsBackCover) {
+        await stopIfRequested();
         console.log('\n[Back Cover] Generating in conversation context...');
         try {
           const backCoverImage = await this.generateCoverInConversation({
-            chat,
+            session,
             bookOrderId,
             storyTitle,
             childFirstName,
@@ -502,8 +457,12 @@ export class ImageGenerationService {
             petReferenceImageData,
             petInfo,
             isBackCover: true,
+            storyPageCount: storyPages.length,
+            styleReferenceImages: takeStyleReferences(),
+            onRetry: retryListener(getBackCoverPageNumber(storyPages.length)),
           });
           generatedImages.push(backCoverImage);
+          await reportCompleted(getBackCoverPageNumber(storyPages.length));
           console.log('[Back Cover] ✓ Generated successfully');
         } catch (error) {
           console.error('[Back Cover] Failed:', error);
@@ -529,8 +488,6 @@ export class ImageGenerationService {
     const pageStartTime = Date.now();
 
     try {
-      const supabase = getSupabase();
-
       // Fetch child's reference photo (cached after first call)
       const photoFetchStart = Date.now();
       const referenceImageUrl = await this.getChildReferencePhoto(bookOrderId);
@@ -541,115 +498,237 @@ export class ImageGenerationService {
       console.log(`[Page ${storyPage.page_number}] Starting generation (photo fetch: ${photoFetchTime}ms)`);
       console.log(`[Page ${storyPage.page_number}] Reference photo: ${referenceImageUrl ? 'Yes' : 'No'}`);
 
-      // Generate image with Gemini 2.5 Flash Image
       const genStart = Date.now();
-      const genAI = getGemini();
-      const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-flash-image',
-        // Note: responseModalities defaults to ['Text', 'Image'] for this model
+      const { imageBuffer, prompt: moderatedPrompt, retryCount, moderation } = await this.generateModeratedImage({
+        prompt,
+        referenceImages: referenceImageUrl ? [await urlToBase64(referenceImageUrl)] : [],
+        referenceCaption: `This is ${childFirstName}, the main character. Use this person's exact appearance throughout.`,
+        label: `Page ${storyPage.page_number}`,
+        pageNumber: storyPage.page_number,
+        illustrationStyle,
+      }, (request) => this.getProvider().generate(request));
+      const genTime = Date.now() - genStart;
+
+      console.log(`[Page ${storyPage.page_number}] AI generation completed in ${Math.round(genTime / 1000)}s`);
+
+      const generatedImage = await this.saveGeneratedImage({
+        bookOrderId,
+        storyPageId: storyPage.id,
+        pageNumber: storyPage.page_number,
+        imagePath: `${bookOrderId}/page-${storyPage.page_number}.png`,
+        imageBuffer,
+        prompt: moderatedPrompt,
+        retryCount,
+        moderation,
       });
 
-      // Prepare input parts: reference image(s) + prompt
-      const parts: any[] = [];
+      const totalTime = Date.now() - pageStartTime;
+      console.log(`[Page ${storyPage.page_number}] ✓ Complete in ${Math.round(totalTime / 1000)}s (AI: ${Math.round(genTime / 1000)}s)`);
 
-      if (referenceImageUrl) {
-        // Convert reference image to base64
-        const referenceImageData = await urlToBase64(referenceImageUrl);
-        parts.push(referenceImageData);
-        // Add instruction about the reference
-        parts.push({ text: `This is ${childFirstName}, the main character. Use this person's exact appearance throughout.` });
-      }
+      return generatedImage;
+    } catch (error) {
+      console.error(`Error generating image for page ${storyPage.page_number}:`, error);
+      throw error;
+    }
+  }
 
-      // Add the main prompt
-      parts.push({ text: prompt });
+  /**
+   * Regenerates one existing image in place (same row and storage path)
+   * Story pages get a fresh prompt from their current text; covers reuse their stored prompt
+   */
+  async regenerateImage(params: { imageId: string; promptAdjustment?: string }): Promise<any> {
+    const { imageId, promptAdjustment } = params;
+    const supabase = getSupabase();
+
+    const { data: image, error } = await supabase
+      .from('generated_images')
+      .select(`
+        *,
+        story_page:story_pages(*),
+        book_order:book_orders(child_first_name, illustration_style)
+      `)
+      .eq('id', imageId)
+      .single();
+
+    if (error || !image) {
+      throw new Error(`Image not found: ${imageId}`);
+    }
 
-      const result = await model.generateContent(parts);
-      const response = result.response;
+    const bookOrderId = image.book_order_id;
+    const childFirstName = image.book_order.child_first_name;
+    const illustrationStyle = image.book_order.illustration_style;
+    const isFrontCover = image.page_number === FRONT_COVER_PAGE_NUMBER;
+    const label = image.story_page ? `Page ${image.page_number}` : isFrontCover ? 'Front Cover' : 'Back Cover';
 
-      // Gemini returns image as base64 in response
-      if (!response || !response.candidates || response.candidates.length === 0) {
-        throw new Error('No image generated from Gemini');
-      }
+    let prompt = image.story_page
+      ? this.buildImagePrompt(image.story_page, illustrationStyle, childFirstName)
+      : image.generation_prompt;
 
-      const genTime = Date.now() - genStart;
-      console.log(`[Page ${storyPage.page_number}] AI generation completed in ${Math.round(genTime / 1000)}s`);
+    if (promptAdjustment) {
+      prompt += `\n\nAdditional direction for this image: ${promptAdjustment}`;
+    }
 
-      // Extract image data from response
-      // Note: Gemini's image generation returns the image in the response
-      const downloadStart = Date.now();
-      const candidate = response.candidates[0];
+    const referenceImages: ReferenceImage[] = [];
+    const referenceImageUrl = await this.getChildReferencePhoto(bookOrderId);
+    if (referenceImageUrl) {
+      referenceImages.push(await urlToBase64(referenceImageUrl));
+    }
+    const petReferenceImageUrl = await this.getPetReferencePhoto(bookOrderId);
+    if (petReferenceImageUrl) {
+      referenceImages.push(await urlToBase64(petReferenceImageUrl));
+    }
 
-      // Gemini returns base64 encoded image in parts
-      let imageBuffer: Buffer | null = null;
+    console.log(`[${label}] Regenerating image ${imageId}...`);
+
+    const { imageBuffer, prompt: moderatedPrompt, retryCount, moderation } = await this.generateModeratedImage({
+      prompt,
+      referenceImages,
+      referenceCaption: `This is ${childFirstName}, the main character. Use this person's exact appearance.`,
+      label,
+      pageNumber: image.page_number,
+      illustrationStyle,
+    }, (request) => this.getProvider().generate(request));
+
+    const imagePath = image.story_page
+      ? `${bookOrderId}/page-${image.page_number}.png`
+      : `${bookOrderId}/cover-${isFrontCover ? 'front' : 'back'}.png`;
+
+    const regeneratedImage = await this.saveGeneratedImage({
+      bookOrderId,
+      storyPageId: image.story_page_id,
+      pageNumber: image.page_number,
+      imagePath,
+      imageBuffer,
+      prompt: moderatedPrompt,
+      retryCount,
+      moderation,
+      replaceImageId: imageId,
+    });
+
+    console.log(`[${label}] ✓ Regenerated`);
+    return regeneratedImage;
+  }
 
-      if (candidate.content && candidate.content.parts) {
-        for (const part of candidate.content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-            imageBuffer = Buffer.from(part.inlineData.data, 'base64');
-            break;
-          }
-        }
+  /**
+   * Generates an image and runs it through moderation, regenerating with a
+   * safer prompt while the retry budget lasts
+   * Returns the last attempt even if it never passed; saving it sends it to manual review
+   */
+  private async generateModeratedImage(
+    request: IllustrationRequest,
+    generate: (request: IllustrationRequest) => Promise<IllustrationResult>,
+    onRetry?: RetryListener
+  ): Promise<{ imageBuffer: Buffer; prompt: string; retryCount: number; moderation: ImageModerationResult }> {
+    const moderationService = this.getModerationService();
+    const retryBudget = moderationService.getImageRetryBudget();
+    const label = request.label || 'Image';
+    let prompt = request.prompt;
+
+    for (let retryCount = 0; ; retryCount++) {
+      const { imageBuffer, mimeType } = await generate({ ...request, prompt });
+      const moderation = await moderationService.scoreImage({
+        imageBuffer,
+        mimeType,
+        prompt,
+        pageNumber: request.pageNumber,
+      });
+
+      if (!moderation.reviewRequired) {
+        return { imageBuffer, prompt, retryCount, moderation };
       }
 
-      if (!imageBuffer) {
-        throw new Error('No image data found in Gemini response');
+      if (retryCount >= retryBudget) {
+        console.warn(`[${label}] Still flagged after ${retryCount} regeneration(s), sending to manual review`);
+        return { imageBuffer, prompt, retryCount, moderation };
       }
 
-      const downloadTime = Date.now() - downloadStart;
+      console.warn(`[${label}] Failed moderation ${JSON.stringify(moderation.flags)}, regenerating (${retryCount + 1}/${retryBudget})...`);
+      await onRetry?.(retryCount + 1, retryBudget);
+      prompt = this.buildModerationRetryPrompt(request.prompt, moderation);
+    }
+  }
 
-      // Upload to Supabase Storage
-      const uploadStart = Date.now();
-      const imagePath = `${bookOrderId}/page-${storyPage.page_number}.png`;
+  /**
+   * Appends guidance about what the moderation check objected to
+   */
+  private buildModerationRetryPrompt(originalPrompt: string, moderation: ImageModerationResult): string {
+    const flagged = Object.keys(moderation.flags);
+    const reason = flagged.length > 0 ? `it was flagged as ${flagged.join(', ')}` : 'parts of it looked borderline';
 
-      const { error: uploadError } = await supabase.storage
-        .from('generated-images')
-        .upload(imagePath, imageBuffer, {
-          contentType: 'image/png',
-          upsert: true,
-        });
+    let prompt = `${originalPrompt}\n\n`;
+    prompt += `IMPORTANT: The previous image for this scene was rejected by our child-safety check because ${reason}. `;
+    prompt += `Create a new image of the same scene that is gentle, friendly and clearly suitable for young children: `;
+    prompt += `no weapons, injuries, frightening faces, revealing clothing or unkind portrayals of anyone.`;
 
-      if (uploadError) {
-        throw uploadError;
-      }
+    return prompt;
+  }
 
-      const uploadTime = Date.now() - uploadStart;
+  /**
+   * Uploads an image to Supabase Storage and records it in generated_images
+   * Images that exhausted their moderation retries also get a ModerationReview
+   */
+  private async saveGeneratedImage(params: {
+    bookOrderId: string;
+    storyPageId: string | null;
+    pageNumber: number;
+    imagePath: string;
+    imageBuffer: Buffer;
+    prompt: string;
+    retryCount?: number;
+    moderation?: ImageModerationResult;
+    // Overwrites this generated_images row instead of inserting a new one
+    replaceImageId?: string;
+  }): Promise<any> {
+    const { bookOrderId, storyPageId, pageNumber, imagePath, imageBuffer, prompt, retryCount = 0, moderation, replaceImageId } = params;
+    const supabase = getSupabase();
+
+    const { error: uploadError } = await supabase.storage
+      .from('generated-images')
+      .upload(imagePath, imageBuffer, {
+        contentType: 'image/png',
+        upsert: true,
+      });
 
-      // Get public URL
-      const { data: { publicUrl: imageUrl } } = supabase.storage
-        .from('generated-images')
-        .getPublicUrl(imagePath);
+    if (uploadError) {
+      throw uploadError;
+    }
 
-      // Save to database
-      const dbStart = Date.now();
-      const { data: generatedImage, error: dbError } = await supabase
-        .from('generated_images')
-        .insert({
-          book_order_id: bookOrderId,
-          story_page_id: storyPage.id,
-          page_number: storyPage.page_number,
-          image_url: imageUrl,
-          generation_prompt: prompt,
-          width: 2048,
-          height: 2048,
-          content_moderation_passed: false,
-          moderation_flags: {},
-        })
-        .select()
-        .single();
+    // Get public URL
+    const { data: { publicUrl } } = supabase.storage
+      .from('generated-images')
+      .getPublicUrl(imagePath);
+
+    // Replacements keep the same storage path, so bust browser caches
+    const imageUrl = replaceImageId ? `${publicUrl}?v=${Date.now()}` : publicUrl;
+
+    const imageData = {
+      book_order_id: bookOrderId,
+      story_page_id: storyPageId,
+      page_number: pageNumber,
+      image_url: imageUrl,
+      generation_prompt: prompt,
+      width: 2048,
+      height: 2048,
+      file_size_bytes: imageBuffer.length,
+      content_moderation_passed: moderation ? !moderation.reviewRequired : false,
+      moderation_flags: moderation || {},
+      retry_count: retryCount,
+    };
 
-      if (dbError) {
-        throw dbError;
-      }
-      const dbTime = Date.now() - dbStart;
+    // One row per page: a page generated again (e.g. after a failed run) overwrites its row
+    const { data: generatedImage, error: dbError } = replaceImageId
+      ? await supabase.from('generated_images').update(imageData).eq('id', replaceImageId).select().single()
+      : await supabase.from('generated_images').upsert(imageData, { onConflict: 'book_order_id,page_number' }).select().single();
 
-      const totalTime = Date.now() - pageStartTime;
-      console.log(`[Page ${storyPage.page_number}] ✓ Complete in ${Math.round(totalTime / 1000)}s (AI: ${Math.round(genTime / 1000)}s, download: ${downloadTime}ms, upload: ${uploadTime}ms, db: ${dbTime}ms)`);
+    if (dbError) {
+      throw dbError;
+    }
 
-      return generatedImage;
-    } catch (error) {
-      console.error(`Error generating image for page ${storyPage.page_number}:`, error);
-      throw error;
+    if (moderation?.reviewRequired) {
+      await this.getModerationService().recordImageReview(bookOrderId, generatedImage.id, moderation);
     }
+
+    return generatedImage;
   }
 
   private buildImagePrompt(storyPage: any, illustrationStyle: string, childFirstName: string): string {
@@ -838,121 +917,73 @@ export class ImageGenerationService {
    * Generates a single image within an ongoing conversation for consistency
    */
   private async generateImageInConversation(params: {
-    chat: any;
+    session: IllustrationSession;
     bookOrderId: string;
     storyPage: any;
     illustrationStyle: string;
     childFirstName: string;
-    referenceImageData: any;
-    petReferenceImageData?: any;
+    referenceImageData: ReferenceImage | null;
+    petReferenceImageData?: ReferenceImage | null;
     petInfo?: { name: string; type: string; colour: string } | null;
     pageIndex: number;
     totalPages: number;
+    styleReferenceImages?: ReferenceImage[];
+    onRetry?: RetryListener;
   }): Promise<any> {
-    const { chat, bookOrderId, storyPage, illustrationStyle, childFirstName, referenceImageData, petReferenceImageData, petInfo, pageIndex } = params;
+    const { session, bookOrderId, storyPage, illustrationStyle, childFirstName, referenceImageData, petReferenceImageData, petInfo, pageIndex, styleReferenceImages = [], onRetry } = params;
     const pageStartTime = Date.now();
 
     try {
-      const supabase = getSupabase();
-
       // Build the prompt for this specific page
-      const prompt = this.buildConversationalImagePrompt(storyPage, illustrationStyle, childFirstName, pageIndex, petInfo);
+      const prompt = this.buildConversationalImagePrompt(storyPage, illustrationStyle, childFirstName, pageIndex, petInfo)
+        + this.buildStyleReferenceNote(styleReferenceImages.length, childFirstName);
 
       console.log(`[Page ${storyPage.page_number}] Sending prompt in conversation context...`);
 
-      // Send message in conversation - include reference in EVERY image for maximum consistency
+      // Include reference in EVERY image for maximum consistency
       // Gemini docs note that character features can drift, so we reinforce every time
-      const messageParts: any[] = [];
+      const referenceImages: ReferenceImage[] = [];
 
-      // ALWAYS include child reference image for strongest character consistency
       if (referenceImageData) {
-        messageParts.push(referenceImageData);
+        referenceImages.push(referenceImageData);
         console.log(`[Page ${storyPage.page_number}] Including child reference image for consistency`);
       }
 
-      // Include pet reference if available
       if (petReferenceImageData && petInfo) {
-        messageParts.push(petReferenceImageData);
+        referenceImages.push(petReferenceImageData);
         console.log(`[Page ${storyPage.page_number}] Including pet reference image for ${petInfo.name}`);
       }
 
-      messageParts.push({ text: prompt });
+      if (styleReferenceImages.length > 0) {
+        referenceImages.push(...styleReferenceImages);
+        console.log(`[Page ${storyPage.page_number}] Including ${styleReferenceImages.length} earlier illustration(s) to resume the style`);
+      }
 
       const genStart = Date.now();
-      const result = await chat.sendMessage(messageParts);
-      const response = result.response;
+      const { imageBuffer, prompt: moderatedPrompt, retryCount, moderation } = await this.generateModeratedImage({
+        prompt,
+        referenceImages,
+        label: `Page ${storyPage.page_number}`,
+        pageNumber: storyPage.page_number,
+        illustrationStyle,
+      }, (request) => session.generate(request), onRetry);
       const genTime = Date.now() - genStart;
 
-      if (!response || !response.candidates || response.candidates.length === 0) {
-        throw new Error('No image generated from Gemini in conversation');
-      }
-
       console.log(`[Page ${storyPage.page_number}] AI generation completed in ${Math.round(genTime / 1000)}s`);
 
-      // Extract image data from response
-      const candidate = response.candidates[0];
-      let imageBuffer: Buffer | null = null;
-
-      if (candidate.content && candidate.content.parts) {
-        for (const part of candidate.content.parts) {
-          if (part.inlineData && part.inlineData.data) {
-            imageBuffer = Buffer.from(part.inlineData.data, 'base64');
-            break;
-          }
-        }
-      }
-
-      if (!imageBuffer) {
-        throw new Error('No image data found in Gemini response');
-      }
-
-      // Upload to Supabase Storage
-      const uploadStart = Date.now();
-      const imagePath = `${bookOrderId}/page-${storyPage.page_number}.png`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('generated-images')
-        .upload(imagePath, imageBuffer, {
-          contentType: 'image/png',
-          upsert: true,
-        });
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      const uploadTime = Date.now() - uploadStart;
-
-      // Get public URL
-      const { data: { publicUrl: imageUrl } } = supabase.storage
-        .from('generated-images')
-        .getPublicUrl(imagePath);
-
-      // Save to database
-      const dbStart = Date.now();
-      const { data: generatedImage, error: dbError } = await supabase
-        .from('generated_images')
-        .insert({
-          book_order_id: bookOrderId,
-          story_page_id: storyPage.id,
-          page_number: storyPage.page_number,
-          image_url: imageUrl,
-          generation_prompt: prompt,
-          width: 2048,
-          height: 2048,
-          content_moderation_passed: false,
-          moderation_flags: {},
-        })
-        .select()
-        .single();
-
-      if (dbError) {
-        throw dbError;
-      }
-      const dbTime = Date.now() - dbStart;
+      const generatedImage = await this.saveGeneratedImage({
+        bookOrderId,
+        storyPageId: storyPage.id,
+        pageNumber: storyPage.page_number,
+        imagePath: `${bookOrderId}/page-${storyPage.page_number}.png`,
+        imageBuffer,
+        prompt: moderatedPrompt,
+        retryCount,
+        moderation,
+      });
 
       const totalTime = Date.now() - pageStartTime;
-      console.log(`[Page ${storyPage.page_number}] ✓ Complete in ${Math.round(totalTime / 1000)}s (AI: ${Math.round(genTime / 1000)}s, upload: ${uploadTime}ms, db: ${dbTime}ms)`);
+      console.log(`[Page ${storyPage.page_number}] ✓ Complete in ${Math.round(totalTime / 1000)}s (AI: ${Math.round(genTime / 1000)}s)`);
 
       return generatedImage;
     } catch (error) {
@@ -965,168 +996,79 @@ export class ImageGenerationService {
    * Generates a cover within an ongoing conversation for consistency
    */
   private async generateCoverInConversation(params: {
-    chat: any;
+    session: IllustrationSession;
     bookOrderId: string;
     storyTitle: string;
     childFirstName: string;
     illustrationStyle: string;
-    referenceImageData: any;
-    petReferenceImageData?: any;
+    referenceImageData: ReferenceImage | null;
+    petReferenceImageData?: ReferenceImage | null;
     petInfo?: { name: string; type: string; colour: string } | null;
     isBackCover: boolean;
+    storyPageCount: number;
+    styleReferenceImages?: ReferenceImage[];
+    onRetry?: RetryListener;
   }): Promise<any> {
-    const { chat, bookOrderId, storyTitle, childFirstName, illustrationStyle, referenceImageData, petReferenceImageData, petInfo, isBackCover } = params;
+    const { session, bookOrderId, storyTitle, childFirstName, illustrationStyle, referenceImageData, petReferenceImageData, petInfo, isBackCover, storyPageCount, styleReferenceImages = [], onRetry } = params;
     const coverType = isBackCover ? 'back' : 'front';
-    const pageNumber = isBackCover ? 16 : 0;
+    const label = `${coverType.toUpperCase()} Cover`;
+    const pageNumber = isBackCover ? getBackCoverPageNumber(storyPageCount) : FRONT_COVER_PAGE_NUMBER;
     const coverStartTime = Date.now();
 
     try {
-      const supabase = getSupabase();
-
       // Build the cover prompt with pet info
-      const prompt = isBackCover
+      const prompt = (isBackCover
         ? this.buildConversationalBackCoverPrompt(storyTitle, childFirstName, illustrationStyle, petInfo)
-        : this.buildConversationalFrontCoverPrompt(storyTitle, childFirstName, illustrationStyle, petInfo);
+        : this.buildConversationalFrontCoverPrompt(storyTitle, childFirstName, illustrationStyle, petInfo))
+        + this.buildStyleReferenceNote(styleReferenceImages.length, childFirstName);
 
-      console.log(`[${coverType.toUpperCase()} Cover] Sending prompt in conversation context...`);
-      console.log(`[${coverType.toUpperCase()} Cover] Prompt length: ${prompt.length} chars`);
-      console.log(`[${coverType.toUpperCase()} Cover] Prompt preview:`, prompt.substring(0, 300) + '...');
+      console.log(`[${label}] Sending prompt in conversation context...`);
+      console.log(`[${label}] Prompt length: ${prompt.length} chars`);
+      console.log(`[${label}] Prompt preview:`, prompt.substring(0, 300) + '...');
 
-      // Send message in conversation with reference reinforcement
-      const messageParts: any[] = [];
+      // Always include references for covers for stronger consistency
+      const referenceImages: ReferenceImage[] = [];
 
-      // Always include child reference for covers for stronger consistency
       if (referenceImageData) {
-        messageParts.push(referenceImageData);
-        console.log(`[${coverType.toUpperCase()} Cover] Including child reference image`);
+        referenceImages.push(referenceImageData);
+        console.log(`[${label}] Including child reference image`);
       }
 
-      // Include pet reference if available
       if (petReferenceImageData && petInfo) {
-        messageParts.push(petReferenceImageData);
-        console.log(`[${coverType.toUpperCase()} Cover] Including pet reference image for ${petInfo.name}`);
+        referenceImages.push(petReferenceImageData);
+        console.log(`[${label}] Including pet reference image for ${petInfo.name}`);
       }
 
-      messageParts.push({ text: prompt });
+      if (styleReferenceImages.length > 0) {
+        referenceImages.push(...styleReferenceImages);
+        console.log(`[${label}] Including ${styleReferenceImages.length} earlier illustration(s) to resume the style`);
+      }
 
       const genStart = Date.now();
-      const result = await chat.sendMessage(messageParts);
-      const response = result.response;
+      const { imageBuffer, prompt: moderatedPrompt, retryCount, moderation } = await this.generateModeratedImage({
+        prompt,
+        referenceImages,
+        label,
+        pageNumber,
+        illustrationStyle,
+      }, (request) => session.generate(request), onRetry);
       const genTime = Date.now() - genStart;
 
-      // DIAGNOSTIC LOGGING: Capture Gemini response details
-      console.log(`[${coverType.toUpperCase()} Cover] Gemini response received in ${Math.round(genTime / 1000)}s`);
-      console.log(`[${coverType.toUpperCase()} Cover] Response exists:`, !!response);
-      console.log(`[${coverType.toUpperCase()} Cover] Candidates exist:`, !!response?.candidates);
-      console.log(`[${coverType.toUpperCase()} Cover] Candidates count:`, response?.candidates?.length || 0);
-
-      // Log prompt feedback (safety filters)
-      if (response?.promptFeedback) {
-        console.log(`[${coverType.toUpperCase()} Cover] Prompt Feedback:`, JSON.stringify(response.promptFeedback, null, 2));
-      }
-
-      // Log candidate details if they exist
-      if (response?.candidates && response.candidates.length > 0) {
-        response.candidates.forEach((candidate: any, idx: number) => {
-          console.log(`[${coverType.toUpperCase()} Cover] Candidate ${idx}:`, {
-            finishReason: candidate.finishReason,
-            safetyRatings: candidate.safetyRatings,
-            hasContent: !!candidate.content,
-            partsCount: candidate.content?.parts?.length || 0
-          });
-        });
-      }
-
-      if (!response || !response.candidates || response.candidates.length === 0) {
-        // Log full response structure for debugging
-        console.error(`[${coverType.toUpperCase()} Cover] FULL RESPONSE OBJECT:`, JSON.stringify(response, null, 2));
-        throw new Error(`No ${coverType} cover image generated from Gemini in conversation`);
-      }
-
-      console.log(`[${coverType.toUpperCase()} Cover] AI generation completed in ${Math.round(genTime / 1000)}s`);
-
-      // Extract image data from response
-      const candidate = response.candidates[0];
-      let imageBuffer: Buffer | null = null;
-
-      if (candidate.content && candidate.content.parts) {
-        console.log(`[${coverType.toUpperCase()} Cover] Processing ${candidate.content.parts.length} parts from response`);
-        for (const part of candidate.content.parts as any[]) {
-          console.log(`[${coverType.toUpperCase()} Cover] Part type:`, {
-            hasInlineData: !!part.inlineData,
-            hasText: !!part.text,
-            hasFileData: !!part.fileData
-          });
-          if (part.inlineData && part.inlineData.data) {
-            imageBuffer = Buffer.from(part.inlineData.data, 'base64');
-            console.log(`[${coverType.toUpperCase()} Cover] Image buffer extracted: ${imageBuffer.length} bytes`);
-            break;
-          }
-        }
-      }
-
-      if (!imageBuffer) {
-        console.error(`[${coverType.toUpperCase()} Cover] No image buffer found. Candidate structure:`, JSON.stringify({
-          hasContent: !!candidate.content,
-          hasParts: !!candidate.content?.parts,
-          partsCount: candidate.content?.parts?.length || 0,
-          parts: candidate.content?.parts?.map((p: any) => ({
-            hasInlineData: !!p.inlineData,
-            hasText: !!p.text,
-            hasFileData: !!p.fileData,
-            textPreview: p.text?.substring(0, 100)
-          }))
-        }, null, 2));
-        throw new Error(`No image data found in Gemini response for ${coverType} cover`);
-      }
-
-      // Upload to Supabase Storage
-      const uploadStart = Date.now();
-      const imagePath = `${bookOrderId}/cover-${coverType}.png`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('generated-images')
-        .upload(imagePath, imageBuffer, {
-          contentType: 'image/png',
-          upsert: true,
-        });
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      const uploadTime = Date.now() - uploadStart;
-
-      // Get public URL
-      const { data: { publicUrl: imageUrl } } = supabase.storage
-        .from('generated-images')
-        .getPublicUrl(imagePath);
-
-      // Save to database
-      const dbStart = Date.now();
-      const { data: generatedImage, error: dbError } = await supabase
-        .from('generated_images')
-        .insert({
-          book_order_id: bookOrderId,
-          story_page_id: null,
-          page_number: pageNumber,
-          image_url: imageUrl,
-          generation_prompt: prompt,
-          width: 2048,
-          height: 2048,
-          content_moderation_passed: false,
-          moderation_flags: {},
-        })
-        .select()
-        .single();
-
-      if (dbError) {
-        throw dbError;
-      }
-      const dbTime = Date.now() - dbStart;
+      console.log(`[${label}] AI generation completed in ${Math.round(genTime / 1000)}s (${imageBuffer.length} bytes)`);
+
+      const generatedImage = await this.saveGeneratedImage({
+        bookOrderId,
+        storyPageId: null,
+        pageNumber,
+        imagePath: `${bookOrderId}/cover-${coverType}.png`,
+        imageBuffer,
+        prompt: moderatedPrompt,
+        retryCount,
+        moderation,
+      });
 
       const totalTime = Date.now() - coverStartTime;
-      console.log(`[${coverType.toUpperCase()} Cover] ✓ Complete in ${Math.round(totalTime / 1000)}s (AI: ${Math.round(genTime / 1000)}s, upload: ${uploadTime}ms, db: ${dbTime}ms)`);
+      console.log(`[${label}] ✓ Complete in ${Math.round(totalTime / 1000)}s (AI: ${Math.round(genTime / 1000)}s)`);
 
       return generatedImage;
     } catch (error) {
@@ -1135,6 +1077,41 @@ export class ImageGenerationService {
     }
   }
 
+  /**
+   * Loads a few of a book's existing illustrations (front cover first, then the
+   * latest pages) to seed a resumed conversation
+   */
+  private async loadStyleReferences(existingImages: { page_number: number; image_url: string }[]): Promise<ReferenceImage[]> {
+    const candidates = [
+      ...existingImages.filter((img) => img.page_number === FRONT_COVER_PAGE_NUMBER),
+      ...existingImages.filter((img) => img.page_number !== FRONT_COVER_PAGE_NUMBER).reverse(),
+    ].slice(0, MAX_STYLE_REFERENCE_IMAGES);
+
+    const references: ReferenceImage[] = [];
+    for (const image of candidates) {
+      try {
+        references.push(await urlToBase64(image.image_url));
+      } catch (error) {
+        // Consistency hint only; carry on without this image
+        console.warn(`Could not load existing image for page ${image.page_number} as a style reference`);
+      }
+    }
+    return references;
+  }
+
+  /**
+   * Explains the trailing style reference images, if any were attached
+   */
+  private buildStyleReferenceNote(styleReferenceCount: number, childFirstName: string): string {
+    if (styleReferenceCount === 0) {
+      return '';
+    }
+
+    let note = `\n\nSTYLE REFERENCE: The last ${styleReferenceCount === 1 ? 'attached image is an illustration' : `${styleReferenceCount} attached images are illustrations`} `;
+    note += `already made for this book. Match their art style, colour palette and the way ${childFirstName} is drawn exactly.`;
+    return note;
+  }
+
   /**
    * Builds a conversational front cover prompt
    */
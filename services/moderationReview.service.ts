@@ -0,0 +1,312 @@
+import { createClient } from '@supabase/supabase-js';
+import { ImageGenerationService } from './imageGeneration.service';
+import {
+  ContentModerationService,
+  IMAGE_REVIEW_TYPE,
+  ModerationReviewStatus,
+  STORY_TEXT_REVIEW_TYPE,
+} from './contentModeration.service';
+import { RefundService } from './refund.service';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { signStorageUrls } from '@/lib/storage';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+export const REVIEW_DECISIONS = ['approve', 'reject-regenerate', 'reject-refund'] as const;
+
+export type ReviewDecision = typeof REVIEW_DECISIONS[number];
+
+export interface ReviewDecisionParams {
+  reviewId: string;
+  reviewerUserId: string;
+  decision: ReviewDecision;
+  notes?: string;
+}
+
+export interface ReviewDecisionResult {
+  reviewId: string;
+  reviewStatus: ModerationReviewStatus;
+  bookOrderId: string;
+  bookStatus: string;
+  // True when the book can go back into the generation pipeline
+  resumeProcessing: boolean;
+}
+
+/**
+ * Staff decisions on content held by ContentModerationService
+ */
+export class ModerationReviewService {
+  constructor(
+    private imageService: ImageGenerationService = new ImageGenerationService(),
+    private moderationService: ContentModerationService = new ContentModerationService(),
+    private refundService: RefundService = new RefundService()
+  ) {}
+
+  async listPendingReviews(): Promise<any[]> {
+    const supabase = getSupabase();
+
+    const { data, error } = await supabase
+      .from('moderation_reviews')
+      .select(`
+        *,
+        book_order:book_orders(id, child_first_name, child_age, illustration_style, status)
+      `)
+      .eq('requires_manual_review', true)
+      .eq('review_status', 'pending')
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list moderation reviews: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Returns the review with the content it refers to: the story and its pages
+   * for text reviews, the image and its story page for image reviews
+   */
+  async getReviewDetail(reviewId: string): Promise<{ review: any; story: any | null; image: any | null }> {
+    const supabase = getSupabase();
+
+    const { data: review } = await supabase
+      .from('moderation_reviews')
+      .select(`
+        *,
+        book_order:book_orders(id, child_first_name, child_age, illustration_style, status)
+      `)
+      .eq('id', reviewId)
+      .single();
+
+    if (!review) {
+      throw new NotFoundError('Moderation review');
+    }
+
+    if (review.review_type === STORY_TEXT_REVIEW_TYPE) {
+      const { data: story } = await supabase
+        .from('generated_stories')
+        .select('id, title, moderation_flags, story_pages(*)')
+        .eq('id', review.content_id)
+        .single();
+
+      story?.story_pages?.sort((a: any, b: any) => a.page_number - b.page_number);
+      return { review, story: story || null, image: null };
+    }
+
+    const { data: image } = await supabase
+      .from('generated_images')
+      .select('*, story_page:story_pages(*)')
+      .eq('id', review.content_id)
+      .single();
+
+    if (!image) {
+      return { review, story: null, image: null };
+    }
+
+    // The illustration bucket is private; reviewers get a short-lived signed URL
+    const signedUrls = await signStorageUrls(supabase, [image.image_url]);
+    return { review, story: null, image: { ...image, image_url: signedUrls.get(image.image_url) || null } };
+  }
+
+  /**
+   * Records a staff decision and moves the book on:
+   * - approve: clears the content; the book resumes once nothing else is pending
+   * - reject-regenerate: throws the content away and makes it again
+   * - reject-refund: cancels the book and refunds its payment
+   */
+  async decide(params: ReviewDecisionParams): Promise<ReviewDecisionResult> {
+    const { reviewId, reviewerUserId, decision, notes } = params;
+    const supabase = getSupabase();
+
+    const { data: review } = await supabase
+      .from('moderation_reviews')
+      .select('*')
+      .eq('id', reviewId)
+      .single();
+
+    if (!review) {
+      throw new NotFoundError('Moderation review');
+    }
+
+    if (review.review_status !== 'pending') {
+      throw new ValidationError(`Review has already been ${review.review_status}`);
+    }
+
+    const bookOrderId = review.book_order_id;
+    const reviewStatus: ModerationReviewStatus = decision === 'approve' ? 'approved' : 'rejected';
+
+    // Only a pending review can be decided, so two staff decisions can't both regenerate or refund
+    const { data: decided, error: reviewError } = await supabase
+      .from('moderation_reviews')
+      .update({
+        review_status: reviewStatus,
+        reviewer_user_id: reviewerUserId,
+        reviewer_notes: notes || null,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('id', reviewId)
+      .eq('review_status', 'pending')
+      .select('id');
+
+    if (reviewError) {
+      throw new Error(`Failed to record review decision: ${reviewError.message}`);
+    }
+
+    if (!decided || decided.length === 0) {
+      throw new ValidationError('Review has already been decided');
+    }
+
+    console.log(`[moderation-review] ${decision} on ${review.review_type} review ${reviewId} for book ${bookOrderId}`);
+
+    if (decision === 'reject-refund') {
+      await this.closePendingReviews(bookOrderId, reviewerUserId, 'Book rejected and refunded');
+      return this.rejectAndRefund(reviewId, bookOrderId);
+    }
+
+    if (decision === 'approve') {
+      await this.markContentApproved(review);
+    } else if (review.review_type === STORY_TEXT_REVIEW_TYPE) {
+      // Everything downstream of the story (images, other reviews) is now stale
+      await this.closePendingReviews(bookOrderId, reviewerUserId, 'Story rejected and regenerated');
+      await this.discardStory(bookOrderId, review.content_id);
+    } else if (review.review_type === IMAGE_REVIEW_TYPE) {
+      // A regenerated image that fails moderation again records a new pending review
+      await this.imageService.regenerateImage({ imageId: review.content_id });
+    }
+
+    return this.resumeIfClear(reviewId, reviewStatus, bookOrderId);
+  }
+
+  private async markContentApproved(review: any): Promise<void> {
+    const supabase = getSupabase();
+    const table = review.review_type === STORY_TEXT_REVIEW_TYPE ? 'generated_stories' : 'generated_images';
+
+    await supabase
+      .from(table)
+      .update({ content_moderation_passed: true })
+      .eq('id', review.content_id);
+  }
+
+  /**
+   * Deletes the story with its pages and images so the pipeline writes a new one
+   */
+  private async discardStory(bookOrderId: string, storyId: string): Promise<void> {
+    const supabase = getSupabase();
+
+    const { data: imageFiles } = await supabase.storage
+      .from('generated-images')
+      .list(bookOrderId);
+
+    if (imageFiles && imageFiles.length > 0) {
+      await supabase.storage
+        .from('generated-images')
+        .remove(imageFiles.map((file) => `${bookOrderId}/${file.name}`));
+    }
+
+    await supabase
+      .from('generated_images')
+      .delete()
+      .eq('book_order_id', bookOrderId);
+
+    // story_pages cascade with the story
+    const { error } = await supabase
+      .from('generated_stories')
+      .delete()
+      .eq('id', storyId);
+
+    if (error) {
+      throw new Error(`Failed to discard rejected story: ${error.message}`);
+    }
+
+    // A parent who reviews stories gets to see the replacement too
+    await supabase
+      .from('book_orders')
+      .update({ story_approved_at: null })
+      .eq('id', bookOrderId);
+  }
+
+  private async closePendingReviews(bookOrderId: string, reviewerUserId: string, notes: string): Promise<void> {
+    const supabase = getSupabase();
+
+    await supabase
+      .from('moderation_reviews')
+      .update({
+        review_status: 'rejected',
+        reviewer_user_id: reviewerUserId,
+        reviewer_notes: notes,
+        reviewed_at: new Date().toISOString(),
+      })
+      .eq('book_order_id', bookOrderId)
+      .eq('review_status', 'pending');
+  }
+
+  private async rejectAndRefund(reviewId: string, bookOrderId: string): Promise<ReviewDecisionResult> {
+    const supabase = getSupabase();
+
+    await supabase
+      .from('book_orders')
+      .update({
+        status: 'cancelled',
+        error_message: 'Rejected during content review',
+      })
+      .eq('id', bookOrderId);
+
+    await supabase
+      .from('payments')
+      .update({ status: 'refund-pending' })
+      .eq('book_order_id', bookOrderId)
+      .eq('status', 'completed');
+
+    await this.refundService.refundBookQuietly(bookOrderId, 'Rejected during content review');
+
+    return {
+      reviewId,
+      reviewStatus: 'rejected',
+      bookOrderId,
+      bookStatus: 'cancelled',
+      resumeProcessing: false,
+    };
+  }
+
+  /**
+   * Puts the book back into processing once no review is pending, unless it
+   * has left content-review meanwhile (cancelled or refunded)
+   */
+  private async resumeIfClear(
+    reviewId: string,
+    reviewStatus: ModerationReviewStatus,
+    bookOrderId: string
+  ): Promise<ReviewDecisionResult> {
+    if (await this.moderationService.hasPendingReviews(bookOrderId)) {
+      return { reviewId, reviewStatus, bookOrderId, bookStatus: 'content-review', resumeProcessing: false };
+    }
+
+    const supabase = getSupabase();
+    const { data: resumed } = await supabase
+      .from('book_orders')
+      .update({ status: 'processing' })
+      .eq('id', bookOrderId)
+      .eq('status', 'content-review')
+      .select('id');
+
+    if (resumed && resumed.length > 0) {
+      return { reviewId, reviewStatus, bookOrderId, bookStatus: 'processing', resumeProcessing: true };
+    }
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('status')
+      .eq('id', bookOrderId)
+      .single();
+
+    return { reviewId, reviewStatus, bookOrderId, bookStatus: bookOrder?.status, resumeProcessing: false };
+  }
+}
+
+export const moderationReviewService = new ModerationReviewService();
@@ -0,0 +1,164 @@
+import { createClient } from '@supabase/supabase-js';
+import { getNarrationProvider, NarrationProvider } from './providers/narration.provider';
+import { estimateWordTimings } from '@/lib/narration';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+const NARRATION_BUCKET = 'narration-audio';
+
+export interface NarrateBookResult {
+  narrated: number;
+  skipped: number;
+}
+
+/**
+ * Read-aloud audio for each story page, with the time every word is spoken
+ * so the digital viewer can highlight along. Pages that already have
+ * narration are left alone, so a retried book only narrates what's missing.
+ *
+ * Pages the provider couldn't narrate get word timings estimated from the
+ * reading speed for the child's age, so read-along works on every page.
+ */
+export class NarrationService {
+  constructor(private provider?: NarrationProvider) {}
+
+  async narrateBook(bookOrderId: string, storyId: string): Promise<NarrateBookResult> {
+    const supabase = getSupabase();
+    const provider = this.provider || getNarrationProvider();
+
+    const { data: pages, error } = await supabase
+      .from('story_pages')
+      .select('id, page_number, page_text, narration_audio_url')
+      .eq('story_id', storyId)
+      .order('page_number', { ascending: true });
+
+    if (error || !pages) {
+      throw new Error(`Failed to fetch story pages: ${error?.message}`);
+    }
+
+    const result: NarrateBookResult = { narrated: 0, skipped: 0 };
+
+    for (const page of pages) {
+      if (page.narration_audio_url || !page.page_text?.trim()) {
+        result.skipped++;
+        continue;
+      }
+
+      const narration = await provider.synthesize({ text: page.page_text, label: `page ${page.page_number}` });
+      const extension = narration.mimeType === 'audio/wav' ? 'wav' : 'mp3';
+      const filePath = `${bookOrderId}/page-${page.page_number}.${extension}`;
+
+      const { error: uploadError } = await supabase.storage
+        .from(NARRATION_BUCKET)
+        .upload(filePath, narration.audioBuffer, {
+          contentType: narration.mimeType,
+          upsert: true,
+        });
+
+      if (uploadError) {
+        throw new Error(`Failed to upload narration for page ${page.page_number}: ${uploadError.message}`);
+      }
+
+      const { data: { publicUrl } } = supabase.storage
+        .from(NARRATION_BUCKET)
+        .getPublicUrl(filePath);
+
+      const { error: updateError } = await supabase
+        .from('story_pages')
+        .update({
+          narration_audio_url: `${publicUrl}?v=${Date.now()}`,
+          narration_duration_ms: narration.durationMs,
+          narration_voice: `${provider.name}:${narration.voice}`,
+          narration_generated_at: new Date().toISOString(),
+          word_timings: narration.wordTimings,
+          word_timings_source: 'narration',
+        })
+        .eq('id', page.id);
+
+      if (updateError) {
+        throw new Error(`Failed to save narration for page ${page.page_number}: ${updateError.message}`);
+      }
+
+      result.narrated++;
+    }
+
+    console.log(`[narration] Narrated ${result.narrated} page(s) of book ${bookOrderId} with ${provider.name}, ${result.skipped} skipped`);
+    return result;
+  }
+
+  /**
+   * Fills in estimated word timings for pages that have none; returns how many
+   */
+  async estimateMissingWordTimings(storyId: string, childAge?: number | null): Promise<number> {
+    const supabase = getSupabase();
+
+    const { data: pages } = await supabase
+      .from('story_pages')
+      .select('id, page_text')
+      .eq('story_id', storyId)
+      .is('word_timings', null);
+
+    let estimated = 0;
+    for (const page of pages || []) {
+      if (!page.page_text?.trim()) {
+        continue;
+      }
+
+      await supabase
+        .from('story_pages')
+        .update({
+          word_timings: estimateWordTimings(page.page_text, childAge),
+          word_timings_source: 'estimated',
+        })
+        .eq('id', page.id)
+        .is('word_timings', null);
+      estimated++;
+    }
+
+    if (estimated > 0) {
+      console.log(`[narration] Estimated word timings for ${estimated} page(s) of story ${storyId}`);
+    }
+    return estimated;
+  }
+
+  /**
+   * Deletes a book's narration files and clears it from the story pages
+   */
+  async removeNarration(bookOrderId: string): Promise<void> {
+    const supabase = getSupabase();
+    const storage = supabase.storage.from(NARRATION_BUCKET);
+    const { data: files } = await storage.list(bookOrderId);
+
+    if (files && files.length > 0) {
+      await storage.remove(files.map((file) => `${bookOrderId}/${file.name}`));
+    }
+
+    const { data: story } = await supabase
+      .from('generated_stories')
+      .select('id')
+      .eq('book_order_id', bookOrderId)
+      .maybeSingle();
+
+    if (story) {
+      await supabase
+        .from('story_pages')
+        .update({
+          narration_audio_url: null,
+          narration_duration_ms: null,
+          narration_voice: null,
+          narration_generated_at: null,
+          word_timings: null,
+          word_timings_source: null,
+        })
+        .eq('story_id', story.id);
+    }
+  }
+}
+
+export const narrationService = new NarrationService();
@@ -0,0 +1,178 @@
+import { createClient } from '@supabase/supabase-js';
+import { ImageGenerationService } from './imageGeneration.service';
+import { PDFGenerationService } from './pdfGeneration.service';
+import { NotFoundError, RateLimitError, ValidationError } from '@/lib/errors';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+const DEFAULT_PAGE_REGENERATION_ALLOWANCE = 3;
+
+/**
+ * Free single-page regenerations per completed book (PAGE_REGENERATION_ALLOWANCE)
+ */
+export function getPageRegenerationAllowance(): number {
+  const allowance = parseInt(process.env.PAGE_REGENERATION_ALLOWANCE || '', 10);
+  return isNaN(allowance) || allowance < 0 ? DEFAULT_PAGE_REGENERATION_ALLOWANCE : allowance;
+}
+
+interface RegeneratePageParams {
+  bookOrderId: string;
+  storyPageId: string;
+  promptAdjustment?: string;
+}
+
+export interface RegeneratePageResult {
+  image: any;
+  pdfRebuilt: boolean;
+  // 'content-review' when the new image has to be checked by staff first
+  bookStatus: string;
+  regenerationsRemaining: number;
+}
+
+/**
+ * Replaces one illustration of a completed book and rebuilds its PDF
+ */
+export class PageRegenerationService {
+  constructor(
+    private imageService: ImageGenerationService = new ImageGenerationService(),
+    private pdfService: PDFGenerationService = new PDFGenerationService()
+  ) {}
+
+  async regeneratePage(params: RegeneratePageParams): Promise<RegeneratePageResult> {
+    const { bookOrderId, storyPageId, promptAdjustment } = params;
+    const supabase = getSupabase();
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('id, status, child_first_name, template:story_templates(title)')
+      .eq('id', bookOrderId)
+      .single();
+
+    if (!bookOrder) {
+      throw new NotFoundError('Book');
+    }
+
+    if (bookOrder.status !== 'completed') {
+      throw new ValidationError('Pages can only be regenerated once the book is complete');
+    }
+
+    const { data: image } = await supabase
+      .from('generated_images')
+      .select('id, story_page_id')
+      .eq('book_order_id', bookOrderId)
+      .eq('story_page_id', storyPageId)
+      .single();
+
+    if (!image) {
+      throw new NotFoundError('Page illustration');
+    }
+
+    const { used, lastAttempt } = await this.getRegenerationUsage(bookOrderId);
+    const allowance = getPageRegenerationAllowance();
+
+    if (used >= allowance) {
+      throw new RateLimitError(`This book has used all ${allowance} page regenerations`);
+    }
+
+    // Reserve a regeneration up front; the unique (book, attempt) index stops two requests spending the same one.
+    // Numbered after the last attempt rather than the count, since failed attempts keep their number
+    const { data: reserved, error: reserveError } = await supabase
+      .from('page_regenerations')
+      .insert({
+        book_order_id: bookOrderId,
+        story_page_id: storyPageId,
+        attempt: lastAttempt + 1,
+        prompt_adjustment: promptAdjustment || null,
+      })
+      .select('id')
+      .single();
+
+    if (reserveError || !reserved) {
+      throw new ValidationError('Another regeneration is already in progress for this book');
+    }
+
+    let regeneratedImage;
+    try {
+      regeneratedImage = await this.imageService.regenerateImage({
+        imageId: image.id,
+        promptAdjustment,
+      });
+    } catch (error) {
+      // Give the regeneration back if nothing was produced
+      await supabase
+        .from('page_regenerations')
+        .update({ failed_at: new Date().toISOString() })
+        .eq('id', reserved.id);
+      throw error;
+    }
+
+    const regenerationsRemaining = allowance - (used + 1);
+
+    if (!regeneratedImage.content_moderation_passed) {
+      // The image is waiting in the review queue; dropping the PDF row makes the
+      // pipeline rebuild it once staff approve
+      await supabase.from('generated_pdfs').delete().eq('book_order_id', bookOrderId);
+      await supabase
+        .from('book_orders')
+        .update({ status: 'content-review' })
+        .eq('id', bookOrderId);
+
+      return { image: regeneratedImage, pdfRebuilt: false, bookStatus: 'content-review', regenerationsRemaining };
+    }
+
+    const { data: story } = await supabase
+      .from('generated_stories')
+      .select('id')
+      .eq('book_order_id', bookOrderId)
+      .single();
+
+    if (!story) {
+      throw new NotFoundError('Story');
+    }
+
+    // generatePDF reads the current pages and images itself
+    const template = bookOrder.template as { title?: string } | null;
+    await this.pdfService.generatePDF({
+      bookOrderId,
+      storyId: story.id,
+      title: template?.title || `${bookOrder.child_first_name}'s Story`,
+      pages: [],
+      images: [],
+    });
+
+    return { image: regeneratedImage, pdfRebuilt: true, bookStatus: 'completed', regenerationsRemaining };
+  }
+
+  /**
+   * Free regenerations the book has left
+   */
+  async getRegenerationsRemaining(bookOrderId: string): Promise<number> {
+    const { used } = await this.getRegenerationUsage(bookOrderId);
+    return Math.max(0, getPageRegenerationAllowance() - used);
+  }
+
+  // Counted from page_regenerations, which owners can't write (book_orders they can)
+  private async getRegenerationUsage(bookOrderId: string): Promise<{ used: number; lastAttempt: number }> {
+    const { data: regenerations, error } = await getSupabase()
+      .from('page_regenerations')
+      .select('attempt, failed_at')
+      .eq('book_order_id', bookOrderId);
+
+    if (error) {
+      throw new Error(`Failed to count page regenerations: ${error.message}`);
+    }
+
+    return {
+      used: (regenerations || []).filter((regeneration) => !regeneration.failed_at).length,
+      lastAttempt: Math.max(0, ...(regenerations || []).map((regeneration) => regeneration.attempt)),
+    };
+  }
+}
+
+export const pageRegenerationService = new PageRegenerationService();
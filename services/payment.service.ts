@@ -0,0 +1,503 @@
+import { createClient } from '@supabase/supabase-js';
+import type Stripe from 'stripe';
+import { getStripe, isMockPaymentEnabled } from '@/lib/stripe';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { DEFAULT_CURRENCY, PRODUCT_TIER_DETAILS, formatPrice, fromCents } from '@/lib/pricing';
+import { PricingService } from './pricing.service';
+import { RefundService } from './refund.service';
+import { fromStripeRefund } from './providers/refund.provider';
+import type { Currency, PriceQuote } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// Smallest amount Stripe will charge in each currency
+const STRIPE_MINIMUM_CHARGE_CENTS: Record<Currency, number> = {
+  NZD: 50,
+  AUD: 50,
+  USD: 50,
+  GBP: 30,
+};
+
+// Payment rows in these statuses can still be confirmed by a webhook
+const UNCONFIRMED_PAYMENT_STATUSES = ['pending', 'failed'];
+
+interface CreateCheckoutSessionParams {
+  bookOrderId: string;
+  userId: string;
+  customerEmail?: string;
+  appUrl: string;
+  productTier: string;
+  currency: string;
+  promoCode?: string | null;
+}
+
+interface MockPaymentParams {
+  bookOrderId: string;
+  userId: string;
+  productTier: string;
+  currency: string;
+  promoCode?: string | null;
+}
+
+export interface CheckoutSessionResult {
+  // Null when a promo code made the order free and no Stripe session was needed
+  sessionId: string | null;
+  url: string;
+  // True when the order was completed without Stripe and the book is ready to process
+  resumeProcessing: boolean;
+}
+
+export interface WebhookResult {
+  eventType: string;
+  bookOrderId?: string;
+  // True when this event confirmed payment and moved the book into processing
+  resumeProcessing: boolean;
+}
+
+/**
+ * Columns of a payments row describing what was charged
+ * amount_nzd is the legacy name for the total, which is in the row's currency
+ */
+export function getPaymentAmounts(quote: PriceQuote) {
+  return {
+    amount_nzd: fromCents(quote.totalCents), // Decimal type requires string
+    currency: quote.currency,
+    product_tier: quote.productTier,
+    subtotal_amount: fromCents(quote.subtotalCents),
+    discount_amount: fromCents(quote.discountCents),
+    tax_amount: fromCents(quote.taxCents),
+    tax_rate: quote.taxRate.toFixed(4),
+    promo_code_id: quote.promoCode?.id || null,
+  };
+}
+
+/**
+ * Stripe Checkout sessions and the webhook events that confirm them
+ *
+ * Payment rows are keyed by stripe_payment_intent_id, so replayed or
+ * out-of-order webhook deliveries update the same row; a book is only sent
+ * to processing by the delivery that confirms its payment.
+ */
+export class PaymentService {
+  constructor(
+    private pricingService: PricingService = new PricingService(),
+    private refundService: RefundService = new RefundService()
+  ) {}
+
+  async createCheckoutSession(params: CreateCheckoutSessionParams): Promise<CheckoutSessionResult> {
+    const { bookOrderId, userId, customerEmail, appUrl } = params;
+    const supabase = getSupabase();
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('id, status, child_first_name, payments(status)')
+      .eq('id', bookOrderId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!bookOrder) {
+      throw new NotFoundError('Book');
+    }
+
+    if (bookOrder.payments?.some((payment: any) => payment.status === 'completed')) {
+      throw new ValidationError('This book has already been paid for');
+    }
+
+    if (bookOrder.status !== 'draft') {
+      throw new ValidationError('Only a draft book can be paid for');
+    }
+
+    // Charged amounts always come from the catalogue, never from the client
+    const quote = await this.pricingService.quote({
+      productTier: params.productTier,
+      currency: params.currency,
+      promoCode: params.promoCode,
+      userId,
+    });
+
+    // A session left open in another tab could still be paid on top of this one
+    await this.expireOpenSessions(bookOrderId);
+
+    if (quote.totalCents === 0) {
+      return this.completeFreeOrder(bookOrderId, userId, quote, appUrl);
+    }
+
+    if (quote.totalCents < STRIPE_MINIMUM_CHARGE_CENTS[quote.currency]) {
+      throw new ValidationError(`Orders under ${formatPrice(STRIPE_MINIMUM_CHARGE_CENTS[quote.currency], quote.currency)} can't be paid by card`);
+    }
+
+    // Stripe metadata values are strings; the webhook rebuilds the payment row from them
+    const metadata = {
+      bookOrderId,
+      userId,
+      productTier: quote.productTier,
+      currency: quote.currency,
+      subtotalCents: String(quote.subtotalCents),
+      discountCents: String(quote.discountCents),
+      taxCents: String(quote.taxCents),
+      taxRate: String(quote.taxRate),
+      promoCodeId: quote.promoCode?.id || '',
+    };
+
+    const tier = PRODUCT_TIER_DETAILS[quote.productTier];
+
+    const session = await getStripe().checkout.sessions.create({
+      mode: 'payment',
+      client_reference_id: bookOrderId,
+      customer_email: customerEmail,
+      line_items: [
+        {
+          quantity: 1,
+          price_data: {
+            currency: quote.currency.toLowerCase(),
+            unit_amount: quote.totalCents,
+            product_data: {
+              name: `${bookOrder.child_first_name}'s personalised storybook`,
+              description: quote.promoCode
+                ? `${tier.name} (promo code ${quote.promoCode.code})`
+                : tier.name,
+            },
+          },
+        },
+      ],
+      metadata,
+      payment_intent_data: { metadata },
+      success_url: `${appUrl}/books/${bookOrderId}/status?checkout=success`,
+      cancel_url: `${appUrl}/books/${bookOrderId}/checkout?checkout=cancelled`,
+    });
+
+    if (!session.url) {
+      throw new Error('Stripe did not return a checkout URL');
+    }
+
+    const { error: recordError } = await supabase
+      .from('checkout_sessions')
+      .insert({ book_order_id: bookOrderId, stripe_checkout_session_id: session.id });
+
+    if (recordError) {
+      // Untracked, it couldn't be expired by the next checkout
+      await getStripe().checkout.sessions.expire(session.id);
+      throw new Error(`Failed to record checkout session: ${recordError.message}`);
+    }
+
+    console.log(`[payments] Created checkout session ${session.id} for book ${bookOrderId} (${formatPrice(quote.totalCents, quote.currency)})`);
+
+    return { sessionId: session.id, url: session.url, resumeProcessing: false };
+  }
+
+  /**
+   * Development only (ENABLE_MOCK_PAYMENTS): records a paid order without
+   * Stripe, priced the same way as a real checkout so test orders carry real
+   * tiers and amounts
+   */
+  async completeMockPayment(params: MockPaymentParams): Promise<{ paymentId: string; resumeProcessing: boolean }> {
+    const { bookOrderId, userId } = params;
+
+    if (!isMockPaymentEnabled()) {
+      throw new ValidationError('Mock payments are disabled');
+    }
+
+    const quote = await this.pricingService.quote({
+      productTier: params.productTier,
+      currency: params.currency,
+      promoCode: params.promoCode,
+      userId,
+    });
+
+    const paymentId = await this.recordPaymentWithoutStripe(bookOrderId, userId, quote, {
+      stripe_payment_intent_id: `mock_pi_${Date.now()}`,
+    });
+
+    console.log(`[payments] Recorded mock payment ${paymentId} for book ${bookOrderId}`);
+
+    return { paymentId, resumeProcessing: await this.startProcessing(bookOrderId) };
+  }
+
+  /**
+   * Applies a verified Stripe event; unknown event types are acknowledged and ignored
+   */
+  async handleWebhookEvent(event: Stripe.Event): Promise<WebhookResult> {
+    switch (event.type) {
+      case 'checkout.session.completed':
+      case 'checkout.session.async_payment_succeeded': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        // Delayed payment methods complete the session before the money arrives
+        const paid = session.payment_status === 'paid' || session.payment_status === 'no_payment_required';
+        return this.recordCheckoutSession(event.type, session, paid ? 'completed' : 'pending');
+      }
+
+      case 'checkout.session.async_payment_failed': {
+        const session = event.data.object as Stripe.Checkout.Session;
+        return this.recordCheckoutSession(event.type, session, 'failed');
+      }
+
+      case 'payment_intent.payment_failed': {
+        const paymentIntent = event.data.object as Stripe.PaymentIntent;
+        await getSupabase()
+          .from('payments')
+          .update({ status: 'failed' })
+          .eq('stripe_payment_intent_id', paymentIntent.id)
+          .eq('status', 'pending');
+
+        return { eventType: event.type, bookOrderId: paymentIntent.metadata?.bookOrderId, resumeProcessing: false };
+      }
+
+      // Settles refunds Stripe accepted as pending
+      case 'charge.refund.updated': {
+        const refund = event.data.object as Stripe.Refund;
+        await this.refundService.applyProviderUpdate(fromStripeRefund(refund));
+        return { eventType: event.type, resumeProcessing: false };
+      }
+
+      default:
+        return { eventType: event.type, resumeProcessing: false };
+    }
+  }
+
+  private async recordCheckoutSession(
+    eventType: string,
+    session: Stripe.Checkout.Session,
+    status: 'pending' | 'completed' | 'failed'
+  ): Promise<WebhookResult> {
+    const supabase = getSupabase();
+    const bookOrderId = session.metadata?.bookOrderId || session.client_reference_id;
+    const userId = session.metadata?.userId;
+    const paymentIntentId = typeof session.payment_intent === 'string'
+      ? session.payment_intent
+      : session.payment_intent?.id;
+
+    if (!bookOrderId || !userId || !paymentIntentId) {
+      console.warn(`[payments] Ignoring ${eventType} for session ${session.id} without book, user or payment intent`);
+      return { eventType, resumeProcessing: false };
+    }
+
+    // Creates the row on the first delivery; later deliveries leave it to the update below
+    const { error: insertError } = await supabase
+      .from('payments')
+      .upsert({
+        book_order_id: bookOrderId,
+        user_id: userId,
+        stripe_payment_intent_id: paymentIntentId,
+        stripe_checkout_session_id: session.id,
+        ...getPaymentAmounts(this.getQuoteFromSession(session)),
+        status: 'pending',
+      }, { onConflict: 'stripe_payment_intent_id', ignoreDuplicates: true });
+
+    if (insertError) {
+      throw new Error(`Failed to record payment: ${insertError.message}`);
+    }
+
+    await supabase
+      .from('checkout_sessions')
+      .update({ status: 'complete' })
+      .eq('stripe_checkout_session_id', session.id);
+
+    if (status === 'pending') {
+      return { eventType, bookOrderId, resumeProcessing: false };
+    }
+
+    // Only moves an unconfirmed row, so a replayed event can't undo a refund or restart a book
+    const { data: updated, error: updateError } = await supabase
+      .from('payments')
+      .update({
+        status,
+        paid_at: status === 'completed' ? new Date().toISOString() : null,
+        payment_method: session.payment_method_types?.[0] || null,
+      })
+      .eq('stripe_payment_intent_id', paymentIntentId)
+      .in('status', UNCONFIRMED_PAYMENT_STATUSES)
+      .select('id, promo_code_id');
+
+    if (updateError) {
+      throw new Error(`Failed to update payment: ${updateError.message}`);
+    }
+
+    if (status !== 'completed' || !updated || updated.length === 0) {
+      return { eventType, bookOrderId, resumeProcessing: false };
+    }
+
+    console.log(`[payments] Payment ${paymentIntentId} confirmed for book ${bookOrderId}`);
+
+    if (updated[0].promo_code_id) {
+      await this.pricingService.redeemPromoCode({
+        promoCodeId: updated[0].promo_code_id,
+        paymentId: updated[0].id,
+        userId,
+      });
+    }
+
+    return { eventType, bookOrderId, resumeProcessing: await this.startProcessing(bookOrderId) };
+  }
+
+  /**
+   * Expires the book's earlier Checkout sessions; throws if one has already
+   * been paid and is waiting for its webhook
+   */
+  private async expireOpenSessions(bookOrderId: string): Promise<void> {
+    const supabase = getSupabase();
+
+    const { data: openSessions } = await supabase
+      .from('checkout_sessions')
+      .select('id, stripe_checkout_session_id')
+      .eq('book_order_id', bookOrderId)
+      .eq('status', 'open');
+
+    for (const openSession of openSessions || []) {
+      const sessionId = openSession.stripe_checkout_session_id;
+      let status: string;
+
+      try {
+        status = (await getStripe().checkout.sessions.expire(sessionId)).status || 'expired';
+      } catch (error) {
+        // Stripe refuses to expire a session that is already complete or expired
+        status = (await getStripe().checkout.sessions.retrieve(sessionId)).status || 'open';
+      }
+
+      await supabase
+        .from('checkout_sessions')
+        .update({ status })
+        .eq('id', openSession.id);
+
+      if (status === 'complete') {
+        throw new ValidationError('A payment for this book is already being confirmed');
+      }
+
+      if (status === 'open') {
+        throw new Error(`Failed to expire checkout session ${sessionId}`);
+      }
+
+      console.log(`[payments] Expired earlier checkout session ${sessionId} for book ${bookOrderId}`);
+    }
+  }
+
+  /**
+   * A promo code covered the whole price, so there is nothing for Stripe to charge
+   */
+  private async completeFreeOrder(
+    bookOrderId: string,
+    userId: string,
+    quote: PriceQuote,
+    appUrl: string
+  ): Promise<CheckoutSessionResult> {
+    await this.recordPaymentWithoutStripe(bookOrderId, userId, quote, {
+      // Unique per book, so a double-submitted free order can't be recorded twice
+      stripe_payment_intent_id: `free_${bookOrderId}`,
+      payment_method: 'promo-code',
+    });
+
+    console.log(`[payments] Promo code ${quote.promoCode!.code} covered book ${bookOrderId} in full`);
+
+    return {
+      sessionId: null,
+      url: `${appUrl}/books/${bookOrderId}/status`,
+      resumeProcessing: await this.startProcessing(bookOrderId),
+    };
+  }
+
+  /**
+   * Records a free or mock order's payment. Without a Stripe charge nothing
+   * else limits how many orders use a promo code at once, so the code is
+   * redeemed (or the order refused) while the payment is still pending
+   */
+  private async recordPaymentWithoutStripe(
+    bookOrderId: string,
+    userId: string,
+    quote: PriceQuote,
+    columns: { stripe_payment_intent_id: string; payment_method?: string }
+  ): Promise<string> {
+    const supabase = getSupabase();
+
+    const { data: payment, error } = await supabase
+      .from('payments')
+      .insert({
+        book_order_id: bookOrderId,
+        user_id: userId,
+        ...columns,
+        ...getPaymentAmounts(quote),
+        status: 'pending',
+      })
+      .select('id')
+      .single();
+
+    // Unique violation: the first submission already paid for it
+    if (error?.code === '23505') {
+      throw new ValidationError('This book has already been paid for');
+    }
+
+    if (error || !payment) {
+      throw new Error(`Failed to record payment: ${error?.message}`);
+    }
+
+    if (quote.promoCode) {
+      try {
+        await this.pricingService.redeemPromoCode({
+          promoCodeId: quote.promoCode.id,
+          paymentId: payment.id,
+          userId,
+          enforceLimits: true,
+        });
+      } catch (redeemError) {
+        await supabase.from('payments').delete().eq('id', payment.id);
+        throw redeemError;
+      }
+    }
+
+    const { error: completeError } = await supabase
+      .from('payments')
+      .update({ status: 'completed', paid_at: new Date().toISOString() })
+      .eq('id', payment.id);
+
+    if (completeError) {
+      throw new Error(`Failed to complete payment: ${completeError.message}`);
+    }
+
+    return payment.id;
+  }
+
+  /**
+   * Moves a paid draft into processing; false if it had already left draft
+   */
+  private async startProcessing(bookOrderId: string): Promise<boolean> {
+    const { data: started } = await getSupabase()
+      .from('book_orders')
+      .update({
+        status: 'processing',
+        processing_started_at: new Date().toISOString(),
+      })
+      .eq('id', bookOrderId)
+      .eq('status', 'draft')
+      .select('id');
+
+    return (started?.length || 0) > 0;
+  }
+
+  /**
+   * Rebuilds the quote the session was created from out of its metadata
+   */
+  private getQuoteFromSession(session: Stripe.Checkout.Session): PriceQuote {
+    const metadata = session.metadata || {};
+    const totalCents = session.amount_total || 0;
+
+    return {
+      productTier: (metadata.productTier || 'digital-pdf') as PriceQuote['productTier'],
+      currency: (session.currency?.toUpperCase() || metadata.currency || DEFAULT_CURRENCY) as Currency,
+      subtotalCents: Number(metadata.subtotalCents || totalCents),
+      discountCents: Number(metadata.discountCents || 0),
+      totalCents,
+      taxCents: Number(metadata.taxCents || 0),
+      taxRate: Number(metadata.taxRate || 0),
+      taxLabel: null,
+      promoCode: metadata.promoCodeId
+        ? { id: metadata.promoCodeId, code: '', description: null }
+        : null,
+    };
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -1,6 +1,19 @@
 import PDFDocument from 'pdfkit';
 import { createClient } from '@supabase/supabase-js';
-import axios from 'axios';
+import { findBackCoverImage, findFrontCoverImage, getPdfPageCount } from '@/lib/bookPages';
+import { loadStorageObject } from '@/lib/storage';
+import {
+  getCoverMarginInches,
+  getCoverSpreadInches,
+  getPaddedPageCount,
+  getPrintCoverPath,
+  getPrintInteriorPath,
+  getPrintProfile,
+  POINTS_PER_INCH,
+  PrintProfile,
+} from '@/lib/printProfile';
+import type { ProductTier } from '@/types';
+import { EpubGenerationService } from './epubGeneration.service';
 
 // Lazy initialization to ensure environment variables are loaded
 function getSupabase() {
@@ -18,7 +31,46 @@ interface GeneratePDFParams {
   images: any[];
 }
 
+interface GeneratePrintFilesParams {
+  bookOrderId: string;
+  title: string;
+  pages: any[];
+  images: any[];
+  productTier: ProductTier;
+}
+
+export interface PrintFilesResult {
+  interiorPageCount: number;
+  spineWidthInches: number;
+}
+
+/**
+ * Page geometry in points. Text keeps at least TEXT_MARGIN (and the safe zone)
+ * inside the trim edge; images run to the edge of the page, bleed included
+ */
+interface PageLayout {
+  pageSize: number;
+  bleed: number;
+  safeZone: number;
+}
+
+// Square format: 8" x 8" (576 points); screen PDFs are never trimmed
+const SCREEN_LAYOUT: PageLayout = { pageSize: 576, bleed: 0, safeZone: 0 };
+
+const TEXT_MARGIN = 60;
+
+// Spines narrower than this are left without a title (vendors won't print one)
+const MIN_SPINE_TEXT_INCHES = 0.25;
+
+interface Box {
+  x: number;
+  y: number;
+  size: number;
+}
+
 export class PDFGenerationService {
+  constructor(private epubService: EpubGenerationService = new EpubGenerationService()) {}
+
   async generatePDF(params: GeneratePDFParams): Promise<any> {
     const { bookOrderId, storyId, title, pages, images } = params;
 
@@ -56,6 +108,27 @@ export class PDFGenerationService {
         bookOrderId,
       });
 
+      // Printed tiers also need the print-ready files; made before generated_pdfs
+      // is saved, since a saved PDF makes the pipeline skip this step on retry
+      const printedTier = await this.getPrintedTier(bookOrderId);
+      if (printedTier) {
+        await this.generatePrintFiles({
+          bookOrderId,
+          title,
+          pages: storyPages,
+          images: generatedImages || [],
+          productTier: printedTier,
+        });
+      }
+
+      // The EPUB is rebuilt with the PDF, from the same pages and images
+      const epub = await this.epubService.generateEpub({
+        bookOrderId,
+        title,
+        pages: storyPages,
+        images: generatedImages || [],
+      });
+
       // Upload to Supabase Storage
       const filePath = `${bookOrderId}/book.pdf`;
 
@@ -70,19 +143,22 @@ export class PDFGenerationService {
         throw new Error(`Failed to upload PDF: ${uploadError.message}`);
       }
 
-      // Get public URL
+      // Get public URL (versioned, since rebuilds overwrite the same file)
       const { data: { publicUrl } } = supabase.storage
         .from('generated-pdfs')
         .getPublicUrl(filePath);
+      const pdfUrl = `${publicUrl}?v=${Date.now()}`;
 
       // Save to database (upsert in case of retry)
       const { data: generatedPdf, error: dbError } = await supabase
         .from('generated_pdfs')
         .upsert({
           book_order_id: bookOrderId,
-          pdf_url: publicUrl, // Correct field name
+          pdf_url: pdfUrl,
           file_size_bytes: pdfBuffer.length,
-          page_count: (storyPages.length * 2) + 2, // *2 for text+image per story page, +2 for covers
+          page_count: getPdfPageCount(storyPages.length),
+          epub_url: epub.epubUrl,
+          epub_file_size_bytes: epub.fileSizeBytes,
         }, {
           onConflict: 'book_order_id'
         })
@@ -102,6 +178,222 @@ export class PDFGenerationService {
     }
   }
 
+  /**
+   * Print-ready interior and wraparound cover as separate PDFs, for the print provider
+   */
+  async generatePrintFiles(params: GeneratePrintFilesParams): Promise<PrintFilesResult> {
+    const { bookOrderId, title, pages, images, productTier } = params;
+    const profile = getPrintProfile(productTier);
+    const supabase = getSupabase();
+
+    console.log(`Generating print files (${productTier}, ${profile.trimInches}" trim, ${profile.bleedInches}" bleed)...`);
+
+    const interior = await this.createPrintInteriorBuffer({ title, pages, images }, profile);
+    const cover = await this.createPrintCoverBuffer({ title, images }, interior.pageCount, profile);
+
+    for (const [filePath, buffer] of [
+      [getPrintInteriorPath(bookOrderId), interior.buffer],
+      [getPrintCoverPath(bookOrderId), cover.buffer],
+    ] as const) {
+      const { error: uploadError } = await supabase.storage
+        .from('generated-pdfs')
+        .upload(filePath, buffer, {
+          contentType: 'application/pdf',
+          upsert: true,
+        });
+
+      if (uploadError) {
+        throw new Error(`Failed to upload ${filePath}: ${uploadError.message}`);
+      }
+    }
+
+    console.log(`Print files generated: ${interior.pageCount} interior pages, ${cover.spineWidthInches}" spine`);
+    return { interiorPageCount: interior.pageCount, spineWidthInches: cover.spineWidthInches };
+  }
+
+  /**
+   * Printed tier of the book's completed payment, or null for digital books
+   */
+  private async getPrintedTier(bookOrderId: string): Promise<ProductTier | null> {
+    const { data: payments } = await getSupabase()
+      .from('payments')
+      .select('product_tier')
+      .eq('book_order_id', bookOrderId)
+      .eq('status', 'completed');
+
+    const tier = payments?.find((payment) => payment.product_tier !== 'digital-pdf')?.product_tier;
+    return tier || null;
+  }
+
+  /**
+   * Interior pages only (the covers are a separate file): a title page on the
+   * first right-hand page, so every text page faces its illustration, then
+   * blank pages up to the vendor's page multiple
+   */
+  private async createPrintInteriorBuffer(
+    data: { title: string; pages: any[]; images: any[] },
+    profile: PrintProfile
+  ): Promise<{ buffer: Buffer; pageCount: number }> {
+    const bleed = profile.bleedInches * POINTS_PER_INCH;
+    const layout: PageLayout = {
+      pageSize: profile.trimInches * POINTS_PER_INCH + bleed * 2,
+      bleed,
+      safeZone: profile.safeZoneInches * POINTS_PER_INCH,
+    };
+
+    let pageCount = 0;
+    const buffer = await this.renderDocument(data.title, [layout.pageSize, layout.pageSize], async (doc) => {
+      doc.addPage();
+      this.addTitlePage(doc, data.title, layout);
+      pageCount++;
+
+      for (const page of data.pages) {
+        doc.addPage();
+        this.addTextPage(doc, page, layout);
+        pageCount++;
+
+        // A missing illustration leaves a blank page rather than shifting every later spread
+        doc.addPage();
+        pageCount++;
+        const image = data.images.find((img: any) => img.page_number === page.page_number && img.story_page_id);
+        if (image?.image_url) {
+          try {
+            this.drawImageCovering(doc, await this.loadImage(image.image_url), 0, 0, layout.pageSize, layout.pageSize);
+          } catch (imgError) {
+            console.error(`Failed to load image for print page ${page.page_number}:`, imgError);
+          }
+        }
+      }
+
+      const paddedCount = getPaddedPageCount(pageCount, profile.pageMultiple);
+      while (pageCount < paddedCount) {
+        doc.addPage();
+        pageCount++;
+      }
+    });
+
+    return { buffer, pageCount };
+  }
+
+  /**
+   * One spread, left to right: back cover, spine, front cover, with the bleed
+   * (or casewrap wrap) around the outside
+   */
+  private async createPrintCoverBuffer(
+    data: { title: string; images: any[] },
+    interiorPageCount: number,
+    profile: PrintProfile
+  ): Promise<{ buffer: Buffer; spineWidthInches: number }> {
+    const spread = getCoverSpreadInches(interiorPageCount, profile);
+    const width = spread.width * POINTS_PER_INCH;
+    const height = spread.height * POINTS_PER_INCH;
+    const margin = getCoverMarginInches(profile) * POINTS_PER_INCH;
+    const trim = profile.trimInches * POINTS_PER_INCH;
+    const spine = spread.spine * POINTS_PER_INCH;
+    const safeZone = profile.safeZoneInches * POINTS_PER_INCH;
+
+    const backPanel: Box = { x: margin, y: margin, size: trim };
+    const frontPanel: Box = { x: margin + trim + spine, y: margin, size: trim };
+
+    const buffer = await this.renderDocument(data.title, [width, height], async (doc) => {
+      doc.addPage();
+
+      const backCover = findBackCoverImage(data.images);
+      if (backCover?.image_url) {
+        this.drawImageCovering(doc, await this.loadImage(backCover.image_url), 0, 0, margin + trim, height);
+      }
+      this.addBackCoverText(doc, backPanel, safeZone);
+
+      const frontCover = findFrontCoverImage(data.images);
+      if (frontCover?.image_url) {
+        this.drawImageCovering(doc, await this.loadImage(frontCover.image_url), frontPanel.x, 0, width - frontPanel.x, height);
+      } else {
+        this.addCoverPanelText(doc, data.title, frontPanel, safeZone);
+      }
+
+      doc.save();
+      doc.rect(margin + trim, 0, spine, height).fill('white');
+      doc.restore();
+
+      if (spread.spine >= MIN_SPINE_TEXT_INCHES) {
+        const centreX = margin + trim + spine / 2;
+        const centreY = height / 2;
+        const fontSize = Math.min(12, spine * 0.6);
+
+        doc.save();
+        doc.rotate(90, { origin: [centreX, centreY] });
+        doc.fontSize(fontSize)
+          .font('Times-Roman')
+          .fillColor('#000000')
+          .text(data.title, centreX - trim / 2 + safeZone, centreY - fontSize / 2, {
+            align: 'center',
+            width: trim - safeZone * 2,
+            lineBreak: false,
+          });
+        doc.restore();
+      }
+    });
+
+    return { buffer, spineWidthInches: spread.spine };
+  }
+
+  private async renderDocument(
+    title: string,
+    size: [number, number],
+    draw: (doc: PDFKit.PDFDocument) => Promise<void>
+  ): Promise<Buffer> {
+    return new Promise(async (resolve, reject) => {
+      const doc = new PDFDocument({
+        size,
+        margins: { top: 0, bottom: 0, left: 0, right: 0 },
+        autoFirstPage: false,
+        info: {
+          Title: title,
+          Author: 'Personalized Children\'s Storybooks',
+          Creator: 'Personalized Children\'s Storybooks',
+        },
+      });
+
+      const buffers: Buffer[] = [];
+      doc.on('data', buffers.push.bind(buffers));
+      doc.on('end', () => resolve(Buffer.concat(buffers)));
+      doc.on('error', reject);
+
+      try {
+        await draw(doc);
+        doc.end();
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+
+  // The generated-images bucket is private, so images are read with the service role
+  private async loadImage(imageUrl: string): Promise<Buffer> {
+    return (await loadStorageObject(getSupabase(), imageUrl)).data;
+  }
+
+  /**
+   * Scales the image to fill the box and clips what overflows
+   */
+  private drawImageCovering(
+    doc: PDFKit.PDFDocument,
+    imageBuffer: Buffer,
+    x: number,
+    y: number,
+    width: number,
+    height: number
+  ): void {
+    doc.save();
+    doc.rect(x, y, width, height).clip();
+    doc.image(imageBuffer, x, y, {
+      cover: [width, height],
+      align: 'center',
+      valign: 'center',
+    });
+    doc.restore();
+  }
+
   private async createPDFBuffer(data: {
     title: string;
     pages: any[];
@@ -134,7 +426,7 @@ export class PDFGenerationService {
       try {
         // Front Cover (page_number = 0)
         doc.addPage(); // Manually add first page
-        const frontCover = data.images.find((img: any) => img.page_number === 0);
+        const frontCover = findFrontCoverImage(data.images);
         if (frontCover?.image_url) {
           await this.addFrontCoverImage(doc, frontCover.image_url);
         } else {
@@ -147,7 +439,7 @@ export class PDFGenerationService {
         console.log(`Generating ${data.pages.length} story pages...`);
         for (let i = 0; i < data.pages.length; i++) {
           const page = data.pages[i];
-          const image = data.images.find((img: any) => img.page_number === page.page_number);
+          const image = data.images.find((img: any) => img.page_number === page.page_number && img.story_page_id);
 
           // Left page: Text only (white background, Baskerville font)
           console.log(`Adding text page ${page.page_number}...`);
@@ -158,8 +450,7 @@ export class PDFGenerationService {
           if (image?.image_url) {
             try {
               console.log(`Loading image for page ${page.page_number}...`);
-              const response = await axios.get(image.image_url, { responseType: 'arraybuffer' });
-              const imageBuffer = Buffer.from(response.data);
+              const imageBuffer = await this.loadImage(image.image_url);
 
               // Add square image as full-bleed (edge to edge)
               const SQUARE_SIZE = 576;
@@ -183,8 +474,8 @@ export class PDFGenerationService {
           }
         }
 
-        // Back Cover (page_number = 16) with programmatic text overlay
-        const backCover = data.images.find((img: any) => img.page_number === 16);
+        // Back Cover (follows the last story page) with programmatic text overlay
+        const backCover = findBackCoverImage(data.images);
         if (backCover?.image_url) {
           doc.addPage();
           await this.addBackCoverWithText(doc, backCover.image_url, data.title);
@@ -203,8 +494,7 @@ export class PDFGenerationService {
 
   private async addFrontCoverImage(doc: PDFKit.PDFDocument, imageUrl: string): Promise<void> {
     try {
-      const response = await axios.get(imageUrl, { responseType: 'arraybuffer' });
-      const imageBuffer = Buffer.from(response.data);
+      const imageBuffer = await this.loadImage(imageUrl);
 
       // Add square image as full-bleed (no margins for covers)
       const SQUARE_SIZE = 576;
@@ -225,8 +515,7 @@ export class PDFGenerationService {
 
   private async addBackCoverWithText(doc: PDFKit.PDFDocument, imageUrl: string, bookTitle: string): Promise<void> {
     try {
-      const response = await axios.get(imageUrl, { responseType: 'arraybuffer' });
-      const imageBuffer = Buffer.from(response.data);
+      const imageBuffer = await this.loadImage(imageUrl);
 
       // Add square image as full-bleed
       const SQUARE_SIZE = 576;
@@ -238,45 +527,7 @@ export class PDFGenerationService {
         valign: 'center',
       });
 
-      // Add text overlay with semi-transparent background
-      const textMargin = 60;
-      const textWidth = SQUARE_SIZE - (textMargin * 2);
-
-      // Add semi-transparent white rectangle for text readability
-      doc.save();
-      doc.rect(textMargin, SQUARE_SIZE / 2 - 100, textWidth, 200)
-        .fillOpacity(0.85)
-        .fill('white');
-      doc.restore();
-
-      // Add summary text
-      doc.fontSize(14)
-        .font('Times-Roman')
-        .fillColor('#000000')
-        .fillOpacity(1)
-        .text(
-          `A personalized adventure created especially for this story.`,
-          textMargin + 20,
-          SQUARE_SIZE / 2 - 60,
-          {
-            align: 'center',
-            width: textWidth - 40,
-            lineGap: 6,
-          }
-        );
-
-      // Add website or branding at bottom
-      doc.fontSize(10)
-        .fillColor('#666666')
-        .text(
-          'Created with Personalized Children\'s Storybooks',
-          textMargin,
-          SQUARE_SIZE - 80,
-          {
-            align: 'center',
-            width: textWidth,
-          }
-        );
+      this.addBackCoverText(doc, { x: 0, y: 0, size: SQUARE_SIZE }, SCREEN_LAYOUT.safeZone);
 
       console.log('Added back cover with text overlay to PDF');
     } catch (error) {
@@ -285,6 +536,89 @@ export class PDFGenerationService {
     }
   }
 
+  /**
+   * Blurb and branding over the back cover illustration, inside the given square
+   */
+  private addBackCoverText(doc: PDFKit.PDFDocument, box: Box, safeZone: number): void {
+    const textMargin = Math.max(TEXT_MARGIN, safeZone);
+    const textWidth = box.size - (textMargin * 2);
+    const middle = box.y + box.size / 2;
+
+    // Add semi-transparent white rectangle for text readability
+    doc.save();
+    doc.rect(box.x + textMargin, middle - 100, textWidth, 200)
+      .fillOpacity(0.85)
+      .fill('white');
+    doc.restore();
+
+    // Add summary text
+    doc.fontSize(14)
+      .font('Times-Roman')
+      .fillColor('#000000')
+      .fillOpacity(1)
+      .text(
+        `A personalized adventure created especially for this story.`,
+        box.x + textMargin + 20,
+        middle - 60,
+        {
+          align: 'center',
+          width: textWidth - 40,
+          lineGap: 6,
+        }
+      );
+
+    // Add website or branding at bottom
+    doc.fontSize(10)
+      .fillColor('#666666')
+      .text(
+        'Created with Personalized Children\'s Storybooks',
+        box.x + textMargin,
+        box.y + box.size - Math.max(80, safeZone + 20),
+        {
+          align: 'center',
+          width: textWidth,
+        }
+      );
+  }
+
+  /**
+   * Text-only front cover panel, for print covers without an illustration
+   */
+  private addCoverPanelText(doc: PDFKit.PDFDocument, title: string, box: Box, safeZone: number): void {
+    const textMargin = Math.max(TEXT_MARGIN, safeZone);
+    const textWidth = box.size - (textMargin * 2);
+
+    doc.fontSize(32)
+      .font('Helvetica-Bold')
+      .fillColor('#000000')
+      .text(title, box.x + textMargin, box.y + box.size / 2 - 80, {
+        align: 'center',
+        width: textWidth,
+      });
+
+    doc.fontSize(18)
+      .font('Helvetica')
+      .text('A Personalized Story', box.x + textMargin, box.y + box.size / 2 + 20, {
+        align: 'center',
+        width: textWidth,
+      });
+  }
+
+  /**
+   * First interior page of a printed book
+   */
+  private addTitlePage(doc: PDFKit.PDFDocument, title: string, layout: PageLayout): void {
+    const margin = layout.bleed + Math.max(TEXT_MARGIN, layout.safeZone);
+
+    doc.fontSize(28)
+      .font('Times-Roman')
+      .fillColor('#000000')
+      .text(title, margin, layout.pageSize / 2 - 40, {
+        align: 'center',
+        width: layout.pageSize - (margin * 2),
+      });
+  }
+
   private addCoverPage(doc: PDFKit.PDFDocument, title: string): void {
     doc.fontSize(32)
       .font('Helvetica-Bold')
@@ -307,11 +641,11 @@ export class PDFGenerationService {
       });
   }
 
-  private addTextPage(doc: PDFKit.PDFDocument, page: any): void {
-    // Square page with generous margins
-    const SQUARE_SIZE = 576;
-    const margin = 60;
-    const textWidth = SQUARE_SIZE - (margin * 2);
+  private addTextPage(doc: PDFKit.PDFDocument, page: any, layout: PageLayout = SCREEN_LAYOUT): void {
+    // Square page with generous margins, kept inside the safe zone when printed
+    const { pageSize, bleed } = layout;
+    const margin = bleed + Math.max(TEXT_MARGIN, layout.safeZone);
+    const textWidth = pageSize - (margin * 2);
 
     // Use Baskerville-style font (elegant serif, perfect for children's books)
     // PDFKit includes Times-Roman as fallback if Baskerville not available
@@ -321,7 +655,7 @@ export class PDFGenerationService {
     doc.fontSize(16)
       .font(fontFamily)
       .fillColor('#000000')
-      .text(page.page_text || '', margin, SQUARE_SIZE / 2 - 100, {
+      .text(page.page_text || '', margin, pageSize / 2 - 100, {
         align: 'center',
         width: textWidth,
         lineGap: 8,
@@ -331,7 +665,7 @@ export class PDFGenerationService {
     // Small page number at bottom center
     doc.fontSize(10)
       .fillColor('#999999')
-      .text(`${page.page_number}`, margin, SQUARE_SIZE - 40, {
+      .text(`${page.page_number}`, margin, pageSize - bleed - Math.max(40, layout.safeZone + 14), {
         align: 'center',
         width: textWidth,
         continued: false, // Explicitly don't continue to next page
@@ -0,0 +1,268 @@
+import { createClient } from '@supabase/supabase-js';
+import { ValidationError } from '@/lib/errors';
+import {
+  PRODUCT_TIERS,
+  SALES_TAX,
+  getDiscountCents,
+  getIncludedTaxCents,
+  isCurrency,
+  isProductTier,
+  toCents,
+} from '@/lib/pricing';
+import type { Currency, PriceQuote, ProductTier } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// Attempts at the compare-and-set on redemption_count before giving up
+const MAX_REDEMPTION_ATTEMPTS = 3;
+
+export interface TierPrice {
+  productTier: ProductTier;
+  currency: Currency;
+  amountCents: number;
+}
+
+export interface QuoteParams {
+  productTier: string;
+  currency: string;
+  promoCode?: string | null;
+  // Needed to apply per-customer promo code limits
+  userId?: string;
+}
+
+/**
+ * Prices from product_prices and promo codes from promo_codes
+ *
+ * quote() is the single place a charge amount is worked out; checkout and the
+ * mock payment route both charge exactly what it returns. Promo code limits are
+ * checked when quoting and counted by redeemPromoCode() once a payment completes;
+ * orders that skip Stripe redeem with enforceLimits before they complete.
+ */
+export class PricingService {
+  async listPrices(): Promise<TierPrice[]> {
+    const { data, error } = await getSupabase()
+      .from('product_prices')
+      .select('product_tier, currency, amount')
+      .eq('active', true);
+
+    if (error) {
+      throw new Error(`Failed to load prices: ${error.message}`);
+    }
+
+    return (data || [])
+      .filter((row) => isProductTier(row.product_tier) && isCurrency(row.currency))
+      .map((row) => ({
+        productTier: row.product_tier as ProductTier,
+        currency: row.currency as Currency,
+        amountCents: toCents(row.amount),
+      }))
+      .sort((a, b) => PRODUCT_TIERS.indexOf(a.productTier) - PRODUCT_TIERS.indexOf(b.productTier));
+  }
+
+  async quote(params: QuoteParams): Promise<PriceQuote> {
+    const { productTier, currency, userId } = params;
+
+    if (!isProductTier(productTier)) {
+      throw new ValidationError(`Unknown product tier: ${productTier}`);
+    }
+
+    if (!isCurrency(currency)) {
+      throw new ValidationError(`We don't sell in ${currency}`);
+    }
+
+    const { data: price } = await getSupabase()
+      .from('product_prices')
+      .select('amount')
+      .eq('product_tier', productTier)
+      .eq('currency', currency)
+      .eq('active', true)
+      .maybeSingle();
+
+    if (!price) {
+      throw new ValidationError(`${productTier} is not available in ${currency}`);
+    }
+
+    const subtotalCents = toCents(price.amount);
+    const promoCode = params.promoCode?.trim()
+      ? await this.findValidPromoCode(params.promoCode, productTier, currency, userId)
+      : null;
+
+    const discountCents = promoCode
+      ? getDiscountCents(subtotalCents, {
+          discountType: promoCode.discount_type,
+          percentOff: promoCode.percent_off,
+          amountOffCents: promoCode.amount_off !== null ? toCents(promoCode.amount_off) : null,
+        })
+      : 0;
+
+    const totalCents = subtotalCents - discountCents;
+    const tax = SALES_TAX[currency];
+
+    return {
+      productTier,
+      currency,
+      subtotalCents,
+      discountCents,
+      totalCents,
+      taxCents: getIncludedTaxCents(totalCents, currency),
+      taxRate: tax?.rate || 0,
+      taxLabel: tax?.label || null,
+      promoCode: promoCode
+        ? { id: promoCode.id, code: promoCode.code, description: promoCode.description }
+        : null,
+    };
+  }
+
+  /**
+   * Records that a payment used a promo code. Safe to call again for the same
+   * payment. Returns false when the code had already hit its limit (two
+   * checkouts racing for the last use); a customer who paid through Stripe
+   * keeps the order and this is only logged.
+   *
+   * With enforceLimits (orders that skip Stripe, where nothing else stops a
+   * code being used at once by many orders), a code over its overall or
+   * per-customer limit throws a ValidationError instead and nothing is recorded.
+   */
+  async redeemPromoCode(params: {
+    promoCodeId: string;
+    paymentId: string;
+    userId: string;
+    enforceLimits?: boolean;
+  }): Promise<boolean> {
+    const { promoCodeId, paymentId, userId, enforceLimits = false } = params;
+    const supabase = getSupabase();
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('promo_code_redemptions')
+      .upsert({
+        promo_code_id: promoCodeId,
+        payment_id: paymentId,
+        user_id: userId,
+      }, { onConflict: 'payment_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (insertError) {
+      throw new Error(`Failed to record promo code redemption: ${insertError.message}`);
+    }
+
+    // Already counted on an earlier delivery
+    if (!inserted || inserted.length === 0) {
+      return true;
+    }
+
+    // Gives the use back when the order can't have it
+    const reject = async (message: string): Promise<never> => {
+      await supabase.from('promo_code_redemptions').delete().eq('id', inserted[0].id);
+      throw new ValidationError(message);
+    };
+
+    for (let attempt = 1; attempt <= MAX_REDEMPTION_ATTEMPTS; attempt++) {
+      const { data: promoCode } = await supabase
+        .from('promo_codes')
+        .select('code, redemption_count, max_redemptions, max_redemptions_per_user')
+        .eq('id', promoCodeId)
+        .single();
+
+      if (!promoCode) {
+        return enforceLimits ? reject('This promo code is not valid') : false;
+      }
+
+      const count = promoCode.redemption_count || 0;
+      const overLimit = promoCode.max_redemptions !== null && count >= promoCode.max_redemptions;
+
+      if (enforceLimits && overLimit) {
+        return reject(`Promo code ${promoCode.code} has been fully redeemed`);
+      }
+
+      // Counted after our own row went in, so two orders racing for a customer's last use both lose
+      if (enforceLimits && attempt === 1 && promoCode.max_redemptions_per_user !== null) {
+        const { count: userCount } = await supabase
+          .from('promo_code_redemptions')
+          .select('id', { count: 'exact', head: true })
+          .eq('promo_code_id', promoCodeId)
+          .eq('user_id', userId);
+
+        if ((userCount || 0) > promoCode.max_redemptions_per_user) {
+          return reject(`You've already used promo code ${promoCode.code}`);
+        }
+      }
+
+      // Only counts if nobody else redeemed the code since we read it
+      const { data: updated } = await supabase
+        .from('promo_codes')
+        .update({ redemption_count: count + 1 })
+        .eq('id', promoCodeId)
+        .eq('redemption_count', count)
+        .select('id');
+
+      if (updated && updated.length > 0) {
+        if (overLimit) {
+          console.warn(`[pricing] Promo code ${promoCode.code} redeemed past its limit of ${promoCode.max_redemptions} by payment ${paymentId}`);
+        }
+        return !overLimit;
+      }
+    }
+
+    console.warn(`[pricing] Could not count redemption of promo code ${promoCodeId} for payment ${paymentId}`);
+    return enforceLimits ? reject('Too many orders are using this promo code right now, please try again') : false;
+  }
+
+  private async findValidPromoCode(code: string, productTier: ProductTier, currency: Currency, userId?: string) {
+    const supabase = getSupabase();
+    const normalisedCode = code.trim().toUpperCase();
+
+    const { data: promoCode } = await supabase
+      .from('promo_codes')
+      .select('*')
+      .eq('code', normalisedCode)
+      .maybeSingle();
+
+    if (!promoCode || !promoCode.active) {
+      throw new ValidationError(`Promo code ${normalisedCode} is not valid`);
+    }
+
+    const now = new Date();
+
+    if (promoCode.starts_at && new Date(promoCode.starts_at) > now) {
+      throw new ValidationError(`Promo code ${normalisedCode} is not active yet`);
+    }
+
+    if (promoCode.expires_at && new Date(promoCode.expires_at) <= now) {
+      throw new ValidationError(`Promo code ${normalisedCode} has expired`);
+    }
+
+    if (promoCode.max_redemptions !== null && (promoCode.redemption_count || 0) >= promoCode.max_redemptions) {
+      throw new ValidationError(`Promo code ${normalisedCode} has been fully redeemed`);
+    }
+
+    if (promoCode.product_tiers?.length && !promoCode.product_tiers.includes(productTier)) {
+      throw new ValidationError(`Promo code ${normalisedCode} can't be used on this product`);
+    }
+
+    if (promoCode.discount_type === 'fixed' && promoCode.currency !== currency) {
+      throw new ValidationError(`Promo code ${normalisedCode} can only be used when paying in ${promoCode.currency}`);
+    }
+
+    if (userId && promoCode.max_redemptions_per_user !== null) {
+      const { count } = await supabase
+        .from('promo_code_redemptions')
+        .select('id', { count: 'exact', head: true })
+        .eq('promo_code_id', promoCode.id)
+        .eq('user_id', userId);
+
+      if ((count || 0) >= promoCode.max_redemptions_per_user) {
+        throw new ValidationError(`You've already used promo code ${normalisedCode}`);
+      }
+    }
+
+    return promoCode;
+  }
+}
+
+export const pricingService = new PricingService();
@@ -0,0 +1,384 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  FakePrintProvider,
+  getPrintProvider,
+  LuluPrintProvider,
+  PrintedProductTier,
+  PrintJobUpdate,
+  PrintProvider,
+} from './providers/print.provider';
+import { isConfirmedPayment } from './refund.service';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { getPrintCoverPath, getPrintInteriorPath } from '@/lib/printProfile';
+import type { PrintOrderStatus, ShippingAddress } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+export const PRINTED_PRODUCT_TIERS: PrintedProductTier[] = ['printed-softcover', 'printed-hardcover'];
+
+// Submission errors are retried by the cron job until this many attempts
+const MAX_SUBMISSION_ATTEMPTS = 5;
+
+// Shipped orders are polled for a delivery update for this long
+const SHIPPED_POLL_DAYS = 30;
+
+// Orders only move forward through these; anything else is an end state
+const STATUS_ORDER: PrintOrderStatus[] = ['pending', 'submitted', 'in-production', 'shipped', 'delivered'];
+
+const END_STATUSES: PrintOrderStatus[] = ['delivered', 'rejected', 'cancelled', 'failed'];
+
+export interface CreatePrintOrderParams {
+  bookOrderId: string;
+  userId: string;
+  shippingAddress: ShippingAddress;
+  shippingLevel?: string;
+}
+
+export interface ProcessPrintOrdersResult {
+  submitted: number;
+  updated: number;
+  cancelled: number;
+  errors: { printOrderId: string; error: string }[];
+}
+
+/**
+ * Physical copies of books bought on a printed tier
+ *
+ * A print order is created with the shipping address once the book is paid
+ * for, and waits in `pending` until the book is finished and its print-ready
+ * files exist. It is then submitted to the PrintProvider, and the vendor's
+ * status and tracking come back through its webhook or the cron job's polling.
+ */
+export class PrintFulfilmentService {
+  constructor(private provider?: PrintProvider) {}
+
+  async createPrintOrder(params: CreatePrintOrderParams): Promise<any> {
+    const { bookOrderId, userId, shippingAddress, shippingLevel } = params;
+    const supabase = getSupabase();
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('id, status, payments(id, product_tier, status, paid_at, stripe_payment_intent_id)')
+      .eq('id', bookOrderId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!bookOrder) {
+      throw new NotFoundError('Book');
+    }
+
+    if (bookOrder.status === 'cancelled' || bookOrder.status === 'failed') {
+      throw new ValidationError(`A ${bookOrder.status} book cannot be printed`);
+    }
+
+    const payment = bookOrder.payments?.find((p: any) =>
+      isConfirmedPayment(p) && PRINTED_PRODUCT_TIERS.includes(p.product_tier)
+    );
+
+    if (!payment) {
+      throw new ValidationError('This book was not bought as a printed book');
+    }
+
+    if (await this.getPrintOrder(bookOrderId)) {
+      throw new ValidationError('A print order already exists for this book');
+    }
+
+    const { data: printOrder, error } = await supabase
+      .from('print_orders')
+      .insert({
+        book_order_id: bookOrderId,
+        payment_id: payment.id,
+        product_type: payment.product_tier,
+        status: 'pending',
+        recipient_name: shippingAddress.recipientName,
+        recipient_email: shippingAddress.recipientEmail || null,
+        recipient_phone: shippingAddress.recipientPhone || null,
+        shipping_address_line1: shippingAddress.line1,
+        shipping_address_line2: shippingAddress.line2 || null,
+        shipping_city: shippingAddress.city,
+        shipping_state: shippingAddress.state || null,
+        shipping_postcode: shippingAddress.postcode,
+        shipping_country: shippingAddress.countryCode,
+        shipping_country_code: shippingAddress.countryCode,
+        shipping_level: shippingLevel || 'MAIL',
+      })
+      .select()
+      .single();
+
+    // 23505: a concurrent request created it first
+    if (error?.code === '23505') {
+      throw new ValidationError('A print order already exists for this book');
+    }
+    if (error) {
+      throw new Error(`Failed to create print order: ${error.message}`);
+    }
+
+    console.log(`[print-fulfilment] Print order ${printOrder.id} created for book ${bookOrderId} (${payment.product_tier})`);
+
+    return printOrder;
+  }
+
+  async getPrintOrder(bookOrderId: string): Promise<any | null> {
+    const { data } = await getSupabase()
+      .from('print_orders')
+      .select('*')
+      .eq('book_order_id', bookOrderId)
+      .maybeSingle();
+
+    return data || null;
+  }
+
+  /**
+   * Sends a pending order to the printer if its book is finished and the print
+   * files exist; returns false when it has to keep waiting
+   */
+  async submit(printOrderId: string): Promise<boolean> {
+    const supabase = getSupabase();
+
+    const { data: printOrder } = await supabase
+      .from('print_orders')
+      .select(`
+        *,
+        book_order:book_orders(id, status, user_id, generated_story:generated_stories(title))
+      `)
+      .eq('id', printOrderId)
+      .single();
+
+    if (!printOrder) {
+      throw new NotFoundError('Print order');
+    }
+
+    if (printOrder.status !== 'pending' || printOrder.book_order?.status !== 'completed') {
+      return false;
+    }
+
+    const files = await this.getPrintFiles(printOrder.book_order_id);
+    if (!files) {
+      console.log(`[print-fulfilment] Print files for book ${printOrder.book_order_id} aren't ready yet`);
+      return false;
+    }
+
+    // Claims this attempt, so two runners can't both submit the order
+    const attempt = (printOrder.submission_attempts || 0) + 1;
+    const { data: claimed } = await supabase
+      .from('print_orders')
+      .update({ submission_attempts: attempt })
+      .eq('id', printOrderId)
+      .eq('status', 'pending')
+      .eq('submission_attempts', printOrder.submission_attempts || 0)
+      .select('id');
+
+    if (!claimed || claimed.length === 0) {
+      return false;
+    }
+
+    const { data: user } = await supabase
+      .from('users')
+      .select('email')
+      .eq('id', printOrder.book_order.user_id)
+      .single();
+
+    const provider = this.provider || getPrintProvider();
+
+    let update: PrintJobUpdate;
+    try {
+      update = await provider.submitPrintJob({
+        printOrderId,
+        title: printOrder.book_order.generated_story?.title || 'Personalised storybook',
+        productTier: printOrder.product_type,
+        interiorPdfUrl: files.interiorPdfUrl,
+        coverPdfUrl: files.coverPdfUrl,
+        shippingAddress: this.toShippingAddress(printOrder),
+        shippingLevel: printOrder.shipping_level || 'MAIL',
+        contactEmail: printOrder.recipient_email || user?.email,
+      });
+    } catch (error: any) {
+      const giveUp = attempt >= MAX_SUBMISSION_ATTEMPTS;
+      await supabase
+        .from('print_orders')
+        .update({
+          status: giveUp ? 'failed' : 'pending',
+          status_message: error.message || 'Submission failed',
+        })
+        .eq('id', printOrderId);
+
+      console.error(`[print-fulfilment] Submitting print order ${printOrderId} failed (attempt ${attempt}/${MAX_SUBMISSION_ATTEMPTS}):`, error);
+      throw error;
+    }
+
+    await supabase
+      .from('print_orders')
+      .update({
+        provider: provider.name,
+        external_order_id: update.externalOrderId,
+        status: 'submitted',
+        status_message: null,
+        submitted_at: new Date().toISOString(),
+      })
+      .eq('id', printOrderId);
+
+    console.log(`[print-fulfilment] Submitted print order ${printOrderId} to ${provider.name} as ${update.externalOrderId}`);
+
+    await this.applyUpdate(provider.name, update);
+    return true;
+  }
+
+  /**
+   * Records a vendor status update (webhook or polling). Statuses only move
+   * forward, so late or replayed updates are ignored; returns true if anything changed
+   */
+  async applyUpdate(providerName: string, update: PrintJobUpdate): Promise<boolean> {
+    const supabase = getSupabase();
+
+    const { data: printOrder } = await supabase
+      .from('print_orders')
+      .select('id, status, tracking_number, shipped_at, delivered_at')
+      .eq('provider', providerName)
+      .eq('external_order_id', update.externalOrderId)
+      .maybeSingle();
+
+    if (!printOrder) {
+      console.warn(`[print-fulfilment] No print order for ${providerName} job ${update.externalOrderId}`);
+      return false;
+    }
+
+    const current = printOrder.status as PrintOrderStatus;
+    const movesForward = STATUS_ORDER.indexOf(update.status) > STATUS_ORDER.indexOf(current)
+      || (END_STATUSES.includes(update.status) && !END_STATUSES.includes(current));
+    const newTracking = update.trackingNumber && update.trackingNumber !== printOrder.tracking_number;
+
+    if (!movesForward && !newTracking) {
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('print_orders')
+      .update({
+        status: movesForward ? update.status : current,
+        status_message: update.statusMessage || null,
+        tracking_number: update.trackingNumber || printOrder.tracking_number,
+        tracking_url: update.trackingUrl,
+        carrier: update.carrier,
+        estimated_delivery: update.estimatedDelivery,
+        shipped_at: printOrder.shipped_at || update.shippedAt || (update.status === 'shipped' ? new Date().toISOString() : null),
+        delivered_at: printOrder.delivered_at || update.deliveredAt || (update.status === 'delivered' ? new Date().toISOString() : null),
+      })
+      .eq('id', printOrder.id);
+
+    if (error) {
+      throw new Error(`Failed to update print order: ${error.message}`);
+    }
+
+    console.log(`[print-fulfilment] Print order ${printOrder.id}: ${current} -> ${movesForward ? update.status : current}`);
+    return true;
+  }
+
+  /**
+   * Cron job: submits pending orders whose book is ready, cancels those whose
+   * book never will be, and polls the vendor for orders in progress
+   */
+  async processPrintOrders(now: Date = new Date()): Promise<ProcessPrintOrdersResult> {
+    const supabase = getSupabase();
+    const result: ProcessPrintOrdersResult = { submitted: 0, updated: 0, cancelled: 0, errors: [] };
+
+    const { data: pending } = await supabase
+      .from('print_orders')
+      .select('id, book_order:book_orders(status)')
+      .eq('status', 'pending');
+
+    for (const printOrder of (pending || []) as any[]) {
+      try {
+        const bookStatus = printOrder.book_order?.status;
+        if (bookStatus === 'cancelled' || bookStatus === 'failed') {
+          await supabase
+            .from('print_orders')
+            .update({ status: 'cancelled', status_message: `Book ${bookStatus}` })
+            .eq('id', printOrder.id)
+            .eq('status', 'pending');
+          result.cancelled++;
+        } else if (await this.submit(printOrder.id)) {
+          result.submitted++;
+        }
+      } catch (error: any) {
+        result.errors.push({ printOrderId: printOrder.id, error: error.message || 'Unknown error' });
+      }
+    }
+
+    const shippedSince = new Date(now.getTime() - SHIPPED_POLL_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: active } = await supabase
+      .from('print_orders')
+      .select('id, provider, external_order_id')
+      .in('status', ['submitted', 'in-production', 'shipped'])
+      .or(`shipped_at.is.null,shipped_at.gt.${shippedSince}`);
+
+    for (const printOrder of active || []) {
+      try {
+        const provider = this.getProviderFor(printOrder.provider);
+        if (await this.applyUpdate(provider.name, await provider.getPrintJob(printOrder.external_order_id))) {
+          result.updated++;
+        }
+      } catch (error: any) {
+        console.error(`[print-fulfilment] Polling print order ${printOrder.id} failed:`, error);
+        result.errors.push({ printOrderId: printOrder.id, error: error.message || 'Unknown error' });
+      }
+    }
+
+    console.log(`[print-fulfilment] Submitted ${result.submitted}, updated ${result.updated}, cancelled ${result.cancelled}, ${result.errors.length} error(s)`);
+
+    return result;
+  }
+
+  /**
+   * Public URLs of the print-ready interior and cover, or null until both exist
+   */
+  private async getPrintFiles(bookOrderId: string): Promise<{ interiorPdfUrl: string; coverPdfUrl: string } | null> {
+    const storage = getSupabase().storage.from('generated-pdfs');
+    const { data: files } = await storage.list(bookOrderId);
+    const names = new Set((files || []).map((file) => `${bookOrderId}/${file.name}`));
+
+    const interiorPath = getPrintInteriorPath(bookOrderId);
+    const coverPath = getPrintCoverPath(bookOrderId);
+
+    if (!names.has(interiorPath) || !names.has(coverPath)) {
+      return null;
+    }
+
+    return {
+      interiorPdfUrl: storage.getPublicUrl(interiorPath).data.publicUrl,
+      coverPdfUrl: storage.getPublicUrl(coverPath).data.publicUrl,
+    };
+  }
+
+  private toShippingAddress(printOrder: any): ShippingAddress {
+    return {
+      recipientName: printOrder.recipient_name,
+      recipientEmail: printOrder.recipient_email || undefined,
+      recipientPhone: printOrder.recipient_phone || undefined,
+      line1: printOrder.shipping_address_line1,
+      line2: printOrder.shipping_address_line2 || undefined,
+      city: printOrder.shipping_city,
+      state: printOrder.shipping_state || undefined,
+      postcode: printOrder.shipping_postcode,
+      countryCode: printOrder.shipping_country_code || 'NZ',
+    };
+  }
+
+  /**
+   * Orders keep the provider they were submitted to, even if PRINT_PROVIDER changes
+   */
+  private getProviderFor(providerName: string | null): PrintProvider {
+    const current = this.provider || getPrintProvider();
+    if (!providerName || providerName === current.name) {
+      return current;
+    }
+    return providerName === 'fake' ? new FakePrintProvider() : new LuluPrintProvider();
+  }
+}
+
+export const printFulfilmentService = new PrintFulfilmentService();
@@ -0,0 +1,235 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import sharp from 'sharp';
+import { hashPrompt } from './storyModel.provider';
+
+/**
+ * Illustration Providers
+ * Abstracts the image model used for covers and page illustrations
+ * (Gemini in production, deterministic placeholder PNGs for offline runs)
+ */
+
+export interface ReferenceImage {
+  data: string; // base64
+  mimeType: string;
+}
+
+export interface IllustrationRequest {
+  prompt: string;
+  referenceImages?: ReferenceImage[];
+  // Short instruction sent alongside the reference images (single-shot only)
+  referenceCaption?: string;
+  // Used for logging and by the placeholder provider
+  label?: string;
+  pageNumber?: number;
+  illustrationStyle?: string;
+}
+
+export interface IllustrationResult {
+  imageBuffer: Buffer;
+  mimeType: string;
+  model: string;
+}
+
+export interface IllustrationSessionOptions {
+  temperature?: number;
+}
+
+/**
+ * A multi-turn conversation where earlier images inform later ones
+ */
+export interface IllustrationSession {
+  generate(request: IllustrationRequest): Promise<IllustrationResult>;
+}
+
+export interface IllustrationProvider {
+  readonly name: string;
+
+  /**
+   * Generates a single image with no conversation context
+   */
+  generate(request: IllustrationRequest): Promise<IllustrationResult>;
+
+  /**
+   * Starts a conversation for generating a consistent series of images
+   */
+  startSession(options?: IllustrationSessionOptions): IllustrationSession;
+}
+
+const DEFAULT_IMAGE_MODEL = 'gemini-2.5-flash-image';
+
+// Lazy initialization for Gemini to ensure environment variables are loaded
+function getGemini() {
+  const apiKey = process.env.GOOGLE_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY or GOOGLE_GEMINI_API_KEY environment variable is required');
+  }
+  return new GoogleGenerativeAI(apiKey);
+}
+
+export class GeminiIllustrationProvider implements IllustrationProvider {
+  readonly name = 'gemini';
+
+  private get modelName(): string {
+    return process.env.GEMINI_IMAGE_MODEL || DEFAULT_IMAGE_MODEL;
+  }
+
+  async generate(request: IllustrationRequest): Promise<IllustrationResult> {
+    const model = getGemini().getGenerativeModel({
+      model: this.modelName,
+      // Note: responseModalities defaults to ['Text', 'Image'] for this model
+    });
+
+    const parts: any[] = this.toReferenceParts(request.referenceImages);
+    if (parts.length > 0 && request.referenceCaption) {
+      parts.push({ text: request.referenceCaption });
+    }
+    parts.push({ text: request.prompt });
+
+    const result = await model.generateContent(parts);
+    return this.extractImage(result.response, request.label || 'image');
+  }
+
+  startSession(options: IllustrationSessionOptions = {}): IllustrationSession {
+    const model = getGemini().getGenerativeModel({
+      model: this.modelName,
+      generationConfig: {
+        temperature: options.temperature,
+        // Note: responseModalities defaults to ['Text', 'Image'] for this model
+      },
+    });
+
+    // NOTE: We don't send an initial character context message because
+    // Gemini 2.5 Flash Image requires every message to be an image generation request
+    const chat = model.startChat({ history: [] });
+
+    return {
+      generate: async (request: IllustrationRequest) => {
+        const messageParts: any[] = this.toReferenceParts(request.referenceImages);
+        messageParts.push({ text: request.prompt });
+
+        const result = await chat.sendMessage(messageParts);
+        return this.extractImage(result.response, request.label || 'image');
+      },
+    };
+  }
+
+  private toReferenceParts(referenceImages?: ReferenceImage[]): any[] {
+    return (referenceImages || []).map((image) => ({
+      inlineData: { data: image.data, mimeType: image.mimeType },
+    }));
+  }
+
+  /**
+   * Pulls the first inline image out of a Gemini response
+   */
+  private extractImage(response: any, label: string): IllustrationResult {
+    if (response?.promptFeedback) {
+      console.log(`[${label}] Prompt Feedback:`, JSON.stringify(response.promptFeedback, null, 2));
+    }
+
+    if (!response || !response.candidates || response.candidates.length === 0) {
+      console.error(`[${label}] FULL RESPONSE OBJECT:`, JSON.stringify(response, null, 2));
+      throw new Error(`No image generated from Gemini for ${label}`);
+    }
+
+    const candidate = response.candidates[0];
+
+    for (const part of (candidate.content?.parts || []) as any[]) {
+      if (part.inlineData && part.inlineData.data) {
+        return {
+          imageBuffer: Buffer.from(part.inlineData.data, 'base64'),
+          mimeType: part.inlineData.mimeType || 'image/png',
+          model: this.modelName,
+        };
+      }
+    }
+
+    console.error(`[${label}] No image buffer found. Candidate structure:`, JSON.stringify({
+      finishReason: candidate.finishReason,
+      safetyRatings: candidate.safetyRatings,
+      partsCount: candidate.content?.parts?.length || 0,
+      parts: candidate.content?.parts?.map((p: any) => ({
+        hasInlineData: !!p.inlineData,
+        hasText: !!p.text,
+        textPreview: p.text?.substring(0, 100),
+      })),
+    }, null, 2));
+    throw new Error(`No image data found in Gemini response for ${label}`);
+  }
+}
+
+/**
+ * Renders deterministic placeholder PNGs showing the page number, prompt hash
+ * and style name, so the pipeline can run end-to-end without a model
+ */
+export class PlaceholderIllustrationProvider implements IllustrationProvider {
+  readonly name = 'placeholder';
+
+  constructor(private size: number = 1024) {}
+
+  async generate(request: IllustrationRequest): Promise<IllustrationResult> {
+    return this.render(request);
+  }
+
+  startSession(): IllustrationSession {
+    return {
+      generate: (request: IllustrationRequest) => this.render(request),
+    };
+  }
+
+  private async render(request: IllustrationRequest): Promise<IllustrationResult> {
+    const key = hashPrompt(request.prompt);
+    const hue = parseInt(key.substring(0, 4), 16) % 360;
+    const heading = request.label || (request.pageNumber !== undefined ? `Page ${request.pageNumber}` : 'Illustration');
+    const style = request.illustrationStyle || 'unknown style';
+    const size = this.size;
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}">
+  <rect width="100%" height="100%" fill="hsl(${hue}, 60%, 85%)"/>
+  <rect x="${size * 0.05}" y="${size * 0.05}" width="${size * 0.9}" height="${size * 0.9}" fill="none" stroke="hsl(${hue}, 50%, 45%)" stroke-width="8" stroke-dasharray="24 12"/>
+  <text x="50%" y="42%" font-family="sans-serif" font-size="${size * 0.09}" font-weight="bold" text-anchor="middle" fill="hsl(${hue}, 50%, 25%)">${escapeXml(heading)}</text>
+  <text x="50%" y="54%" font-family="sans-serif" font-size="${size * 0.045}" text-anchor="middle" fill="hsl(${hue}, 40%, 30%)">${escapeXml(style)}</text>
+  <text x="50%" y="64%" font-family="monospace" font-size="${size * 0.035}" text-anchor="middle" fill="hsl(${hue}, 30%, 35%)">prompt ${key}</text>
+</svg>`;
+
+    const imageBuffer = await sharp(Buffer.from(svg)).png().toBuffer();
+
+    return {
+      imageBuffer,
+      mimeType: 'image/png',
+      model: `placeholder:${key}`,
+    };
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+let providerInstance: IllustrationProvider | null = null;
+
+/**
+ * Returns the illustration provider selected by ILLUSTRATION_PROVIDER
+ * (`gemini` by default, `placeholder` for offline runs)
+ */
+export function getIllustrationProvider(): IllustrationProvider {
+  if (!providerInstance) {
+    const providerName = process.env.ILLUSTRATION_PROVIDER || 'gemini';
+
+    switch (providerName) {
+      case 'gemini':
+        providerInstance = new GeminiIllustrationProvider();
+        break;
+      case 'placeholder':
+        providerInstance = new PlaceholderIllustrationProvider();
+        break;
+      default:
+        throw new Error(`Unknown ILLUSTRATION_PROVIDER: ${providerName}`);
+    }
+  }
+  return providerInstance;
+}
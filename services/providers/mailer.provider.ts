@@ -0,0 +1,136 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+
+/**
+ * Mailers
+ * Abstracts how transactional email is sent (SendGrid in production, a local
+ * file sink that writes each message to disk for development)
+ */
+
+export interface MailMessage {
+  to: string;
+  toName?: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface SentMail {
+  messageId: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+
+  send(message: MailMessage): Promise<SentMail>;
+}
+
+const DEFAULT_FROM_EMAIL = 'hello@yourdomain.com';
+const FROM_NAME = "Personalized Children's Storybooks";
+
+/**
+ * SendGrid v3 mail send
+ */
+export class SendGridMailer implements Mailer {
+  readonly name = 'sendgrid';
+
+  async send(message: MailMessage): Promise<SentMail> {
+    const apiKey = process.env.SENDGRID_API_KEY;
+    if (!apiKey) {
+      throw new Error('SENDGRID_API_KEY environment variable is not set');
+    }
+
+    const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        personalizations: [{ to: [{ email: message.to, name: message.toName }] }],
+        from: { email: process.env.SENDGRID_FROM_EMAIL || DEFAULT_FROM_EMAIL, name: FROM_NAME },
+        subject: message.subject,
+        content: [
+          { type: 'text/plain', value: message.text },
+          { type: 'text/html', value: message.html },
+        ],
+      }),
+    });
+
+    // 202 Accepted, with the message id in a header
+    if (!response.ok) {
+      throw new Error(`SendGrid send failed (${response.status}): ${await response.text()}`);
+    }
+
+    return { messageId: response.headers.get('x-message-id') || randomUUID() };
+  }
+}
+
+const DEFAULT_FILE_SINK_DIR = '.mail';
+
+/**
+ * Writes every message to MAILER_FILE_SINK_DIR as an .eml file that any mail
+ * client can open, so email flows can be checked without sending anything
+ */
+export class FileSinkMailer implements Mailer {
+  readonly name = 'file';
+
+  async send(message: MailMessage): Promise<SentMail> {
+    const directory = path.resolve(process.env.MAILER_FILE_SINK_DIR || DEFAULT_FILE_SINK_DIR);
+    const messageId = randomUUID();
+    const boundary = `boundary-${messageId}`;
+
+    const eml = [
+      `Message-ID: <${messageId}@file-sink>`,
+      `Date: ${new Date().toUTCString()}`,
+      `From: ${FROM_NAME} <${process.env.SENDGRID_FROM_EMAIL || DEFAULT_FROM_EMAIL}>`,
+      `To: ${message.toName ? `${message.toName} <${message.to}>` : message.to}`,
+      `Subject: ${message.subject}`,
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      '',
+      `--${boundary}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      message.text,
+      `--${boundary}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      message.html,
+      `--${boundary}--`,
+      '',
+    ].join('\r\n');
+
+    await mkdir(directory, { recursive: true });
+    const filePath = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId}.eml`);
+    await writeFile(filePath, eml, 'utf8');
+
+    console.log(`[mailer] Wrote "${message.subject}" for ${message.to} to ${filePath}`);
+    return { messageId };
+  }
+}
+
+let mailerInstance: Mailer | null = null;
+
+/**
+ * Returns the mailer selected by MAILER_PROVIDER
+ * (`sendgrid` by default, `file` for local runs)
+ */
+export function getMailer(): Mailer {
+  if (!mailerInstance) {
+    const providerName = process.env.MAILER_PROVIDER || 'sendgrid';
+
+    switch (providerName) {
+      case 'sendgrid':
+        mailerInstance = new SendGridMailer();
+        break;
+      case 'file':
+        mailerInstance = new FileSinkMailer();
+        break;
+      default:
+        throw new Error(`Unknown MAILER_PROVIDER: ${providerName}`);
+    }
+  }
+  return mailerInstance;
+}
@@ -0,0 +1,237 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+
+/**
+ * Moderation Classifiers
+ * Scores generated text and images against the ModerationResult categories
+ * (Gemini in production, a keyword list and a pass-through stub for offline runs)
+ */
+
+export const MODERATION_CATEGORIES = ['inappropriate', 'violent', 'adult', 'discriminatory'] as const;
+
+export type ModerationCategory = typeof MODERATION_CATEGORIES[number];
+
+// 0 = clearly safe, 1 = clearly violates the category
+export type ModerationScores = Record<ModerationCategory, number>;
+
+export interface ModerationClassification {
+  scores: ModerationScores;
+  // How sure the classifier is about its own scores (0-1)
+  confidence: number;
+  model: string;
+}
+
+export interface TextModerationClassifier {
+  readonly name: string;
+  classify(text: string): Promise<ModerationClassification>;
+}
+
+export interface ImageModerationInput {
+  imageBuffer: Buffer;
+  mimeType: string;
+  // The prompt the image was generated from
+  prompt: string;
+  pageNumber?: number;
+}
+
+export interface ImageModerationClassifier {
+  readonly name: string;
+  classify(image: ImageModerationInput): Promise<ModerationClassification>;
+}
+
+const DEFAULT_MODERATION_MODEL = 'gemini-2.5-flash';
+
+// Lazy initialization for Gemini
+function getGemini() {
+  const apiKey = process.env.GOOGLE_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY or GOOGLE_GEMINI_API_KEY environment variable is required');
+  }
+  return new GoogleGenerativeAI(apiKey);
+}
+
+function clampScore(value: unknown): number {
+  const num = Number(value);
+  if (isNaN(num)) return 0;
+  return Math.min(1, Math.max(0, num));
+}
+
+const CATEGORY_GUIDANCE = [
+  `- inappropriate: rude language, bullying, dangerous behaviour a child could copy, or frightening content`,
+  `- violent: physical harm, weapons, injury or death`,
+  `- adult: sexual content, romance beyond friendship, alcohol, drugs or gambling`,
+  `- discriminatory: stereotypes or negative portrayals of any group`,
+].join('\n');
+
+function parseClassification(text: string, modelName: string): ModerationClassification {
+  const parsed = JSON.parse(text);
+
+  return {
+    scores: {
+      inappropriate: clampScore(parsed.inappropriate),
+      violent: clampScore(parsed.violent),
+      adult: clampScore(parsed.adult),
+      discriminatory: clampScore(parsed.discriminatory),
+    },
+    confidence: parsed.confidence === undefined ? 0.8 : clampScore(parsed.confidence),
+    model: modelName,
+  };
+}
+
+export class GeminiTextModerationClassifier implements TextModerationClassifier {
+  readonly name = 'gemini';
+
+  async classify(text: string): Promise<ModerationClassification> {
+    const modelName = process.env.GEMINI_MODERATION_MODEL || DEFAULT_MODERATION_MODEL;
+    const model = getGemini().getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        temperature: 0,
+        responseMimeType: 'application/json',
+      },
+    });
+
+    let prompt = `You are reviewing text from a personalised picture book for young children.\n`;
+    prompt += `Score the text from 0 (clearly fine for a young child) to 1 (clearly unsuitable) in each category:\n`;
+    prompt += `${CATEGORY_GUIDANCE}\n\n`;
+    prompt += `Return JSON: {"inappropriate": 0, "violent": 0, "adult": 0, "discriminatory": 0, "confidence": 0.9}\n\n`;
+    prompt += `Text:\n"""\n${text}\n"""`;
+
+    const result = await model.generateContent(prompt);
+    return parseClassification(result.response.text(), modelName);
+  }
+}
+
+export class GeminiImageModerationClassifier implements ImageModerationClassifier {
+  readonly name = 'gemini';
+
+  async classify(image: ImageModerationInput): Promise<ModerationClassification> {
+    const modelName = process.env.GEMINI_MODERATION_MODEL || DEFAULT_MODERATION_MODEL;
+    const model = getGemini().getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        temperature: 0,
+        responseMimeType: 'application/json',
+      },
+    });
+
+    let prompt = `You are reviewing an illustration for a personalised picture book for young children.\n`;
+    prompt += `Score the image from 0 (clearly fine for a young child) to 1 (clearly unsuitable) in each category:\n`;
+    prompt += `${CATEGORY_GUIDANCE}\n\n`;
+    prompt += `Return JSON: {"inappropriate": 0, "violent": 0, "adult": 0, "discriminatory": 0, "confidence": 0.9}`;
+
+    const result = await model.generateContent([
+      { inlineData: { data: image.imageBuffer.toString('base64'), mimeType: image.mimeType } },
+      { text: prompt },
+    ]);
+    return parseClassification(result.response.text(), modelName);
+  }
+}
+
+const KEYWORDS: Record<ModerationCategory, string[]> = {
+  inappropriate: ['stupid', 'idiot', 'shut up', 'hate you', 'dumb', 'ugly', 'nightmare', 'terrifying', 'horror', 'scream'],
+  violent: ['kill', 'killed', 'killing', 'blood', 'bloody', 'murder', 'gun', 'stab', 'stabbed', 'weapon', 'corpse', 'die', 'died', 'dead'],
+  adult: ['sexy', 'kiss', 'kissed', 'beer', 'wine', 'drunk', 'cigarette', 'drugs', 'casino', 'naked'],
+  discriminatory: ['savage', 'savages', 'primitive', 'retard', 'freak'],
+};
+
+/**
+ * Counts keyword hits per category: one hit lands in the review band,
+ * two or more are flagged. Good enough to exercise the pipeline offline
+ */
+export class KeywordTextModerationClassifier implements TextModerationClassifier {
+  readonly name = 'keyword';
+
+  async classify(text: string): Promise<ModerationClassification> {
+    const scores = {} as ModerationScores;
+
+    for (const category of MODERATION_CATEGORIES) {
+      const hits = KEYWORDS[category].reduce((count, keyword) => {
+        const matches = text.match(new RegExp(`\\b${keyword}\\b`, 'gi'));
+        return count + (matches ? matches.length : 0);
+      }, 0);
+      scores[category] = Math.min(1, hits * 0.4);
+    }
+
+    return {
+      scores,
+      confidence: 0.9,
+      model: 'keyword',
+    };
+  }
+}
+
+/**
+ * Offline image classifier: passes every image, except pages listed in
+ * IMAGE_MODERATION_STUB_REJECT_PAGES (e.g. `2,5`) which are always flagged
+ * so the regeneration loop and manual review can be exercised locally
+ */
+export class StubImageModerationClassifier implements ImageModerationClassifier {
+  readonly name = 'stub';
+
+  async classify(image: ImageModerationInput): Promise<ModerationClassification> {
+    const rejectPages = (process.env.IMAGE_MODERATION_STUB_REJECT_PAGES || '')
+      .split(',')
+      .map((value) => parseInt(value.trim(), 10))
+      .filter((value) => !isNaN(value));
+    const rejected = image.pageNumber !== undefined && rejectPages.includes(image.pageNumber);
+
+    return {
+      scores: {
+        inappropriate: rejected ? 1 : 0,
+        violent: 0,
+        adult: 0,
+        discriminatory: 0,
+      },
+      confidence: 1,
+      model: 'stub',
+    };
+  }
+}
+
+let textClassifierInstance: TextModerationClassifier | null = null;
+
+/**
+ * Returns the text classifier selected by TEXT_MODERATION_PROVIDER
+ * (`gemini` by default, `keyword` for offline runs)
+ */
+export function getTextModerationClassifier(): TextModerationClassifier {
+  if (!textClassifierInstance) {
+    const providerName = process.env.TEXT_MODERATION_PROVIDER || 'gemini';
+
+    switch (providerName) {
+      case 'gemini':
+        textClassifierInstance = new GeminiTextModerationClassifier();
+        break;
+      case 'keyword':
+        textClassifierInstance = new KeywordTextModerationClassifier();
+        break;
+      default:
+        throw new Error(`Unknown TEXT_MODERATION_PROVIDER: ${providerName}`);
+    }
+  }
+  return textClassifierInstance;
+}
+
+let imageClassifierInstance: ImageModerationClassifier | null = null;
+
+/**
+ * Returns the image classifier selected by IMAGE_MODERATION_PROVIDER
+ * (`gemini` by default, `stub` for offline runs)
+ */
+export function getImageModerationClassifier(): ImageModerationClassifier {
+  if (!imageClassifierInstance) {
+    const providerName = process.env.IMAGE_MODERATION_PROVIDER || 'gemini';
+
+    switch (providerName) {
+      case 'gemini':
+        imageClassifierInstance = new GeminiImageModerationClassifier();
+        break;
+      case 'stub':
+        imageClassifierInstance = new StubImageModerationClassifier();
+        break;
+      default:
+        throw new Error(`Unknown IMAGE_MODERATION_PROVIDER: ${providerName}`);
+    }
+  }
+  return imageClassifierInstance;
+}
@@ -0,0 +1,202 @@
+import { splitWords, WordTiming } from '@/lib/narration';
+
+/**
+ * Narration Providers
+ * Abstracts the text-to-speech engine that reads each page aloud
+ * (Google Cloud Text-to-Speech in production, a tone stub for offline runs)
+ */
+
+export interface NarrationRequest {
+  text: string;
+  // Used for logging
+  label?: string;
+}
+
+export interface NarrationResult {
+  audioBuffer: Buffer;
+  mimeType: string;
+  durationMs: number;
+  // One entry per word of the request text (see splitWords)
+  wordTimings: WordTiming[];
+  voice: string;
+}
+
+export interface NarrationProvider {
+  readonly name: string;
+
+  synthesize(request: NarrationRequest): Promise<NarrationResult>;
+}
+
+const DEFAULT_GOOGLE_VOICE = 'en-US-Wavenet-F';
+
+// A little slower than conversational speech, for young listeners
+const DEFAULT_SPEAKING_RATE = 0.9;
+
+// Google returns MP3 at a constant 32 kbps, so the length follows from the size
+const GOOGLE_MP3_BYTES_PER_MS = 32000 / 8 / 1000;
+
+/**
+ * Google Cloud Text-to-Speech (v1beta1, for SSML mark timepoints)
+ * A <mark> before every word comes back as that word's start time
+ */
+export class GoogleNarrationProvider implements NarrationProvider {
+  readonly name = 'google';
+
+  async synthesize(request: NarrationRequest): Promise<NarrationResult> {
+    const apiKey = process.env.GOOGLE_TTS_API_KEY;
+    if (!apiKey) {
+      throw new Error('GOOGLE_TTS_API_KEY environment variable is not set');
+    }
+
+    const voice = process.env.NARRATION_VOICE || DEFAULT_GOOGLE_VOICE;
+    const words = splitWords(request.text);
+    const ssml = `<speak>${words.map((word, index) => `<mark name="w${index}"/>${escapeSsml(word.text)}`).join(' ')}</speak>`;
+
+    const response = await fetch(`https://texttospeech.googleapis.com/v1beta1/text:synthesize?key=${apiKey}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        input: { ssml },
+        voice: { languageCode: voice.substring(0, 5), name: voice },
+        audioConfig: {
+          audioEncoding: 'MP3',
+          speakingRate: parseFloat(process.env.NARRATION_SPEAKING_RATE || '') || DEFAULT_SPEAKING_RATE,
+        },
+        enableTimePointing: ['SSML_MARK'],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Text-to-speech failed${request.label ? ` for ${request.label}` : ''} (${response.status}): ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    const audioBuffer = Buffer.from(result.audioContent, 'base64');
+    const durationMs = Math.round(audioBuffer.length / GOOGLE_MP3_BYTES_PER_MS);
+
+    const starts = new Map<string, number>(
+      (result.timepoints || []).map((point: { markName: string; timeSeconds: number }) => [point.markName, Math.round(point.timeSeconds * 1000)])
+    );
+
+    // A word without a mark (rare) starts where the previous one did
+    const wordTimings: WordTiming[] = [];
+    words.forEach((word, index) => {
+      const startMs = starts.get(`w${index}`) ?? wordTimings[index - 1]?.startMs ?? 0;
+      wordTimings.push({ ...word, startMs, endMs: durationMs });
+      if (index > 0) {
+        wordTimings[index - 1].endMs = startMs;
+      }
+    });
+
+    return { audioBuffer, mimeType: 'audio/mpeg', durationMs, wordTimings, voice };
+  }
+}
+
+const STUB_SAMPLE_RATE = 8000;
+
+/**
+ * Offline narration: a soft tone for each word and silence between them, timed
+ * like unhurried reading, so playback, page turns and highlighting can be
+ * exercised without a TTS account
+ */
+export class StubNarrationProvider implements NarrationProvider {
+  readonly name = 'stub';
+
+  async synthesize(request: NarrationRequest): Promise<NarrationResult> {
+    const wordTimings: WordTiming[] = [];
+    let cursorMs = 300;
+
+    for (const word of splitWords(request.text)) {
+      const lengthMs = 200 + word.text.length * 45;
+      wordTimings.push({ ...word, startMs: cursorMs, endMs: cursorMs + lengthMs });
+
+      cursorMs += lengthMs;
+      if (/[.!?]["')\]]*$/.test(word.text)) {
+        cursorMs += 400;
+      } else if (/[,;:]["')\]]*$/.test(word.text)) {
+        cursorMs += 200;
+      } else {
+        cursorMs += 60;
+      }
+    }
+
+    const durationMs = cursorMs + 300;
+    const samples = new Int16Array(Math.ceil((durationMs / 1000) * STUB_SAMPLE_RATE));
+
+    for (const word of wordTimings) {
+      const start = Math.floor((word.startMs / 1000) * STUB_SAMPLE_RATE);
+      const end = Math.floor((word.endMs / 1000) * STUB_SAMPLE_RATE);
+      for (let i = start; i < end && i < samples.length; i++) {
+        samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * (i - start)) / STUB_SAMPLE_RATE) * 2000);
+      }
+    }
+
+    return {
+      audioBuffer: encodeWav(samples, STUB_SAMPLE_RATE),
+      mimeType: 'audio/wav',
+      durationMs,
+      wordTimings,
+      voice: 'stub-tone',
+    };
+  }
+}
+
+function escapeSsml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * 16-bit mono PCM WAV
+ */
+function encodeWav(samples: Int16Array, sampleRate: number): Buffer {
+  const dataSize = samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataSize);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    buffer.writeInt16LE(samples[i], 44 + i * 2);
+  }
+
+  return buffer;
+}
+
+let providerInstance: NarrationProvider | null = null;
+
+/**
+ * Returns the narration provider selected by NARRATION_PROVIDER
+ * (`google` by default, `stub` for offline runs)
+ */
+export function getNarrationProvider(): NarrationProvider {
+  if (!providerInstance) {
+    const providerName = process.env.NARRATION_PROVIDER || 'google';
+
+    switch (providerName) {
+      case 'google':
+        providerInstance = new GoogleNarrationProvider();
+        break;
+      case 'stub':
+        providerInstance = new StubNarrationProvider();
+        break;
+      default:
+        throw new Error(`Unknown NARRATION_PROVIDER: ${providerName}`);
+    }
+  }
+  return providerInstance;
+}
@@ -0,0 +1,293 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { PrintOrderStatus, ProductTier, ShippingAddress } from '@/types';
+
+/**
+ * Print Providers
+ * Abstracts the print-on-demand vendor that prints and posts physical books
+ * (Lulu in production, a local fake that walks orders through to delivery)
+ */
+
+export type PrintedProductTier = Extract<ProductTier, 'printed-softcover' | 'printed-hardcover'>;
+
+export interface PrintJobRequest {
+  // Our print_orders.id, sent as the vendor's external id
+  printOrderId: string;
+  title: string;
+  productTier: PrintedProductTier;
+  interiorPdfUrl: string;
+  coverPdfUrl: string;
+  shippingAddress: ShippingAddress;
+  shippingLevel: string;
+  contactEmail: string;
+}
+
+export interface PrintJobUpdate {
+  externalOrderId: string;
+  status: PrintOrderStatus;
+  statusMessage?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  carrier?: string;
+  // YYYY-MM-DD
+  estimatedDelivery?: string;
+  shippedAt?: string;
+  deliveredAt?: string;
+}
+
+export interface PrintProvider {
+  readonly name: string;
+
+  submitPrintJob(request: PrintJobRequest): Promise<PrintJobUpdate>;
+
+  getPrintJob(externalOrderId: string): Promise<PrintJobUpdate>;
+
+  /**
+   * Verifies and reads a status webhook; null when the signature doesn't match
+   */
+  parseWebhook(rawBody: string, headers: Headers): PrintJobUpdate | null;
+}
+
+// 8.5" square, full colour on 80# coated paper: perfect bound and casewrap
+const DEFAULT_LULU_POD_PACKAGES: Record<PrintedProductTier, string> = {
+  'printed-softcover': '0850X0850FCPREPB080CW444GXX',
+  'printed-hardcover': '0850X0850FCPRECW080CW444GXX',
+};
+
+const LULU_STATUSES: Record<string, PrintOrderStatus> = {
+  CREATED: 'submitted',
+  UNPAID: 'submitted',
+  PAYMENT_IN_PROGRESS: 'submitted',
+  PRODUCTION_DELAYED: 'submitted',
+  PRODUCTION_READY: 'submitted',
+  IN_PRODUCTION: 'in-production',
+  SHIPPED: 'shipped',
+  REJECTED: 'rejected',
+  CANCELED: 'cancelled',
+  ERROR: 'failed',
+};
+
+/**
+ * Lulu Print API (https://api.lulu.com/docs/)
+ * Lulu reports shipping but not delivery, so Lulu orders stop at shipped
+ */
+export class LuluPrintProvider implements PrintProvider {
+  readonly name = 'lulu';
+
+  private accessToken: { value: string; expiresAt: number } | null = null;
+
+  private get baseUrl(): string {
+    return process.env.LULU_SANDBOX_MODE === 'true'
+      ? 'https://api.sandbox.lulu.com'
+      : 'https://api.lulu.com';
+  }
+
+  async submitPrintJob(request: PrintJobRequest): Promise<PrintJobUpdate> {
+    const address = request.shippingAddress;
+    const podPackageId = process.env[`LULU_POD_PACKAGE_${request.productTier === 'printed-hardcover' ? 'HARDCOVER' : 'SOFTCOVER'}`]
+      || DEFAULT_LULU_POD_PACKAGES[request.productTier];
+
+    const job = await this.request('POST', '/print-jobs/', {
+      external_id: request.printOrderId,
+      contact_email: request.contactEmail,
+      shipping_level: request.shippingLevel,
+      shipping_address: {
+        name: address.recipientName,
+        street1: address.line1,
+        street2: address.line2 || undefined,
+        city: address.city,
+        state_code: address.state || undefined,
+        postcode: address.postcode,
+        country_code: address.countryCode,
+        phone_number: address.recipientPhone || undefined,
+        email: address.recipientEmail || request.contactEmail,
+      },
+      line_items: [
+        {
+          external_id: request.printOrderId,
+          title: request.title,
+          quantity: 1,
+          pod_package_id: podPackageId,
+          printable_normalization: {
+            cover: { source_url: request.coverPdfUrl },
+            interior: { source_url: request.interiorPdfUrl },
+            pod_package_id: podPackageId,
+          },
+        },
+      ],
+    });
+
+    return this.toUpdate(job);
+  }
+
+  async getPrintJob(externalOrderId: string): Promise<PrintJobUpdate> {
+    return this.toUpdate(await this.request('GET', `/print-jobs/${externalOrderId}/`));
+  }
+
+  /**
+   * Lulu signs PRINT_JOB_STATUS_CHANGED webhooks with the API secret (Lulu-HMAC-SHA256)
+   */
+  parseWebhook(rawBody: string, headers: Headers): PrintJobUpdate | null {
+    const signature = headers.get('lulu-hmac-sha256');
+    const secret = process.env.LULU_API_SECRET;
+
+    if (!signature || !secret) {
+      return null;
+    }
+
+    const expected = createHmac('sha256', secret).update(rawBody).digest('hex');
+    if (signature.length !== expected.length || !timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      return null;
+    }
+
+    const payload = JSON.parse(rawBody);
+    return payload?.data ? this.toUpdate(payload.data) : null;
+  }
+
+  private toUpdate(job: any): PrintJobUpdate {
+    const statusName: string = job.status?.name || 'CREATED';
+    const lineItem = job.line_items?.[0];
+
+    return {
+      externalOrderId: String(job.id),
+      status: LULU_STATUSES[statusName] || 'submitted',
+      statusMessage: job.status?.message || undefined,
+      trackingNumber: lineItem?.tracking_id || undefined,
+      trackingUrl: lineItem?.tracking_urls?.[0] || undefined,
+      carrier: lineItem?.carrier_name || undefined,
+      estimatedDelivery: job.estimated_shipping_dates?.arrival_max || undefined,
+      shippedAt: statusName === 'SHIPPED' ? job.status?.changed || new Date().toISOString() : undefined,
+    };
+  }
+
+  private async request(method: 'GET' | 'POST', path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${await this.getAccessToken()}`,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Lulu ${method} ${path} failed (${response.status}): ${await response.text()}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * OAuth client-credentials token, reused until shortly before it expires
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && this.accessToken.expiresAt > Date.now() + 60_000) {
+      return this.accessToken.value;
+    }
+
+    const clientKey = process.env.LULU_API_KEY;
+    const clientSecret = process.env.LULU_API_SECRET;
+    if (!clientKey || !clientSecret) {
+      throw new Error('LULU_API_KEY and LULU_API_SECRET environment variables are required');
+    }
+
+    const response = await fetch(`${this.baseUrl}/auth/realms/glasstree/protocol/openid-connect/token`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${clientKey}:${clientSecret}`).toString('base64')}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: 'grant_type=client_credentials',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Lulu authentication failed (${response.status})`);
+    }
+
+    const token = await response.json();
+    this.accessToken = {
+      value: token.access_token,
+      expiresAt: Date.now() + (token.expires_in || 3600) * 1000,
+    };
+
+    return this.accessToken.value;
+  }
+}
+
+// Minutes after submission at which a fake order reaches each stage
+const FAKE_TIMELINE_MINUTES = {
+  inProduction: 1,
+  shipped: 2,
+  delivered: 3,
+};
+
+/**
+ * Accepts every job and moves it through production, shipping and delivery on
+ * a short timeline, so the whole flow can be exercised locally. The submission
+ * time is kept in the external id, so no state is needed between calls
+ */
+export class FakePrintProvider implements PrintProvider {
+  readonly name = 'fake';
+
+  async submitPrintJob(request: PrintJobRequest): Promise<PrintJobUpdate> {
+    console.log(`[print-provider] Fake print job for ${request.printOrderId}: ${request.interiorPdfUrl} + ${request.coverPdfUrl}`);
+    return this.getPrintJob(`fake_${Date.now()}_${request.printOrderId}`);
+  }
+
+  async getPrintJob(externalOrderId: string): Promise<PrintJobUpdate> {
+    const submittedAt = Number(externalOrderId.split('_')[1]) || Date.now();
+    const minutes = (Date.now() - submittedAt) / 60_000;
+    const at = (offset: number) => new Date(submittedAt + offset * 60_000).toISOString();
+    const tracking = {
+      trackingNumber: `FAKE${String(submittedAt).slice(-8)}`,
+      trackingUrl: `https://example.com/track/FAKE${String(submittedAt).slice(-8)}`,
+      carrier: 'Fake Post',
+      estimatedDelivery: at(FAKE_TIMELINE_MINUTES.delivered).substring(0, 10),
+    };
+
+    if (minutes >= FAKE_TIMELINE_MINUTES.delivered) {
+      return { externalOrderId, status: 'delivered', ...tracking, shippedAt: at(FAKE_TIMELINE_MINUTES.shipped), deliveredAt: at(FAKE_TIMELINE_MINUTES.delivered) };
+    }
+    if (minutes >= FAKE_TIMELINE_MINUTES.shipped) {
+      return { externalOrderId, status: 'shipped', ...tracking, shippedAt: at(FAKE_TIMELINE_MINUTES.shipped) };
+    }
+    if (minutes >= FAKE_TIMELINE_MINUTES.inProduction) {
+      return { externalOrderId, status: 'in-production' };
+    }
+    return { externalOrderId, status: 'submitted' };
+  }
+
+  /**
+   * Unsigned: { "externalOrderId": "...", "status": "shipped", ... } for poking the webhook by hand
+   */
+  parseWebhook(rawBody: string): PrintJobUpdate | null {
+    if (process.env.NODE_ENV === 'production') {
+      return null;
+    }
+    const payload = JSON.parse(rawBody);
+    return payload?.externalOrderId && payload?.status ? payload : null;
+  }
+}
+
+let providerInstance: PrintProvider | null = null;
+
+/**
+ * Returns the print provider selected by PRINT_PROVIDER
+ * (`lulu` by default, `fake` for local runs)
+ */
+export function getPrintProvider(): PrintProvider {
+  if (!providerInstance) {
+    const providerName = process.env.PRINT_PROVIDER || 'lulu';
+
+    switch (providerName) {
+      case 'lulu':
+        providerInstance = new LuluPrintProvider();
+        break;
+      case 'fake':
+        providerInstance = new FakePrintProvider();
+        break;
+      default:
+        throw new Error(`Unknown PRINT_PROVIDER: ${providerName}`);
+    }
+  }
+  return providerInstance;
+}
@@ -0,0 +1,127 @@
+import { createHash } from 'crypto';
+import Stripe from 'stripe';
+import { getStripe } from '@/lib/stripe';
+
+/**
+ * Refund Providers
+ * Abstracts where money goes back to the customer (Stripe in production,
+ * an instant simulated refund for local runs and payments Stripe never saw)
+ */
+
+export type ProviderRefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export interface RefundRequest {
+  // payments.stripe_payment_intent_id
+  paymentIntentId: string;
+  amountCents: number;
+  reason: string;
+  // The same key always yields the same refund, so a retried request can't refund twice
+  idempotencyKey: string;
+}
+
+export interface ProviderRefund {
+  // Null when the provider turned the request down without creating a refund
+  providerRefundId: string | null;
+  status: ProviderRefundStatus;
+  failureReason?: string;
+}
+
+export interface RefundProvider {
+  readonly name: string;
+
+  issueRefund(request: RefundRequest): Promise<ProviderRefund>;
+
+  /**
+   * Current state of a refund created earlier, for refunds that were still pending
+   */
+  getRefund(providerRefundId: string): Promise<ProviderRefund>;
+}
+
+/**
+ * Maps a Stripe refund onto our statuses; requires_action and pending both wait
+ */
+export function fromStripeRefund(refund: Stripe.Refund): ProviderRefund {
+  switch (refund.status) {
+    case 'succeeded':
+      return { providerRefundId: refund.id, status: 'succeeded' };
+    case 'failed':
+    case 'canceled':
+      return {
+        providerRefundId: refund.id,
+        status: 'failed',
+        failureReason: refund.failure_reason || `Refund ${refund.status}`,
+      };
+    default:
+      return { providerRefundId: refund.id, status: 'pending' };
+  }
+}
+
+export class StripeRefundProvider implements RefundProvider {
+  readonly name = 'stripe';
+
+  async issueRefund(request: RefundRequest): Promise<ProviderRefund> {
+    try {
+      const refund = await getStripe().refunds.create(
+        {
+          payment_intent: request.paymentIntentId,
+          amount: request.amountCents,
+          metadata: { reason: request.reason },
+        },
+        { idempotencyKey: request.idempotencyKey }
+      );
+
+      return fromStripeRefund(refund);
+    } catch (error) {
+      // e.g. already refunded in the dashboard or disputed; retrying won't help
+      if (error instanceof Stripe.errors.StripeInvalidRequestError) {
+        return { providerRefundId: null, status: 'failed', failureReason: error.message };
+      }
+      throw error;
+    }
+  }
+
+  async getRefund(providerRefundId: string): Promise<ProviderRefund> {
+    return fromStripeRefund(await getStripe().refunds.retrieve(providerRefundId));
+  }
+}
+
+/**
+ * Succeeds immediately with an id derived from the idempotency key
+ */
+export class SimulatedRefundProvider implements RefundProvider {
+  readonly name = 'simulated';
+
+  async issueRefund(request: RefundRequest): Promise<ProviderRefund> {
+    const key = createHash('sha256').update(request.idempotencyKey).digest('hex').substring(0, 24);
+    console.log(`[refund-provider] Simulated refund of ${request.amountCents} cents for ${request.paymentIntentId}`);
+    return { providerRefundId: `sim_re_${key}`, status: 'succeeded' };
+  }
+
+  async getRefund(providerRefundId: string): Promise<ProviderRefund> {
+    return { providerRefundId, status: 'succeeded' };
+  }
+}
+
+let providerInstance: RefundProvider | null = null;
+
+/**
+ * Returns the refund provider selected by REFUND_PROVIDER
+ * (`stripe` by default, `simulated` for local runs)
+ */
+export function getRefundProvider(): RefundProvider {
+  if (!providerInstance) {
+    const providerName = process.env.REFUND_PROVIDER || 'stripe';
+
+    switch (providerName) {
+      case 'stripe':
+        providerInstance = new StripeRefundProvider();
+        break;
+      case 'simulated':
+        providerInstance = new SimulatedRefundProvider();
+        break;
+      default:
+        throw new Error(`Unknown REFUND_PROVIDER: ${providerName}`);
+    }
+  }
+  return providerInstance;
+}
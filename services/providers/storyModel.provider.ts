@@ -0,0 +1,168 @@
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Story Model Providers
+ * Abstracts the text model used for story generation so it can be swapped
+ * (Gemini in production, canned fixtures for offline runs and CI)
+ */
+
+export interface StoryModelOptions {
+  model?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export interface StoryModelResult<T = unknown> {
+  data: T;
+  rawText: string;
+  model: string;
+}
+
+export interface StoryModelProvider {
+  readonly name: string;
+
+  /**
+   * Sends the prompt to the model and returns the parsed JSON response
+   * Throws if the model does not return valid JSON
+   */
+  generateJson<T = unknown>(prompt: string, options?: StoryModelOptions): Promise<StoryModelResult<T>>;
+}
+
+// Overridden by GEMINI_STORY_MODEL. Not GEMINI_TEXT_MODEL: older .env files set
+// that to a model the app never actually used
+const DEFAULT_TEXT_MODEL = 'gemini-2.5-flash';
+
+/**
+ * Hashes a prompt into the key used to look up fixtures
+ */
+export function hashPrompt(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').substring(0, 16);
+}
+
+// Lazy initialization for Gemini
+function getGemini() {
+  const apiKey = process.env.GOOGLE_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEY or GOOGLE_GEMINI_API_KEY environment variable is required');
+  }
+  return new GoogleGenerativeAI(apiKey);
+}
+
+export class GeminiStoryModelProvider implements StoryModelProvider {
+  readonly name = 'gemini';
+
+  async generateJson<T = unknown>(prompt: string, options: StoryModelOptions = {}): Promise<StoryModelResult<T>> {
+    const modelName = options.model || process.env.GEMINI_STORY_MODEL || DEFAULT_TEXT_MODEL;
+
+    const genAI = getGemini();
+    const model = genAI.getGenerativeModel({
+      model: modelName,
+      generationConfig: {
+        temperature: options.temperature ?? 0.8,
+        maxOutputTokens: options.maxOutputTokens ?? 4096,
+        responseMimeType: 'application/json',
+      },
+    });
+
+    const result = await model.generateContent(prompt);
+    const text = result.response.text();
+
+    console.log(`Received ${text.length} characters from ${modelName}, parsing JSON...`);
+
+    return {
+      data: JSON.parse(text) as T,
+      rawText: text,
+      model: modelName,
+    };
+  }
+}
+
+/**
+ * Deterministic provider for offline runs and CI
+ * Returns canned JSON from `<fixturesDir>/<promptHash>.json`; when no fixture
+ * exists for a prompt, a placeholder story is derived from the prompt itself
+ */
+export class FixtureStoryModelProvider implements StoryModelProvider {
+  readonly name = 'fixture';
+
+  constructor(private fixturesDir: string = process.env.STORY_FIXTURES_DIR || path.join(process.cwd(), 'services', 'providers', 'fixtures', 'stories')) {}
+
+  async generateJson<T = unknown>(prompt: string, options: StoryModelOptions = {}): Promise<StoryModelResult<T>> {
+    const key = hashPrompt(prompt);
+    const fixturePath = path.join(this.fixturesDir, `${key}.json`);
+
+    let text: string;
+    if (fs.existsSync(fixturePath)) {
+      console.log(`Using story fixture ${key}`);
+      text = fs.readFileSync(fixturePath, 'utf-8');
+    } else {
+      console.log(`No story fixture for prompt ${key}, using placeholder story`);
+      text = JSON.stringify(this.buildPlaceholderStory(prompt, key), null, 2);
+    }
+
+    return {
+      data: JSON.parse(text) as T,
+      rawText: text,
+      model: options.model || `fixture:${key}`,
+    };
+  }
+
+  private buildPlaceholderStory(prompt: string, key: string) {
+    const nameMatch = prompt.match(/story for ([^,]+),/);
+    const pageCountMatch = prompt.match(/(\d+)-page/);
+    const wordRangeMatch = prompt.match(/Each page should have (\d+)-(\d+) words/);
+    const childName = nameMatch ? nameMatch[1].trim() : 'the child';
+    const pageCount = pageCountMatch ? parseInt(pageCountMatch[1], 10) : 6;
+    const minWords = wordRangeMatch ? parseInt(wordRangeMatch[1], 10) : 50;
+    const maxWords = wordRangeMatch ? parseInt(wordRangeMatch[2], 10) : 100;
+
+    const places = ['a sunny meadow', 'a quiet forest', 'a sparkling beach', 'a busy market', 'a hilltop garden', 'a cosy library'];
+    const seed = parseInt(key.substring(0, 8), 16);
+
+    return {
+      title: `${childName} and the Placeholder Adventure`,
+      pages: Array.from({ length: pageCount }, (_, i) => {
+        const place = places[(seed + i) % places.length];
+        const words = `${childName} set off to explore ${place}. Everything looked bright and new, and ${childName} smiled at every friendly face along the way. "What a wonderful day," said ${childName}, taking a deep breath of fresh air. There were colours to count, sounds to hear and little surprises hiding around every corner. ${childName} felt brave, curious and happy, ready to see what would happen next on this gentle adventure.`.split(' ');
+
+        // Stay inside the word range the prompt asked for
+        while (words.length < minWords) {
+          words.push(...`The sky was blue and ${childName} kept walking.`.split(' '));
+        }
+
+        return {
+          pageNumber: i + 1,
+          text: words.slice(0, maxWords).join(' '),
+          imagePrompt: `${childName} exploring ${place} on a bright, cheerful day, smiling with curiosity`,
+        };
+      }),
+    };
+  }
+}
+
+let providerInstance: StoryModelProvider | null = null;
+
+/**
+ * Returns the story model provider selected by STORY_MODEL_PROVIDER
+ * (`gemini` by default, `fixture` for offline runs)
+ */
+export function getStoryModelProvider(): StoryModelProvider {
+  if (!providerInstance) {
+    const providerName = process.env.STORY_MODEL_PROVIDER || 'gemini';
+
+    switch (providerName) {
+      case 'gemini':
+        providerInstance = new GeminiStoryModelProvider();
+        break;
+      case 'fixture':
+        providerInstance = new FixtureStoryModelProvider();
+        break;
+      default:
+        throw new Error(`Unknown STORY_MODEL_PROVIDER: ${providerName}`);
+    }
+  }
+  return providerInstance;
+}
@@ -0,0 +1,389 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  getRefundProvider,
+  ProviderRefund,
+  RefundProvider,
+  SimulatedRefundProvider,
+} from './providers/refund.provider';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import { formatPrice, fromCents, isCurrency, toCents } from '@/lib/pricing';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+// Payment statuses that still have money left to give back
+export const REFUNDABLE_PAYMENT_STATUSES = ['completed', 'refund-pending', 'partially-refunded', 'refund-failed'];
+
+// Books that end in these statuses are refunded automatically
+export const REFUNDED_BOOK_STATUSES = ['failed', 'cancelled'];
+
+export interface ConfirmablePayment {
+  status: string;
+  paid_at?: string | null;
+  stripe_payment_intent_id?: string | null;
+}
+
+/**
+ * A payment the server confirmed, in one of the given statuses. Only the
+ * service role writes payments rows, and it sets the payment intent and
+ * paid_at when the Stripe webhook (or a free or mock order) confirms one
+ */
+export function isConfirmedPayment(
+  payment: ConfirmablePayment,
+  statuses: string[] = ['completed']
+): boolean {
+  return statuses.includes(payment.status) && !!payment.paid_at && !!payment.stripe_payment_intent_id;
+}
+
+// Payments the automatic refund picks up; refund-failed is left for staff
+const AUTOMATIC_REFUND_PAYMENT_STATUSES = ['completed', 'refund-pending', 'partially-refunded'];
+
+// Mock and free (100% promo code) payments never went through Stripe
+const SIMULATED_PAYMENT_PREFIXES = ['mock_pi_', 'free_'];
+
+export type RefundStatus = 'pending' | 'succeeded' | 'failed';
+
+export type RefundInitiator = 'admin' | 'automatic';
+
+export interface RefundPaymentParams {
+  paymentId: string;
+  // Defaults to everything not yet refunded
+  amountCents?: number;
+  reason: string;
+  initiatedBy: RefundInitiator;
+  adminUserId?: string;
+}
+
+export interface RefundResult {
+  refundId: string;
+  paymentId: string;
+  amountCents: number;
+  status: RefundStatus;
+  paymentStatus: string;
+  failureReason?: string;
+}
+
+export interface ProcessRefundsResult {
+  refunded: RefundResult[];
+  // Pending provider refunds whose outcome was picked up
+  synced: number;
+  errors: { bookOrderId: string; error: string }[];
+}
+
+/**
+ * Refunds against payments, by staff (any amount up to what is left) or
+ * automatically when a paid book ends in failed or cancelled
+ *
+ * Every refund is a refunds row moving pending -> succeeded | failed, and the
+ * payment's status is recomputed from its refunds afterwards:
+ * refund-pending while one is in flight, then refunded, partially-refunded or
+ * refund-failed (which needs a person; the cron job won't retry it).
+ */
+export class RefundService {
+  constructor(private provider?: RefundProvider) {}
+
+  async refundPayment(params: RefundPaymentParams): Promise<RefundResult> {
+    const { paymentId, reason, initiatedBy, adminUserId } = params;
+    const supabase = getSupabase();
+
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('*, refunds(amount_nzd, status)')
+      .eq('id', paymentId)
+      .single();
+
+    if (!payment) {
+      throw new NotFoundError('Payment');
+    }
+
+    if (!REFUNDABLE_PAYMENT_STATUSES.includes(payment.status)) {
+      throw new ValidationError(`A ${payment.status} payment cannot be refunded`);
+    }
+
+    const { refundableCents, committedCents } = this.getRefundBalance(payment);
+    const amountCents = params.amountCents ?? refundableCents;
+    const currency = isCurrency(payment.currency) ? payment.currency : 'NZD';
+
+    if (!Number.isInteger(amountCents) || amountCents <= 0) {
+      throw new ValidationError('Refund amount must be a positive number of cents');
+    }
+
+    if (amountCents > refundableCents) {
+      throw new ValidationError(`Only ${formatPrice(refundableCents, currency)} of this payment can still be refunded`);
+    }
+
+    // Two callers refunding the same payment from the same state share a key, so only one refund is made
+    const idempotencyKey = `refund-${paymentId}-${committedCents}-${amountCents}`;
+
+    const providerRefund = await this.getProviderFor(payment.stripe_payment_intent_id).issueRefund({
+      paymentIntentId: payment.stripe_payment_intent_id,
+      amountCents,
+      reason,
+      idempotencyKey,
+    });
+
+    const providerRefundId = providerRefund.providerRefundId || `rejected_${idempotencyKey}`;
+
+    const { error: insertError } = await supabase
+      .from('refunds')
+      .upsert({
+        payment_id: paymentId,
+        stripe_refund_id: providerRefundId,
+        amount_nzd: fromCents(amountCents), // Decimal type requires string
+        currency,
+        reason,
+        status: providerRefund.status,
+        failure_reason: providerRefund.failureReason || null,
+        initiated_by: initiatedBy,
+        initiated_by_user_id: adminUserId || null,
+        processed_at: providerRefund.status === 'pending' ? null : new Date().toISOString(),
+      }, { onConflict: 'stripe_refund_id', ignoreDuplicates: true });
+
+    if (insertError) {
+      throw new Error(`Failed to record refund: ${insertError.message}`);
+    }
+
+    const { data: refund } = await supabase
+      .from('refunds')
+      .select('id, status, failure_reason')
+      .eq('stripe_refund_id', providerRefundId)
+      .single();
+
+    const paymentStatus = await this.updatePaymentStatus(paymentId);
+
+    console.log(`[refunds] ${initiatedBy} refund of ${formatPrice(amountCents, currency)} on payment ${paymentId}: ${refund?.status}`);
+
+    return {
+      refundId: refund?.id,
+      paymentId,
+      amountCents,
+      status: refund?.status,
+      paymentStatus,
+      failureReason: refund?.failure_reason || undefined,
+    };
+  }
+
+  /**
+   * Refunds whatever is left of every payment for a book that ended in failed or cancelled
+   */
+  async refundBook(bookOrderId: string, reason: string): Promise<RefundResult[]> {
+    const supabase = getSupabase();
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('id, status')
+      .eq('id', bookOrderId)
+      .single();
+
+    if (!bookOrder) {
+      throw new NotFoundError('Book');
+    }
+
+    if (!REFUNDED_BOOK_STATUSES.includes(bookOrder.status)) {
+      throw new ValidationError(`A ${bookOrder.status} book is not refunded automatically`);
+    }
+
+    const { data: payments } = await supabase
+      .from('payments')
+      .select('id, amount_nzd, refunds(amount_nzd, status)')
+      .eq('book_order_id', bookOrderId)
+      .in('status', AUTOMATIC_REFUND_PAYMENT_STATUSES);
+
+    const results: RefundResult[] = [];
+
+    for (const payment of payments || []) {
+      // Already on its way; the webhook or the cron job will settle it
+      if (payment.refunds?.some((refund: any) => refund.status === 'pending')) {
+        continue;
+      }
+
+      // e.g. a book a promo code paid for in full: nothing to send back
+      if (this.getRefundBalance(payment).refundableCents === 0) {
+        await this.updatePaymentStatus(payment.id);
+        continue;
+      }
+
+      results.push(await this.refundPayment({ paymentId: payment.id, reason, initiatedBy: 'automatic' }));
+    }
+
+    return results;
+  }
+
+  /**
+   * Called when a book has just ended in failed or cancelled. Never throws: the
+   * book's own outcome matters more, and the cron job retries what didn't happen
+   */
+  async refundBookQuietly(bookOrderId: string, reason: string): Promise<void> {
+    try {
+      await this.refundBook(bookOrderId, reason);
+    } catch (error) {
+      console.error(`[refunds] Automatic refund for book ${bookOrderId} failed (the cron job will retry):`, error);
+    }
+  }
+
+  /**
+   * Cron job: refunds payments marked refund-pending or belonging to failed and
+   * cancelled books, and checks on refunds the provider hasn't settled yet
+   */
+  async processPendingRefunds(): Promise<ProcessRefundsResult> {
+    const supabase = getSupabase();
+    const result: ProcessRefundsResult = { refunded: [], synced: 0, errors: [] };
+
+    const { data: pendingRefunds } = await supabase
+      .from('refunds')
+      .select('id, stripe_refund_id, payment:payments(stripe_payment_intent_id)')
+      .eq('status', 'pending');
+
+    for (const refund of (pendingRefunds || []) as any[]) {
+      try {
+        const provider = this.getProviderFor(refund.payment?.stripe_payment_intent_id || '');
+        if (await this.applyProviderUpdate(await provider.getRefund(refund.stripe_refund_id))) {
+          result.synced++;
+        }
+      } catch (error) {
+        console.error(`[refunds] Failed to check refund ${refund.stripe_refund_id}:`, error);
+      }
+    }
+
+    const { data: books, error } = await supabase
+      .from('book_orders')
+      .select('id, status, payments!inner(status)')
+      .in('status', REFUNDED_BOOK_STATUSES)
+      .in('payments.status', AUTOMATIC_REFUND_PAYMENT_STATUSES);
+
+    if (error) {
+      throw new Error(`Failed to list books awaiting refunds: ${error.message}`);
+    }
+
+    for (const book of books || []) {
+      try {
+        const reason = book.status === 'cancelled' ? 'Book cancelled' : 'Book generation failed';
+        result.refunded.push(...await this.refundBook(book.id, reason));
+      } catch (error: any) {
+        console.error(`[refunds] Automatic refund for book ${book.id} failed:`, error);
+        result.errors.push({ bookOrderId: book.id, error: error.message || 'Unknown error' });
+      }
+    }
+
+    console.log(`[refunds] Issued ${result.refunded.length} refund(s), settled ${result.synced} pending, ${result.errors.length} error(s)`);
+
+    return result;
+  }
+
+  /**
+   * Applies a provider's update to a refund we created (Stripe webhook or the
+   * cron job); returns false for refunds we have no row for or that are unchanged
+   */
+  async applyProviderUpdate(update: ProviderRefund): Promise<boolean> {
+    if (!update.providerRefundId || update.status === 'pending') {
+      return false;
+    }
+
+    // Only settles a pending refund, so a late or replayed update can't flip an outcome
+    const { data: updated } = await getSupabase()
+      .from('refunds')
+      .update({
+        status: update.status,
+        failure_reason: update.failureReason || null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('stripe_refund_id', update.providerRefundId)
+      .eq('status', 'pending')
+      .select('payment_id');
+
+    if (!updated || updated.length === 0) {
+      return false;
+    }
+
+    const paymentStatus = await this.updatePaymentStatus(updated[0].payment_id);
+    console.log(`[refunds] Refund ${update.providerRefundId} ${update.status}; payment ${updated[0].payment_id} is now ${paymentStatus}`);
+
+    return true;
+  }
+
+  async listRefunds(paymentId: string): Promise<any[]> {
+    const { data, error } = await getSupabase()
+      .from('refunds')
+      .select('*')
+      .eq('payment_id', paymentId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list refunds: ${error.message}`);
+    }
+
+    return data || [];
+  }
+
+  /**
+   * Recomputes payments.status from the payment's refunds
+   */
+  private async updatePaymentStatus(paymentId: string): Promise<string> {
+    const supabase = getSupabase();
+
+    const { data: payment } = await supabase
+      .from('payments')
+      .select('amount_nzd, status, refunds(amount_nzd, status, created_at)')
+      .eq('id', paymentId)
+      .single();
+
+    if (!payment) {
+      throw new NotFoundError('Payment');
+    }
+
+    const refunds = [...(payment.refunds || [])].sort((a: any, b: any) => a.created_at.localeCompare(b.created_at));
+    const sumCents = (status: RefundStatus) => refunds
+      .filter((refund: any) => refund.status === status)
+      .reduce((total: number, refund: any) => total + toCents(refund.amount_nzd), 0);
+
+    const succeededCents = sumCents('succeeded');
+    const latest = refunds[refunds.length - 1];
+
+    let status: string;
+    if (sumCents('pending') > 0) {
+      status = 'refund-pending';
+    } else if (succeededCents >= toCents(payment.amount_nzd)) {
+      status = 'refunded';
+    } else if (latest?.status === 'failed') {
+      status = 'refund-failed';
+    } else if (succeededCents > 0) {
+      status = 'partially-refunded';
+    } else {
+      status = payment.status;
+    }
+
+    if (status !== payment.status) {
+      await supabase.from('payments').update({ status }).eq('id', paymentId);
+    }
+
+    return status;
+  }
+
+  /**
+   * What is left to refund, and what is already refunded or on its way
+   */
+  private getRefundBalance(payment: any): { refundableCents: number; committedCents: number } {
+    const committedCents = (payment.refunds || [])
+      .filter((refund: any) => refund.status === 'succeeded' || refund.status === 'pending')
+      .reduce((total: number, refund: any) => total + toCents(refund.amount_nzd), 0);
+
+    return {
+      refundableCents: Math.max(0, toCents(payment.amount_nzd) - committedCents),
+      committedCents,
+    };
+  }
+
+  private getProviderFor(paymentIntentId: string): RefundProvider {
+    if (SIMULATED_PAYMENT_PREFIXES.some((prefix) => paymentIntentId.startsWith(prefix))) {
+      return new SimulatedRefundProvider();
+    }
+    return this.provider || getRefundProvider();
+  }
+}
+
+export const refundService = new RefundService();
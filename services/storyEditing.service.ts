@@ -0,0 +1,195 @@
+import { createClient } from '@supabase/supabase-js';
+import { ContentModerationService } from './contentModeration.service';
+import { countWords } from '@/lib/storyValidation';
+import { NotFoundError, ValidationError } from '@/lib/errors';
+import type { GeneratedStoryData } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+export const STORY_REVIEW_STATUS = 'story-review';
+
+/**
+ * generated_stories.full_story_json: the current story, plus the text the
+ * model originally wrote once a parent has edited it
+ */
+export interface VersionedStoryJson extends GeneratedStoryData {
+  // 0 for the AI text, incremented on every saved edit
+  version?: number;
+  editedAt?: string;
+  original?: GeneratedStoryData;
+}
+
+export interface StoryPageEdit {
+  id: string;
+  pageText: string;
+  imagePrompt: string;
+}
+
+interface UpdateStoryParams {
+  bookOrderId: string;
+  title?: string;
+  pages: StoryPageEdit[];
+}
+
+export interface ApproveStoryResult {
+  bookOrderId: string;
+  bookStatus: string;
+  // True when the book can go straight on to illustrations
+  resumeProcessing: boolean;
+}
+
+/**
+ * Parent edits to a story while the book waits in `story-review`
+ */
+export class StoryEditingService {
+  constructor(private moderationService: ContentModerationService = new ContentModerationService()) {}
+
+  /**
+   * Saves edited page text and image prompts, keeping the AI original in full_story_json
+   */
+  async updateStory(params: UpdateStoryParams): Promise<{ storyId: string; version: number }> {
+    const { bookOrderId, pages } = params;
+    const supabase = getSupabase();
+    const story = await this.getStoryInReview(bookOrderId);
+
+    const storyPages: any[] = story.story_pages || [];
+    for (const edit of pages) {
+      if (!storyPages.some((page) => page.id === edit.id)) {
+        throw new ValidationError(`Page ${edit.id} does not belong to this story`);
+      }
+    }
+
+    for (const edit of pages) {
+      const { error } = await supabase
+        .from('story_pages')
+        .update({
+          page_text: edit.pageText,
+          image_prompt: edit.imagePrompt,
+          word_count: countWords(edit.pageText),
+        })
+        .eq('id', edit.id);
+
+      if (error) {
+        throw new Error(`Failed to save story page: ${error.message}`);
+      }
+    }
+
+    const { data: updatedPages } = await supabase
+      .from('story_pages')
+      .select('page_number, page_text, image_prompt, word_count')
+      .eq('story_id', story.id)
+      .order('page_number', { ascending: true });
+
+    const title = params.title || story.title;
+    const previous = (story.full_story_json || {}) as VersionedStoryJson;
+    const version = (previous.version || 0) + 1;
+    const storyJson: VersionedStoryJson = {
+      title,
+      pages: (updatedPages || []).map((page) => ({
+        pageNumber: page.page_number,
+        text: page.page_text,
+        imagePrompt: page.image_prompt,
+      })),
+      version,
+      editedAt: new Date().toISOString(),
+      original: previous.original || { title: previous.title, pages: previous.pages },
+    };
+
+    const { error: storyError } = await supabase
+      .from('generated_stories')
+      .update({
+        title,
+        full_story_json: storyJson,
+        word_count: (updatedPages || []).reduce((total, page) => total + (page.word_count || 0), 0),
+      })
+      .eq('id', story.id);
+
+    if (storyError) {
+      throw new Error(`Failed to save story: ${storyError.message}`);
+    }
+
+    console.log(`[story-editing] Saved version ${version} of story ${story.id} for book ${bookOrderId}`);
+
+    return { storyId: story.id, version };
+  }
+
+  /**
+   * Releases the book to illustration. Edited text is moderated again first,
+   * so a flagged edit sends the book to content-review instead
+   */
+  async approveStory(bookOrderId: string): Promise<ApproveStoryResult> {
+    const supabase = getSupabase();
+    const story = await this.getStoryInReview(bookOrderId);
+
+    // Set before moderation so a staff approval carries straight on to illustrations
+    await supabase
+      .from('book_orders')
+      .update({ story_approved_at: new Date().toISOString() })
+      .eq('id', bookOrderId);
+
+    const storyJson = (story.full_story_json || {}) as VersionedStoryJson;
+    if (storyJson.version) {
+      const moderation = await this.moderationService.moderateStory({
+        bookOrderId,
+        storyId: story.id,
+        title: story.title,
+        pages: story.story_pages || [],
+        version: storyJson.version,
+      });
+
+      if (moderation.reviewRequired) {
+        await supabase
+          .from('book_orders')
+          .update({ status: 'content-review' })
+          .eq('id', bookOrderId);
+
+        return { bookOrderId, bookStatus: 'content-review', resumeProcessing: false };
+      }
+    }
+
+    await supabase
+      .from('book_orders')
+      .update({ status: 'processing' })
+      .eq('id', bookOrderId);
+
+    return { bookOrderId, bookStatus: 'processing', resumeProcessing: true };
+  }
+
+  private async getStoryInReview(bookOrderId: string): Promise<any> {
+    const supabase = getSupabase();
+
+    const { data: bookOrder } = await supabase
+      .from('book_orders')
+      .select('id, status')
+      .eq('id', bookOrderId)
+      .single();
+
+    if (!bookOrder) {
+      throw new NotFoundError('Book');
+    }
+
+    if (bookOrder.status !== STORY_REVIEW_STATUS) {
+      throw new ValidationError('The story can only be changed before illustrations start');
+    }
+
+    const { data: story } = await supabase
+      .from('generated_stories')
+      .select('id, title, full_story_json, story_pages(*)')
+      .eq('book_order_id', bookOrderId)
+      .single();
+
+    if (!story) {
+      throw new NotFoundError('Story');
+    }
+
+    return story;
+  }
+}
+
+export const storyEditingService = new StoryEditingService();
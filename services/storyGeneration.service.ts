@@ -1,5 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getStoryModelProvider, StoryModelProvider } from './providers/storyModel.provider';
+import { resolveStoryPageCount } from '@/lib/bookPages';
+import { countWords, getWordRangeForAge, StoryViolation, validateStory } from '@/lib/storyValidation';
+import type { GeneratedStoryData, StoryPage } from '@/types';
 
 // Lazy initialization to ensure environment variables are loaded
 function getSupabase() {
@@ -9,27 +12,7 @@ function getSupabase() {
   );
 }
 
-// Lazy initialization for Gemini
-function getGemini() {
-  const apiKey = process.env.GOOGLE_GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY or GOOGLE_GEMINI_API_KEY environment variable is required');
-  }
-  return new GoogleGenerativeAI(apiKey);
-}
-
-interface StoryPage {
-  pageNumber: number;
-  text: string;
-  imagePrompt: string;
-}
-
-interface GeneratedStoryData {
-  title: string;
-  pages: StoryPage[];
-}
-
-interface GenerateStoryParams {
+export interface GenerateStoryParams {
   bookOrderId: string;
   templateId?: string;
   childFirstName: string;
@@ -40,9 +23,20 @@ interface GenerateStoryParams {
   personalityTraits: string[];
   customPrompt?: string;
   pets: any[];
+  // Number of story pages; resolved from the template when omitted
+  pageCount?: number;
 }
 
 export class StoryGenerationService {
+  constructor(private provider?: StoryModelProvider) {}
+
+  private getProvider(): StoryModelProvider {
+    if (!this.provider) {
+      this.provider = getStoryModelProvider();
+    }
+    return this.provider;
+  }
+
   async generateStory(params: GenerateStoryParams): Promise<any> {
     const { bookOrderId, templateId } = params;
 
@@ -60,66 +54,7 @@ export class StoryGenerationService {
         template = data;
       }
 
-      // Build prompt
-      const prompt = this.buildPrompt(params, template);
-
-      console.log('Generating story with Gemini 2.5 Flash...');
-
-      // Generate story with Gemini 2.5 Flash
-      const genAI = getGemini();
-      const model = genAI.getGenerativeModel({
-        model: 'gemini-2.5-flash',
-        generationConfig: {
-          temperature: 0.8,
-          maxOutputTokens: 4096,
-          responseMimeType: 'application/json',
-        },
-      });
-
-      // Try up to 3 times to get valid JSON from Gemini
-      let storyData: GeneratedStoryData | null = null;
-      let lastError: Error | null = null;
-
-      for (let attempt = 1; attempt <= 3; attempt++) {
-        try {
-          console.log(`Story generation attempt ${attempt}/3...`);
-
-          const result = await model.generateContent(prompt);
-          const response = result.response;
-          const text = response.text();
-
-          console.log(`Received ${text.length} characters, parsing JSON...`);
-
-          // Parse JSON response
-          const parsedData = JSON.parse(text) as GeneratedStoryData;
-
-          // Validate story data
-          if (!parsedData || !parsedData.title || !parsedData.pages || parsedData.pages.length !== 6) {
-            throw new Error(`Invalid story data: expected 6 pages, got ${parsedData?.pages?.length || 0}`);
-          }
-
-          // If validation passes, assign to storyData
-          storyData = parsedData;
-
-          console.log(`✓ Valid story generated: "${storyData.title}" with ${storyData.pages.length} pages`);
-          break; // Success! Exit retry loop
-
-        } catch (error: any) {
-          lastError = error;
-          console.error(`Attempt ${attempt} failed:`, error.message);
-
-          if (attempt < 3) {
-            console.log(`Retrying in 2 seconds...`);
-            await new Promise(resolve => setTimeout(resolve, 2000));
-          }
-        }
-      }
-
-      // If all attempts failed, throw the last error
-      if (!storyData) {
-        console.error('All story generation attempts failed');
-        throw new Error(`Failed to generate valid story after 3 attempts: ${lastError?.message}`);
-      }
+      const { storyData, prompt } = await this.composeStory(params, template);
 
       // Save to database
       const { data: generatedStory, error: storyError } = await supabase
@@ -146,7 +81,7 @@ export class StoryGenerationService {
         page_number: page.pageNumber,
         page_text: page.text,
         image_prompt: page.imagePrompt,
-        word_count: page.text.split(/\s+/).length,
+        word_count: countWords(page.text),
       }));
 
       const { error: pagesError } = await supabase
@@ -170,10 +105,94 @@ export class StoryGenerationService {
     }
   }
 
-  private buildPrompt(params: GenerateStoryParams, template: any): string {
+  /**
+   * Builds the prompt and asks the story model for a valid story
+   * When a response breaks the rules, the next attempt is a repair prompt listing
+   * the violations rather than a blind retry
+   * Does not touch the database, so it can run fully offline with the fixture provider
+   */
+  async composeStory(params: GenerateStoryParams, template: any = null): Promise<{ storyData: GeneratedStoryData; prompt: string }> {
+    const pageCount = params.pageCount ?? resolveStoryPageCount({ templatePageCount: template?.page_count });
+    const prompt = this.buildPrompt(params, template, pageCount);
+    const provider = this.getProvider();
+    const validationOptions = {
+      pageCount,
+      childFirstName: params.childFirstName,
+      childAge: params.childAge,
+    };
+
+    console.log(`Generating story with ${provider.name} provider...`);
+
+    // Try up to 3 times to get a valid story from the model
+    let storyData: GeneratedStoryData | null = null;
+    let lastError: Error | null = null;
+    let attemptPrompt = prompt;
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      try {
+        console.log(`Story generation attempt ${attempt}/3...`);
+
+        const { data: parsedData, rawText } = await provider.generateJson<GeneratedStoryData>(attemptPrompt, {
+          temperature: 0.8,
+          // Longer books need more room for text and image prompts
+          maxOutputTokens: Math.max(4096, pageCount * 400),
+        });
+
+        const validation = validateStory(parsedData, validationOptions);
+
+        if (!validation.valid || !validation.story) {
+          console.warn(`Story failed validation with ${validation.violations.length} violation(s):`, JSON.stringify(validation.violations));
+          // Ask the model to fix exactly what was wrong with this response
+          attemptPrompt = this.buildRepairPrompt(prompt, rawText, validation.violations);
+          throw new Error(`Invalid story data: ${validation.violations.map((v) => v.message).join('; ')}`);
+        }
+
+        storyData = validation.story;
+
+        console.log(`✓ Valid story generated: "${storyData.title}" with ${storyData.pages.length} pages`);
+        break; // Success! Exit retry loop
+
+      } catch (error: any) {
+        lastError = error;
+        console.error(`Attempt ${attempt} failed:`, error.message);
+
+        if (attempt < 3) {
+          console.log(`Retrying in 2 seconds...`);
+          await new Promise(resolve => setTimeout(resolve, 2000));
+        }
+      }
+    }
+
+    // If all attempts failed, throw the last error
+    if (!storyData) {
+      console.error('All story generation attempts failed');
+      throw new Error(`Failed to generate valid story after 3 attempts: ${lastError?.message}`);
+    }
+
+    return { storyData, prompt };
+  }
+
+  /**
+   * Re-prompts with the rejected response and its violations so the model
+   * only changes what is wrong
+   */
+  private buildRepairPrompt(originalPrompt: string, rejectedResponse: string, violations: StoryViolation[]): string {
+    let prompt = `${originalPrompt}\n\n`;
+    prompt += `A previous response to this request did not meet the requirements:\n`;
+    prompt += `${rejectedResponse}\n\n`;
+    prompt += `Problems found (JSON):\n`;
+    prompt += `${JSON.stringify(violations, null, 2)}\n\n`;
+    prompt += `Fix every problem listed above. Keep pages that have no problems unchanged, `;
+    prompt += `and return the complete corrected story as JSON with the same structure.`;
+
+    return prompt;
+  }
+
+  private buildPrompt(params: GenerateStoryParams, template: any, pageCount: number): string {
     const { childFirstName, childAge, childGender, favouriteColours, interests, personalityTraits, customPrompt, pets } = params;
+    const wordRange = getWordRangeForAge(childAge);
 
-    let prompt = `Write a 6-page children's story for ${childFirstName}, a ${childAge}-year-old child.\n\n`;
+    let prompt = `Write a ${pageCount}-page children's story for ${childFirstName}, a ${childAge}-year-old child.\n\n`;
 
     if (template) {
       prompt += `Story Template: ${template.title}\n`;
@@ -201,8 +220,8 @@ export class StoryGenerationService {
     prompt += `- Age-appropriate language for ${childAge}-year-olds\n`;
     prompt += `- Positive, encouraging themes\n`;
     prompt += `- ${childFirstName} should be the protagonist and hero of the story\n`;
-    prompt += `- Story must be exactly 6 pages\n`;
-    prompt += `- Each page should have 50-100 words\n`;
+    prompt += `- Story must be exactly ${pageCount} pages\n`;
+    prompt += `- Each page should have ${wordRange.min}-${wordRange.max} words\n`;
     prompt += `- Include engaging dialogue\n`;
     prompt += `- Educational elements appropriate for the age\n`;
     prompt += `- Safe, positive resolution\n`;
@@ -214,7 +233,7 @@ export class StoryGenerationService {
     prompt += `  "pages": [\n`;
     prompt += `    {\n`;
     prompt += `      "pageNumber": 1,\n`;
-    prompt += `      "text": "The text for this page (50-100 words)",\n`;
+    prompt += `      "text": "The text for this page (${wordRange.min}-${wordRange.max} words)",\n`;
     prompt += `      "imagePrompt": "Detailed visual scene description showing ${childFirstName} - describe the setting, action, and atmosphere WITHOUT using words like 'illustration' or 'drawing'"\n`;
     prompt += `    }\n`;
     prompt += `  ]\n`;
@@ -225,7 +244,7 @@ export class StoryGenerationService {
 
   private calculateWordCount(pages: StoryPage[]): number {
     return pages.reduce((total, page) => {
-      return total + page.text.split(/\s+/).length;
+      return total + countWords(page.text);
     }, 0);
   }
 }
@@ -0,0 +1,249 @@
+import { createClient } from '@supabase/supabase-js';
+import { BookProgressService } from './bookProgress.service';
+import { RefundService } from './refund.service';
+import { BookLockStore, getBookLockStore } from '@/lib/bookLock';
+import type { BookStatus } from '@/types';
+
+// Lazy initialization to ensure environment variables are loaded
+function getSupabase() {
+  return createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+}
+
+/**
+ * Minutes a book may sit in a pipeline status without progress before it counts as stuck.
+ * 'processing' waits for the next cron run, so it allows for a few missed runs
+ */
+export const STUCK_BOOK_SLA_MINUTES: Partial<Record<BookStatus, number>> = {
+  'processing': 15,
+  'generating-story': 10,
+  'generating-images': 20,
+  'creating-pdf': 10,
+};
+
+const RECOVERY_BACKOFF_BASE_MINUTES = 5;
+
+/**
+ * Minutes the cron job waits before retrying a stuck book: 5, 10, 20, ...
+ */
+export function getRecoveryBackoffMinutes(attempt: number): number {
+  return RECOVERY_BACKOFF_BASE_MINUTES * 2 ** Math.max(0, attempt - 1);
+}
+
+export type RecoveryAction = 'requeued' | 'failed';
+
+export interface StuckBookRecovery {
+  bookOrderId: string;
+  status: BookStatus;
+  action: RecoveryAction;
+  attempt: number;
+  stalledMinutes: number;
+  reason: string;
+  nextRecoveryAt?: string;
+}
+
+export interface SweepResult {
+  checked: number;
+  recoveries: StuckBookRecovery[];
+}
+
+// Columns recover() needs from book_orders
+const RECOVERY_COLUMNS = 'id, status, recovery_attempts, max_recovery_attempts';
+
+interface RecoveryReason {
+  reason: string;
+  stalledMinutes: number;
+  // book_orders.error_message if the book is given up on
+  failureMessage: string;
+  refundReason: string;
+}
+
+/**
+ * Finds books that stopped moving through the pipeline (usually a serverless
+ * function that timed out mid-step) and hands them back to the cron job with
+ * backoff, until book_orders.max_recovery_attempts is used up and the book is
+ * marked failed. Pipeline runs that hit a transient error are handed back the
+ * same way. Every decision is written to book_recovery_events.
+ */
+export class StuckBookSweeper {
+  constructor(
+    private lockStore?: BookLockStore,
+    private progressService: BookProgressService = new BookProgressService(),
+    private refundService: RefundService = new RefundService()
+  ) {}
+
+  async sweep(now: Date = new Date()): Promise<SweepResult> {
+    const supabase = getSupabase();
+
+    const { data: books, error } = await supabase
+      .from('book_orders')
+      .select(`${RECOVERY_COLUMNS}, created_at, processing_started_at, last_progress_at, next_recovery_at`)
+      .in('status', Object.keys(STUCK_BOOK_SLA_MINUTES));
+
+    if (error) {
+      throw new Error(`Failed to list books in progress: ${error.message}`);
+    }
+
+    const recoveries: StuckBookRecovery[] = [];
+
+    for (const book of books || []) {
+      // Already re-queued and still backing off
+      if (book.next_recovery_at && new Date(book.next_recovery_at) > now) {
+        continue;
+      }
+
+      const slaMinutes = STUCK_BOOK_SLA_MINUTES[book.status as BookStatus]!;
+      const lastProgressAt = await this.getLastProgressAt(book);
+      const stalledMinutes = Math.floor((now.getTime() - lastProgressAt.getTime()) / 60_000);
+
+      if (stalledMinutes < slaMinutes) {
+        continue;
+      }
+
+      // A runner is working on it right now
+      if (await (this.lockStore || getBookLockStore()).isHeld(book.id)) {
+        continue;
+      }
+
+      recoveries.push(await this.recover(book, {
+        reason: `No progress in ${book.status} for ${stalledMinutes} minutes (limit ${slaMinutes})`,
+        stalledMinutes,
+        failureMessage: `Processing stalled in ${book.status} and did not recover after ${book.max_recovery_attempts ?? 3} automatic retries`,
+        refundReason: 'Book generation stalled',
+      }, now));
+    }
+
+    console.log(`[stuck-book-sweeper] Checked ${books?.length || 0} book(s), recovered ${recoveries.length}`);
+
+    return { checked: books?.length || 0, recoveries };
+  }
+
+  /**
+   * Hands back a book whose pipeline run failed with an error a retry might
+   * fix (a provider 5xx, a timeout), with the same backoff as a stalled book;
+   * null if the book has left the pipeline meanwhile
+   */
+  async retryAfterError(bookOrderId: string, errorMessage: string, now: Date = new Date()): Promise<StuckBookRecovery | null> {
+    const { data: book } = await getSupabase()
+      .from('book_orders')
+      .select(RECOVERY_COLUMNS)
+      .eq('id', bookOrderId)
+      .in('status', Object.keys(STUCK_BOOK_SLA_MINUTES))
+      .maybeSingle();
+
+    if (!book) {
+      return null;
+    }
+
+    return this.recover(book, {
+      reason: `Failed in ${book.status}: ${errorMessage}`,
+      stalledMinutes: 0,
+      failureMessage: `${errorMessage} (gave up after ${book.max_recovery_attempts ?? 3} automatic retries)`,
+      refundReason: 'Book generation failed',
+    }, now);
+  }
+
+  /**
+   * The latest sign of life: a pipeline status change or finished step, the end
+   * of the last backoff, or (while illustrating) the newest saved image
+   */
+  private async getLastProgressAt(book: any): Promise<Date> {
+    const timestamps: string[] = [
+      book.last_progress_at,
+      book.next_recovery_at,
+      book.processing_started_at || book.created_at,
+    ].filter(Boolean);
+
+    if (book.status === 'generating-images') {
+      const { data: latestImage } = await getSupabase()
+        .from('generated_images')
+        .select('created_at')
+        .eq('book_order_id', book.id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (latestImage?.created_at) {
+        timestamps.push(latestImage.created_at);
+      }
+    }
+
+    return new Date(Math.max(...timestamps.map((timestamp) => new Date(timestamp).getTime())));
+  }
+
+  private async recover(book: any, why: RecoveryReason, now: Date): Promise<StuckBookRecovery> {
+    const supabase = getSupabase();
+    const attemptsUsed = book.recovery_attempts || 0;
+    const maxAttempts = book.max_recovery_attempts ?? 3;
+    const { reason, stalledMinutes } = why;
+
+    let recovery: StuckBookRecovery;
+
+    if (attemptsUsed >= maxAttempts) {
+      // Only if nothing moved the book on since it was read
+      const { data: failed, error } = await supabase
+        .from('book_orders')
+        .update({
+          status: 'failed',
+          error_message: why.failureMessage,
+          next_recovery_at: null,
+        })
+        .eq('id', book.id)
+        .eq('status', book.status)
+        .select('id');
+
+      if (error) {
+        throw new Error(`Failed to mark stuck book as failed: ${error.message}`);
+      }
+
+      recovery = { bookOrderId: book.id, status: book.status, action: 'failed', attempt: attemptsUsed, stalledMinutes, reason };
+
+      await this.progressService.record(book.id, {
+        eventType: 'failed',
+        message: 'Something went wrong while creating the book',
+      });
+
+      if (failed && failed.length > 0) {
+        await this.refundService.refundBookQuietly(book.id, why.refundReason);
+      }
+    } else {
+      const attempt = attemptsUsed + 1;
+      const nextRecoveryAt = new Date(now.getTime() + getRecoveryBackoffMinutes(attempt) * 60_000).toISOString();
+
+      // The book keeps its status; the cron job picks it up again once next_recovery_at passes
+      const { error } = await supabase
+        .from('book_orders')
+        .update({ recovery_attempts: attempt, next_recovery_at: nextRecoveryAt })
+        .eq('id', book.id)
+        .eq('status', book.status);
+
+      if (error) {
+        throw new Error(`Failed to re-queue stuck book: ${error.message}`);
+      }
+
+      recovery = { bookOrderId: book.id, status: book.status, action: 'requeued', attempt, stalledMinutes, reason, nextRecoveryAt };
+
+      await this.progressService.record(book.id, {
+        eventType: 'retry',
+        message: `This is taking longer than expected; we'll pick it up again in ${getRecoveryBackoffMinutes(attempt)} minutes`,
+      });
+    }
+
+    await supabase.from('book_recovery_events').insert({
+      book_order_id: recovery.bookOrderId,
+      status: recovery.status,
+      action: recovery.action,
+      attempt: recovery.attempt,
+      stalled_minutes: recovery.stalledMinutes,
+      reason: recovery.reason,
+    });
+
+    console.warn(`[stuck-book-sweeper] ${recovery.action} book ${book.id} (attempt ${recovery.attempt}/${maxAttempts}): ${reason}`);
+
+    return recovery;
+  }
+}
+
+export const stuckBookSweeper = new StuckBookSweeper();
@@ -0,0 +1,9 @@
+-- Staff access to the moderation review queue
+-- Grant with: UPDATE users SET is_admin = true WHERE email = '...';
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS is_admin BOOLEAN DEFAULT FALSE;
+
+-- The review queue only ever lists pending manual reviews
+CREATE INDEX IF NOT EXISTS idx_moderation_reviews_pending
+  ON moderation_reviews(created_at)
+  WHERE requires_manual_review = TRUE AND review_status = 'pending';
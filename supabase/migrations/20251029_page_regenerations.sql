@@ -0,0 +1,3 @@
+-- Track how many single-page illustration regenerations a completed book has used
+
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS page_regenerations_used INTEGER DEFAULT 0;
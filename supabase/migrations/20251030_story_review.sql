@@ -0,0 +1,5 @@
+-- Optional pause after the story is written so parents can edit it before illustration
+-- story_approved_at is set when the parent continues to illustrations
+
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS review_story_before_illustration BOOLEAN DEFAULT FALSE;
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS story_approved_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,4 @@
+-- Steps of the book pipeline that have finished, keyed by step name:
+-- { "story": { "completedAt": "...", "durationSeconds": 42 }, ... }
+
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS pipeline_checkpoints JSONB DEFAULT '{}'::jsonb;
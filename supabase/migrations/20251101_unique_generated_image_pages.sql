@@ -0,0 +1,11 @@
+-- One generated image per page of a book, so resumed runs overwrite instead of duplicating
+-- Keep the newest row where earlier runs left duplicates
+
+DELETE FROM generated_images a
+USING generated_images b
+WHERE a.book_order_id = b.book_order_id
+  AND a.page_number = b.page_number
+  AND (a.created_at < b.created_at OR (a.created_at = b.created_at AND a.id < b.id));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_generated_images_book_page
+  ON generated_images(book_order_id, page_number);
@@ -0,0 +1,6 @@
+-- Processing lease per book so the cron job, HTTP triggers and the worker
+-- never run the pipeline for the same book at once (see lib/bookLock.ts).
+-- Only used when REDIS_URL is not set; an expired lease can be taken over.
+
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS lock_owner VARCHAR(100);
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS lock_expires_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,27 @@
+-- Stuck-book recovery (services/stuckBookSweeper.service.ts)
+-- last_progress_at: when the pipeline last changed status or finished a step
+-- recovery_attempts / max_recovery_attempts: how often a stalled book has been
+--   re-queued, and how often it may be before it is marked failed
+-- next_recovery_at: the cron job leaves the book alone until then (backoff)
+
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS last_progress_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS recovery_attempts INTEGER DEFAULT 0;
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS max_recovery_attempts INTEGER DEFAULT 3;
+ALTER TABLE book_orders ADD COLUMN IF NOT EXISTS next_recovery_at TIMESTAMP WITH TIME ZONE;
+
+-- Why each stalled book was re-queued or given up on
+CREATE TABLE IF NOT EXISTS public.book_recovery_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_order_id UUID REFERENCES public.book_orders(id) ON DELETE CASCADE NOT NULL,
+  status VARCHAR(50) NOT NULL,
+  action VARCHAR(20) NOT NULL, -- 'requeued' or 'failed'
+  attempt INTEGER NOT NULL,
+  stalled_minutes INTEGER NOT NULL,
+  reason TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_recovery_events_book_order_id ON public.book_recovery_events(book_order_id);
+
+-- Service role only
+ALTER TABLE public.book_recovery_events ENABLE ROW LEVEL SECURITY;
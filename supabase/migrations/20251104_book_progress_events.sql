@@ -0,0 +1,26 @@
+-- Fine-grained progress written by the book pipeline (services/bookProgress.service.ts)
+-- and streamed to the status page over Supabase realtime
+
+CREATE TABLE IF NOT EXISTS public.book_progress_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_order_id UUID REFERENCES public.book_orders(id) ON DELETE CASCADE NOT NULL,
+  event_type VARCHAR(30) NOT NULL, -- step-started, step-completed, page-completed, retry, paused, completed, failed
+  step VARCHAR(50),
+  page_number INTEGER,
+  pages_completed INTEGER,
+  pages_total INTEGER,
+  percent INTEGER, -- absent when the event does not move the bar (e.g. a stalled-run retry)
+  eta_seconds INTEGER,
+  message TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_book_progress_events_book_order_id
+  ON public.book_progress_events(book_order_id, created_at DESC);
+
+ALTER TABLE public.book_progress_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own book progress" ON public.book_progress_events
+  FOR SELECT USING (auth.uid() = (SELECT user_id FROM public.book_orders WHERE id = book_order_id));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.book_progress_events;
@@ -0,0 +1,84 @@
+-- Pricing catalogue (lib/pricing.ts, services/pricing.service.ts)
+-- product_prices: the price of each product tier in each supported currency.
+--   NZD, AUD and GBP prices include GST/VAT; USD prices have no tax added
+-- promo_codes: percentage or fixed-amount discounts with optional tier and
+--   currency restrictions, a redemption limit and a validity window
+-- payments: amount_nzd keeps holding the amount charged, in payments.currency;
+--   the new columns record how that total was made up
+
+CREATE TABLE IF NOT EXISTS public.product_prices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_tier VARCHAR(50) NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (product_tier, currency)
+);
+
+INSERT INTO public.product_prices (product_tier, currency, amount) VALUES
+  ('digital-pdf', 'NZD', 19.99),
+  ('digital-pdf', 'AUD', 18.99),
+  ('digital-pdf', 'USD', 12.99),
+  ('digital-pdf', 'GBP', 9.99),
+  ('printed-softcover', 'NZD', 49.99),
+  ('printed-softcover', 'AUD', 45.99),
+  ('printed-softcover', 'USD', 29.99),
+  ('printed-softcover', 'GBP', 24.99),
+  ('printed-hardcover', 'NZD', 69.99),
+  ('printed-hardcover', 'AUD', 64.99),
+  ('printed-hardcover', 'USD', 42.99),
+  ('printed-hardcover', 'GBP', 34.99)
+ON CONFLICT (product_tier, currency) DO NOTHING;
+
+CREATE TRIGGER update_product_prices_updated_at BEFORE UPDATE ON public.product_prices
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.promo_codes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) UNIQUE NOT NULL, -- stored upper-case
+  description TEXT,
+  discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percent', 'fixed')),
+  percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 100),
+  amount_off DECIMAL(10, 2) CHECK (amount_off > 0),
+  currency VARCHAR(3), -- required for fixed-amount codes, which only apply in that currency
+  product_tiers VARCHAR(50)[], -- NULL applies to every tier
+  max_redemptions INTEGER, -- NULL is unlimited
+  max_redemptions_per_user INTEGER DEFAULT 1,
+  redemption_count INTEGER DEFAULT 0,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CHECK (
+    (discount_type = 'percent' AND percent_off IS NOT NULL)
+    OR (discount_type = 'fixed' AND amount_off IS NOT NULL AND currency IS NOT NULL)
+  )
+);
+
+-- One row per paid order that used a code; payment_id makes redemption idempotent
+CREATE TABLE IF NOT EXISTS public.promo_code_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  promo_code_id UUID REFERENCES public.promo_codes(id) ON DELETE CASCADE NOT NULL,
+  payment_id UUID REFERENCES public.payments(id) ON DELETE CASCADE UNIQUE NOT NULL,
+  user_id UUID REFERENCES public.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promo_code_redemptions_promo_code_user
+  ON public.promo_code_redemptions(promo_code_id, user_id);
+
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS subtotal_amount DECIMAL(10, 2);
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10, 2) DEFAULT 0;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS tax_amount DECIMAL(10, 2) DEFAULT 0;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS tax_rate DECIMAL(5, 4) DEFAULT 0;
+ALTER TABLE payments ADD COLUMN IF NOT EXISTS promo_code_id UUID REFERENCES public.promo_codes(id);
+
+-- Prices are public; promo codes and redemptions are service role only
+ALTER TABLE public.product_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.promo_code_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active prices" ON public.product_prices
+  FOR SELECT USING (active = true);
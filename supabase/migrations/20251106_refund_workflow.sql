@@ -0,0 +1,19 @@
+-- Refund workflow (services/refund.service.ts)
+-- refunds.stripe_refund_id holds the provider's refund id: a Stripe re_ id, a
+--   sim_re_ id for simulated refunds, or rejected_<key> when Stripe turned the
+--   request down. amount_nzd is the amount refunded in refunds.currency
+-- refunds.status: pending -> succeeded | failed
+-- payments.status gains refund-pending, partially-refunded, refunded and refund-failed
+
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS currency VARCHAR(3) DEFAULT 'NZD';
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS initiated_by VARCHAR(20) DEFAULT 'automatic'; -- 'admin' or 'automatic'
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS initiated_by_user_id UUID REFERENCES public.users(id);
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS failure_reason TEXT;
+ALTER TABLE refunds ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_refunds_payment_id ON public.refunds(payment_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_status ON public.refunds(status);
+CREATE INDEX IF NOT EXISTS idx_payments_status ON public.payments(status);
+
+CREATE TRIGGER update_refunds_updated_at BEFORE UPDATE ON public.refunds
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,29 @@
+-- Print-on-demand fulfilment (services/printFulfilment.service.ts)
+-- print_orders.status: pending (waiting for the finished book and its print
+--   files) -> submitted -> in-production -> shipped -> delivered, or
+--   rejected / cancelled / failed
+-- provider: the PrintProvider that holds external_order_id ('lulu' or 'fake')
+-- One print order per book
+
+ALTER TABLE print_orders ALTER COLUMN status SET DEFAULT 'pending';
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS provider VARCHAR(30);
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS shipping_state VARCHAR(100);
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS shipping_country_code VARCHAR(2);
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS shipping_level VARCHAR(30) DEFAULT 'MAIL';
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS tracking_url VARCHAR(512);
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS carrier VARCHAR(100);
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS status_message TEXT;
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS submission_attempts INTEGER DEFAULT 0;
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE print_orders ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_print_orders_book_order_id ON public.print_orders(book_order_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_print_orders_external_order_id ON public.print_orders(provider, external_order_id);
+CREATE INDEX IF NOT EXISTS idx_print_orders_status ON public.print_orders(status);
+
+CREATE TRIGGER update_print_orders_updated_at BEFORE UPDATE ON public.print_orders
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Written by the service role only; customers can see their own orders
+CREATE POLICY "Users can view own print orders" ON public.print_orders
+  FOR SELECT USING (auth.uid() = (SELECT user_id FROM public.book_orders WHERE id = book_order_id));
@@ -0,0 +1,10 @@
+-- Fixed-layout EPUB 3 export (services/epubGeneration.service.ts)
+-- The EPUB is stored next to the PDF as {book_order_id}/book.epub in the
+-- generated-pdfs bucket and recorded on the book's generated_pdfs row
+
+ALTER TABLE generated_pdfs ADD COLUMN IF NOT EXISTS epub_url VARCHAR(512);
+ALTER TABLE generated_pdfs ADD COLUMN IF NOT EXISTS epub_file_size_bytes INTEGER;
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['application/pdf', 'application/epub+zip']
+WHERE id = 'generated-pdfs';
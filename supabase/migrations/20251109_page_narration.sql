@@ -0,0 +1,25 @@
+-- Read-aloud narration (services/narration.service.ts)
+-- Each story page gets its narration audio (narration-audio bucket, stored as
+-- {book_order_id}/page-{page_number}.mp3 or .wav) and the time each word is spoken
+-- word_timings: [{ text, charStart, charEnd, startMs, endMs }] (lib/narration.ts)
+
+ALTER TABLE story_pages ADD COLUMN IF NOT EXISTS narration_audio_url VARCHAR(512);
+ALTER TABLE story_pages ADD COLUMN IF NOT EXISTS narration_duration_ms INTEGER;
+ALTER TABLE story_pages ADD COLUMN IF NOT EXISTS narration_voice VARCHAR(100);
+ALTER TABLE story_pages ADD COLUMN IF NOT EXISTS narration_generated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE story_pages ADD COLUMN IF NOT EXISTS word_timings JSONB;
+
+-- Public like the other generated content, so the viewer can stream it directly
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'narration-audio',
+  'narration-audio',
+  true,
+  10485760, -- 10MB limit
+  ARRAY['audio/mpeg', 'audio/wav']
+) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Service can insert narration audio"
+ON storage.objects FOR INSERT
+TO service_role
+WITH CHECK (bucket_id = 'narration-audio');
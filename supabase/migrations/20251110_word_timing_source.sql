@@ -0,0 +1,9 @@
+-- Read-along word timings
+-- story_pages.word_timings_source: 'narration' when the timings were measured
+-- from the page's narration audio, 'estimated' when they come from the reading
+-- speed for the child's age (pages without narration)
+
+ALTER TABLE story_pages ADD COLUMN IF NOT EXISTS word_timings_source VARCHAR(20);
+
+UPDATE story_pages SET word_timings_source = 'narration'
+WHERE word_timings IS NOT NULL AND narration_audio_url IS NOT NULL AND word_timings_source IS NULL;
@@ -0,0 +1,28 @@
+-- Shareable read-only book links (services/bookSharing.service.ts)
+-- Anyone with the token can read the finished book at /s/{token} until the
+-- link is revoked, expires or reaches max_views. Every visit, allowed or not,
+-- is written to audit_logs (action 'book_share.view')
+
+CREATE TABLE IF NOT EXISTS public.book_shares (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_order_id UUID NOT NULL REFERENCES public.book_orders(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES public.users(id),
+  token VARCHAR(64) NOT NULL,
+  label VARCHAR(100),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_views INTEGER,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_book_shares_token ON public.book_shares(token);
+CREATE INDEX IF NOT EXISTS idx_book_shares_book_order_id ON public.book_shares(book_order_id);
+CREATE INDEX IF NOT EXISTS idx_audit_logs_resource ON public.audit_logs(resource_type, resource_id);
+
+ALTER TABLE public.book_shares ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; owners can see their books' links
+CREATE POLICY "Users can view own book shares" ON public.book_shares
+  FOR SELECT USING (auth.uid() = (SELECT user_id FROM public.book_orders WHERE id = book_order_id));
@@ -0,0 +1,34 @@
+-- Gift purchases (services/giftDelivery.service.ts)
+-- A book bought for someone else's child: once the book is completed and
+-- deliver_at has passed, the recipient is emailed a share link (book_shares)
+-- status: scheduled -> sent, or failed (after repeated delivery errors) /
+--   cancelled (the book was cancelled or failed)
+-- One gift per book
+
+CREATE TABLE IF NOT EXISTS public.book_gifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_order_id UUID NOT NULL REFERENCES public.book_orders(id) ON DELETE CASCADE,
+  recipient_name VARCHAR(100) NOT NULL,
+  recipient_email VARCHAR(255) NOT NULL,
+  dedication TEXT,
+  deliver_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+  share_id UUID REFERENCES public.book_shares(id) ON DELETE SET NULL,
+  delivery_attempts INTEGER DEFAULT 0,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_book_gifts_book_order_id ON public.book_gifts(book_order_id);
+CREATE INDEX IF NOT EXISTS idx_book_gifts_due ON public.book_gifts(status, deliver_at);
+
+CREATE TRIGGER update_book_gifts_updated_at BEFORE UPDATE ON public.book_gifts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.book_gifts ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; buyers can see their own gifts
+CREATE POLICY "Users can view own book gifts" ON public.book_gifts
+  FOR SELECT USING (auth.uid() = (SELECT user_id FROM public.book_orders WHERE id = book_order_id));
@@ -0,0 +1,21 @@
+-- Staff roles, moved out of users.is_admin
+-- The "Users can update own data" and signup insert policies let owners write
+-- any column of their users row, including is_admin. Nobody but the service
+-- role can read or write staff_roles (RLS on, no policies).
+-- Grant with: INSERT INTO staff_roles (user_id) SELECT id FROM users WHERE email = '...';
+
+CREATE TABLE IF NOT EXISTS public.staff_roles (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'admin',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.staff_roles (user_id)
+SELECT id FROM public.users WHERE is_admin = TRUE
+ON CONFLICT (user_id) DO NOTHING;
+
+ALTER TABLE users DROP COLUMN IF EXISTS is_admin;
+
+-- Service role only
+ALTER TABLE public.staff_roles ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.staff_roles FROM anon, authenticated;
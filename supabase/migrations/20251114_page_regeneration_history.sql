@@ -0,0 +1,33 @@
+-- Page regenerations, moved out of book_orders.page_regenerations_used
+-- Owners can update their own book_orders rows, so the counter could be reset
+-- to get unlimited regenerations. Each regeneration is now a row written only
+-- by the service role, and the allowance is counted from them.
+-- attempt: 1, 2, 3... per book; the unique index stops two requests spending
+--   the same regeneration
+
+CREATE TABLE IF NOT EXISTS public.page_regenerations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_order_id UUID REFERENCES public.book_orders(id) ON DELETE CASCADE NOT NULL,
+  story_page_id UUID REFERENCES public.story_pages(id) ON DELETE SET NULL,
+  attempt INTEGER NOT NULL,
+  prompt_adjustment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_page_regenerations_book_attempt
+  ON public.page_regenerations(book_order_id, attempt);
+
+-- Regenerations already used (which page isn't known)
+INSERT INTO public.page_regenerations (book_order_id, attempt)
+SELECT id, generate_series(1, page_regenerations_used)
+FROM public.book_orders
+WHERE page_regenerations_used > 0
+ON CONFLICT (book_order_id, attempt) DO NOTHING;
+
+ALTER TABLE book_orders DROP COLUMN IF EXISTS page_regenerations_used;
+
+ALTER TABLE public.page_regenerations ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; owners can see their books' regenerations
+CREATE POLICY "Users can view own page regenerations" ON public.page_regenerations
+  FOR SELECT USING (auth.uid() = (SELECT user_id FROM public.book_orders WHERE id = book_order_id));
@@ -0,0 +1,23 @@
+-- Stripe Checkout sessions opened for each book (services/payment.service.ts)
+-- Earlier open sessions are expired before a new one is created, so a book
+-- can't be paid for twice from two checkout tabs.
+-- status: 'open', 'expired' or 'complete'
+
+CREATE TABLE IF NOT EXISTS public.checkout_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  book_order_id UUID REFERENCES public.book_orders(id) ON DELETE CASCADE NOT NULL,
+  stripe_checkout_session_id VARCHAR(255) UNIQUE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'open',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkout_sessions_open
+  ON public.checkout_sessions(book_order_id)
+  WHERE status = 'open';
+
+CREATE TRIGGER update_checkout_sessions_updated_at BEFORE UPDATE ON public.checkout_sessions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Service role only
+ALTER TABLE public.checkout_sessions ENABLE ROW LEVEL SECURITY;
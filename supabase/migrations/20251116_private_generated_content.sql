@@ -0,0 +1,22 @@
+-- Illustrations and narration are only readable through signed URLs (lib/storage.ts)
+-- While the buckets were public, anyone holding a /object/public/ URL from a
+-- shared page could keep using it after the share link expired or was revoked.
+-- Objects are stored as {book_order_id}/..., so owners can sign their own books'
+-- files; the pipeline reads and writes with the service role.
+
+UPDATE storage.buckets
+SET public = false
+WHERE id IN ('generated-images', 'narration-audio');
+
+-- Matched on the user's id as the first folder, which generated images never used
+DROP POLICY IF EXISTS "Users can read own images" ON storage.objects;
+
+CREATE POLICY "Users can read own book content"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id IN ('generated-images', 'narration-audio') AND
+  (storage.foldername(name))[1] IN (
+    SELECT id::text FROM public.book_orders WHERE user_id = auth.uid()
+  )
+);
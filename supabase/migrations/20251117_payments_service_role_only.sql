@@ -0,0 +1,8 @@
+-- Payments are written by the service role only
+-- "Users can create own payments" let any signed-in user insert a completed
+-- payment for their own book, which the pipeline, the process route and print
+-- fulfilment took as proof of payment. Stripe webhooks, free (100% promo code)
+-- orders and mock payments all record their rows with the service role.
+
+DROP POLICY IF EXISTS "Users can create own payments" ON public.payments;
+REVOKE INSERT, UPDATE, DELETE ON public.payments FROM anon, authenticated;
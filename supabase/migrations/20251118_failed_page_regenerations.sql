@@ -0,0 +1,8 @@
+-- Failed page regenerations are kept and flagged instead of deleted
+-- Attempts were numbered from the count of rows, so deleting a failed attempt
+-- while a later one was still reserved made every following request reuse
+-- that later attempt number and hit the unique index for good. Attempts are
+-- now numbered from the highest one so far, and failed rows don't count
+-- against the allowance.
+
+ALTER TABLE public.page_regenerations ADD COLUMN IF NOT EXISTS failed_at TIMESTAMP WITH TIME ZONE;
@@ -0,0 +1,5 @@
+-- Lease owners are hostname:pid:uuid (lib/bookLock.ts); the pid and UUID alone
+-- take about 45 characters, so a long container or pod hostname overflowed
+-- VARCHAR(100) and every lease acquire failed
+
+ALTER TABLE book_orders ALTER COLUMN lock_owner TYPE TEXT;
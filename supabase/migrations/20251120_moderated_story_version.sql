@@ -0,0 +1,6 @@
+-- The story version each moderation review scored (full_story_json.version)
+-- Owners can set their own book's status and story_approved_at, skipping the
+-- rescoring StoryEditingService.approveStory does after an edit; the pipeline
+-- rescores any story edited since its latest review.
+
+ALTER TABLE moderation_reviews ADD COLUMN IF NOT EXISTS content_version INTEGER NOT NULL DEFAULT 0;
@@ -14,6 +14,7 @@ export type BookStatus =
   | 'draft'
   | 'processing'
   | 'generating-story'
+  | 'story-review'
   | 'generating-images'
   | 'creating-pdf'
   | 'content-review'
@@ -23,6 +24,25 @@ export type BookStatus =
 
 export type ProductTier = 'digital-pdf' | 'printed-softcover' | 'printed-hardcover';
 
+export type Currency = 'NZD' | 'AUD' | 'USD' | 'GBP';
+
+export interface PriceQuote {
+  productTier: ProductTier;
+  currency: Currency;
+  // Amounts are in cents; subtotal and total include any GST/VAT
+  subtotalCents: number;
+  discountCents: number;
+  totalCents: number;
+  taxCents: number;
+  taxRate: number;
+  taxLabel: string | null;
+  promoCode: {
+    id: string;
+    code: string;
+    description: string | null;
+  } | null;
+}
+
 export interface ChildInformation {
   firstName: string;
   age: number;
@@ -71,3 +91,88 @@ export interface ModerationResult {
   confidence: number;
   reviewRequired: boolean;
 }
+
+export type BookProgressEventType =
+  | 'step-started'
+  | 'step-completed'
+  | 'page-completed'
+  | 'retry'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+// A row of book_progress_events, as streamed to the status page
+export interface BookProgressEvent {
+  id: string;
+  book_order_id: string;
+  event_type: BookProgressEventType;
+  step: string | null;
+  page_number: number | null;
+  pages_completed: number | null;
+  pages_total: number | null;
+  percent: number | null;
+  eta_seconds: number | null;
+  message: string;
+  created_at: string;
+}
+
+export type PrintOrderStatus =
+  | 'pending' // waiting for the book and its print files
+  | 'submitted'
+  | 'in-production'
+  | 'shipped'
+  | 'delivered'
+  | 'rejected'
+  | 'cancelled'
+  | 'failed';
+
+export interface ShippingAddress {
+  recipientName: string;
+  recipientEmail?: string;
+  recipientPhone?: string;
+  line1: string;
+  line2?: string;
+  city: string;
+  state?: string;
+  postcode: string;
+  // ISO 3166-1 alpha-2, e.g. NZ
+  countryCode: string;
+}
+
+// A row of book_shares: a read-only link to a finished book
+export interface BookShare {
+  id: string;
+  book_order_id: string;
+  token: string;
+  label: string | null;
+  expires_at: string | null;
+  // null for unlimited views
+  max_views: number | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+}
+
+export type BookShareUnavailableReason = 'not-found' | 'revoked' | 'expired' | 'view-limit-reached' | 'book-unavailable';
+
+export type GiftStatus =
+  | 'scheduled' // waiting for the book to finish and the delivery date
+  | 'sent'
+  | 'failed'
+  | 'cancelled';
+
+// A row of book_gifts
+export interface BookGift {
+  id: string;
+  book_order_id: string;
+  recipient_name: string;
+  recipient_email: string;
+  dedication: string | null;
+  deliver_at: string;
+  status: GiftStatus;
+  share_id: string | null;
+  sent_at: string | null;
+  last_error: string | null;
+}